@@ -0,0 +1,67 @@
+import * as React from 'react'
+import { BOT_SPEEDS } from '../js/bot'
+import { emit, on } from '../js/bridge'
+
+// Interface for the BotWatch state
+interface BotWatchState {
+  // Whether the AI is playing
+  watching: boolean
+  // Number of moves the AI makes per second
+  speed: number
+}
+
+// Bot watch component: has the AI play a game for the user to watch, and sets
+// how fast it plays
+export class BotWatch extends React.Component<{}, BotWatchState> {
+  private unsubscribers: Array<() => void> = []
+
+  constructor(props: {}) {
+    super(props)
+    this.state = { watching: false, speed: 10 }
+    this.changeSpeed = this.changeSpeed.bind(this)
+    this.watch = this.watch.bind(this)
+    this.stop = this.stop.bind(this)
+  }
+
+  componentDidMount() {
+    this.unsubscribers = [
+      on('botState', (state) => this.setState(state))
+    ]
+    emit('requestBotState', null)
+  }
+
+  componentWillUnmount() {
+    this.unsubscribers.forEach((unsubscribe) => unsubscribe())
+  }
+
+  changeSpeed(event: React.ChangeEvent<HTMLSelectElement>) {
+    emit('setBotSpeed', Number(event.target.value))
+    // Keep the keys for the game rather than the select
+    event.target.blur()
+  }
+
+  // The keys of the game include Space and Enter, which would click the
+  // button again if it kept the focus
+  watch(event: React.MouseEvent<HTMLButtonElement>) {
+    emit('watchBot', null)
+    event.currentTarget.blur()
+  }
+
+  stop(event: React.MouseEvent<HTMLButtonElement>) {
+    emit('stopBot', null)
+    event.currentTarget.blur()
+  }
+
+  render() {
+    return (
+      <span id="bot-watch">
+        <select value={this.state.speed} onChange={this.changeSpeed}>
+          {BOT_SPEEDS.map((n) => <option key={n} value={n}>{n} moves/s</option>)}
+        </select>
+        {this.state.watching
+          ? <button onClick={this.stop}>Stop AI</button>
+          : <button onClick={this.watch}>Watch AI</button>}
+      </span>
+    )
+  }
+}
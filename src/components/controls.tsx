@@ -0,0 +1,69 @@
+import * as React from 'react'
+import { emit, on } from '../js/bridge'
+import { ACTION_LABELS, ACTIONS, DEFAULT_BINDINGS, keyName } from '../js/keyBindings'
+
+// Interface for the Controls state
+interface ControlsState {
+  bindings: KeyBindings
+  // Whether the rules let the Tet rotate 180 degrees at once
+  allow180: boolean
+}
+
+// Controls component: lists what each action is bound to, as the game has it
+export class Controls extends React.Component<{}, ControlsState> {
+  private unsubscribers: Array<() => void> = []
+
+  constructor(props: {}) {
+    super(props)
+    // Show the defaults until the game tells us its bindings
+    this.state = { bindings: DEFAULT_BINDINGS, allow180: false }
+  }
+
+  componentDidMount() {
+    this.unsubscribers = [
+      on('keyBindings', (bindings) => this.setState({ bindings })),
+      on('rules', (rules) => this.setState({ allow180: rules.allow180 }))
+    ]
+    emit('requestRules', null)
+  }
+
+  componentWillUnmount() {
+    this.unsubscribers.forEach((unsubscribe) => unsubscribe())
+  }
+
+  renderKeys(codes: string[]) {
+    if (codes.length === 0) return <span><em>Unbound</em></span>
+    const keys: React.ReactNode[] = []
+    codes.forEach((code, i) => {
+      if (i > 0) keys.push(' or ')
+      keys.push(<strong key={code}>{keyName(code)}</strong>)
+    })
+    return <span>{keys}</span>
+  }
+
+  render() {
+    // Don't list a key which does nothing under the rules being played
+    const actions = ACTIONS.filter((action) =>
+      action !== 'rotate180' || this.state.allow180)
+    return (
+      <ul>
+        <li>
+          <h3>Control</h3>
+          <h3>Key</h3>
+        </li>
+        {actions.map((action) => (
+          <React.Fragment key={action}>
+            {/* Game controls come first, then the ones about the game itself */}
+            {action === 'pause' && <br />}
+            <li>
+              <div>
+                <span>{ACTION_LABELS[action]}</span>
+              </div>
+              {this.renderKeys(this.state.bindings[action])}
+            </li>
+          </React.Fragment>
+        ))}
+      </ul>
+    )
+  }
+}
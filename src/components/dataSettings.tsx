@@ -0,0 +1,64 @@
+import * as React from 'react'
+import { emit, on } from '../js/bridge'
+
+// Interface for the DataSettings state
+interface DataSettingsState {
+  // How the last export or import went
+  result: { ok: boolean, message: string } | null
+}
+
+// Data settings component: exports all of the saved data to a JSON file and
+// imports it back, e.g. on another computer
+export class DataSettings extends React.Component<{}, DataSettingsState> {
+  private unsubscribers: Array<() => void> = []
+
+  constructor(props: {}) {
+    super(props)
+    this.state = { result: null }
+    this.exportData = this.exportData.bind(this)
+    this.importData = this.importData.bind(this)
+  }
+
+  componentDidMount() {
+    this.unsubscribers = [
+      on('dataTransfer', (result) => this.setState({ result }))
+    ]
+  }
+
+  componentWillUnmount() {
+    this.unsubscribers.forEach((unsubscribe) => unsubscribe())
+  }
+
+  exportData() {
+    this.setState({ result: null })
+    emit('exportData', null)
+  }
+
+  // The button of each import mode carries it. Replacing throws away
+  // everything saved here, so it has to be confirmed.
+  importData(event: React.MouseEvent<HTMLButtonElement>) {
+    const mode = event.currentTarget.value as ImportMode
+    if (mode === 'replace' && !window.confirm('Replace your high scores, ' +
+      'replays and settings with the ones of the file?')) {
+      return
+    }
+    this.setState({ result: null })
+    emit('importData', mode)
+  }
+
+  render() {
+    const result = this.state.result
+    return (
+      <React.Fragment>
+        <div className="buttons data">
+          <button onClick={this.exportData}>Export…</button>
+          <button value="merge" onClick={this.importData}>Import and Merge…</button>
+          <button value="replace" onClick={this.importData}>Import and Replace…</button>
+        </div>
+        <p className={'note' + (result && !result.ok ? ' message' : '')}>
+          {result ? result.message : 'High scores, replays and settings are exported to a JSON file.'}
+        </p>
+      </React.Fragment>
+    )
+  }
+}
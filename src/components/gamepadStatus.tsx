@@ -0,0 +1,37 @@
+import * as React from 'react'
+import { on } from '../js/bridge'
+
+// Interface for the GamepadStatus state
+interface GamepadStatusState {
+  pads: ConnectedPad[]
+}
+
+// Gamepad status component: shows which controllers are connected
+export class GamepadStatus extends React.Component<{}, GamepadStatusState> {
+  private unsubscribers: Array<() => void> = []
+
+  constructor(props: {}) {
+    super(props)
+    this.state = { pads: [] }
+  }
+
+  componentDidMount() {
+    this.unsubscribers = [
+      on('gamepads', (pads) => this.setState({ pads }))
+    ]
+  }
+
+  componentWillUnmount() {
+    this.unsubscribers.forEach((unsubscribe) => unsubscribe())
+  }
+
+  render() {
+    if (this.state.pads.length === 0) return null
+    return (
+      <span id="gamepad-status" title={this.state.pads.map((pad) => pad.id).join('\n')}>
+        Controller: {this.state.pads[0].id}
+        {this.state.pads.length > 1 && ' (+' + (this.state.pads.length - 1) + ')'}
+      </span>
+    )
+  }
+}
@@ -0,0 +1,84 @@
+import * as React from 'react'
+import { emit, on } from '../js/bridge'
+
+// Fields of the handling settings, with their labels and units
+const FIELDS: Array<{ name: keyof HandlingOpts, label: string, unit: string }> = [
+  { name: 'das', label: 'Delayed Auto Shift', unit: 'ms' },
+  { name: 'arr', label: 'Auto Repeat Rate', unit: 'ms' },
+  { name: 'softDropFactor', label: 'Soft Drop Factor', unit: 'x' }
+]
+
+// Interface for the HandlingSettings state, which holds what's typed in each
+// field until it's left
+interface HandlingSettingsState {
+  das: string
+  arr: string
+  softDropFactor: string
+}
+
+// Handling settings component: lets the user tune how held movement keys
+// repeat
+export class HandlingSettings extends React.Component<{}, HandlingSettingsState> {
+  private unsubscribers: Array<() => void> = []
+
+  constructor(props: {}) {
+    super(props)
+    this.state = { das: '', arr: '', softDropFactor: '' }
+    this.change = this.change.bind(this)
+    this.save = this.save.bind(this)
+  }
+
+  componentDidMount() {
+    this.unsubscribers = [
+      on('handling', (handling) => this.setState({
+        das: String(handling.das),
+        arr: String(handling.arr),
+        softDropFactor: String(handling.softDropFactor)
+      }))
+    ]
+    emit('requestHandling', null)
+  }
+
+  componentWillUnmount() {
+    this.unsubscribers.forEach((unsubscribe) => unsubscribe())
+  }
+
+  // The name of each field is the handling option it sets
+  change(event: React.ChangeEvent<HTMLInputElement>) {
+    const change: any = {}
+    change[event.target.name] = event.target.value
+    this.setState(change)
+  }
+
+  // The game clamps the values and sends them back
+  save() {
+    emit('setHandling', {
+      das: Number(this.state.das),
+      arr: Number(this.state.arr),
+      softDropFactor: Number(this.state.softDropFactor)
+    })
+  }
+
+  render() {
+    return (
+      <React.Fragment>
+        <ul>
+          {FIELDS.map((field) => (
+            <li key={field.name}>
+              <span>{field.label}</span>
+              <input
+                type="number"
+                name={field.name}
+                min={field.name === 'softDropFactor' ? 1 : 0}
+                value={this.state[field.name]}
+                onChange={this.change}
+                onBlur={this.save}
+              /> {field.unit}
+            </li>
+          ))}
+        </ul>
+        <p className="note">Changes apply from the next game.</p>
+      </React.Fragment>
+    )
+  }
+}
@@ -0,0 +1,215 @@
+import * as React from 'react'
+import { emit, on } from '../js/bridge'
+import { formatPlayTime, GAME_MODES, MODES } from '../js/modes'
+
+// Columns of the high score table which it can be sorted by
+type SortKey = 'name' | 'score' | 'lines' | 'level' | 'duration' | 'date'
+
+// Columns of the high score table, with their headers
+const COLUMNS: Array<{ key: SortKey, label: string }> = [
+  { key: 'name', label: 'Name' },
+  { key: 'score', label: 'Score' },
+  { key: 'lines', label: 'Lines' },
+  { key: 'level', label: 'Lv.' },
+  { key: 'duration', label: 'Time' },
+  { key: 'date', label: 'Date' }
+]
+
+// Sort the table of a game mode the way it's ranked: fastest time first, or
+// highest score first
+function rankedSort(mode: GameMode) {
+  return GAME_MODES[mode].rankBy === 'time'
+    ? { sortBy: 'duration' as SortKey, descending: false }
+    : { sortBy: 'score' as SortKey, descending: true }
+}
+
+// Format the cell of an entry in the given column. Entries from older
+// versions have no name, duration or date.
+function formatCell(entry: HighScore, key: SortKey) {
+  switch (key) {
+    case 'name': return entry.name || '—'
+    case 'score': return Math.floor(entry.score).toLocaleString('en-US')
+    case 'duration': return entry.duration > 0 ? formatPlayTime(entry.duration) : '—'
+    case 'date': return entry.date > 0 ? new Date(entry.date).toLocaleDateString() : '—'
+    default: return String(entry[key])
+  }
+}
+
+// Interface for the HighScores state
+interface HighScoresState {
+  mode: GameMode
+  tables: HighScoreTables
+  sortBy: SortKey
+  descending: boolean
+  // Entry of the game that just ended, while its name is being entered
+  entry: HighScore | null
+  name: string
+}
+
+// High scores component: lists the high scores of each game mode, sortable
+// by any column, and asks for a name when a game makes it in
+export class HighScores extends React.Component<{}, HighScoresState> {
+  private unsubscribers: Array<() => void> = []
+
+  constructor(props: {}) {
+    super(props)
+    this.state = Object.assign({
+      mode: 'marathon' as GameMode,
+      tables: {},
+      entry: null,
+      name: ''
+    }, rankedSort('marathon'))
+    this.changeMode = this.changeMode.bind(this)
+    this.sort = this.sort.bind(this)
+    this.changeName = this.changeName.bind(this)
+    this.saveName = this.saveName.bind(this)
+    this.skipName = this.skipName.bind(this)
+  }
+
+  componentDidMount() {
+    this.unsubscribers = [
+      on('highScores', (highScores) => {
+        this.showMode(highScores.mode)
+        this.setState({ tables: highScores.tables })
+      }),
+      on('newHighScore', (entry) => {
+        this.showMode(entry.mode)
+        this.setState({ entry: entry, name: entry.name })
+      })
+    ]
+    emit('requestHighScores', null)
+  }
+
+  componentWillUnmount() {
+    this.unsubscribers.forEach((unsubscribe) => unsubscribe())
+  }
+
+  changeMode(event: React.ChangeEvent<HTMLSelectElement>) {
+    this.showMode(event.target.value as GameMode)
+  }
+
+  // Show the table of another game mode, sorted the way that mode is ranked
+  showMode(mode: GameMode) {
+    if (mode === this.state.mode) return
+    this.setState(Object.assign({ mode: mode }, rankedSort(mode)))
+  }
+
+  // The header of each column carries what it sorts by. Sorting by the same
+  // column again flips the order; names sort A to Z first, times fastest
+  // first and the rest best first.
+  sort(event: React.MouseEvent<HTMLButtonElement>) {
+    const sortBy = event.currentTarget.value as SortKey
+    this.setState({
+      sortBy: sortBy,
+      descending: sortBy === this.state.sortBy
+        ? !this.state.descending : sortBy !== 'name' && sortBy !== 'duration'
+    })
+  }
+
+  changeName(event: React.ChangeEvent<HTMLInputElement>) {
+    this.setState({ name: event.target.value })
+  }
+
+  saveName(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault()
+    const entry = this.state.entry
+    if (entry) {
+      emit('nameHighScore', {
+        mode: entry.mode,
+        date: entry.date,
+        name: this.state.name
+      })
+    }
+    this.setState({ entry: null })
+  }
+
+  skipName() {
+    this.setState({ entry: null })
+  }
+
+  getSorted() {
+    const table = (this.state.tables[this.state.mode] || []).slice()
+    const sortBy = this.state.sortBy
+    const direction = this.state.descending ? -1 : 1
+    return table.sort((a, b) => {
+      if (sortBy === 'name') {
+        return direction * a.name.localeCompare(b.name)
+      }
+      return direction * (a[sortBy] - b[sortBy])
+    })
+  }
+
+  renderEntry(entry: HighScore) {
+    const table = this.state.tables[entry.mode] || []
+    const rank = table.map((hs) => hs.date).indexOf(entry.date) + 1
+    return (
+      <section className="panel dialog" id="high-score-entry" aria-labelledby="high-score-entry-title">
+        <h2 id="high-score-entry-title">New High Score!</h2>
+        <p>
+          {GAME_MODES[entry.mode].rankBy === 'time'
+            ? formatCell(entry, 'duration') : formatCell(entry, 'score') + ' points'}
+          {rank > 0 && ', #' + rank + ' in ' + GAME_MODES[entry.mode].label}
+        </p>
+        <form onSubmit={this.saveName}>
+          <label>
+            Name <input
+              type="text"
+              maxLength={16}
+              value={this.state.name}
+              onChange={this.changeName}
+              autoFocus={true}
+            />
+          </label>
+          <button type="submit">Save</button>
+          <button type="button" onClick={this.skipName}>Skip</button>
+        </form>
+      </section>
+    )
+  }
+
+  render() {
+    const entries = this.getSorted()
+    return (
+      <section className="panel" id="high-scores" aria-labelledby="high-scores-title">
+        <h2 id="high-scores-title">High Scores</h2>
+        {MODES.length > 1 && (
+          <select value={this.state.mode} onChange={this.changeMode}>
+            {MODES.map((mode) => <option key={mode} value={mode}>{GAME_MODES[mode].label}</option>)}
+          </select>
+        )}
+        {entries.length === 0 ? <p>No high scores yet.</p> : (
+          <table>
+            <thead>
+              <tr>
+                {COLUMNS.map((column) => (
+                  <th key={column.key}>
+                    <button
+                      value={column.key}
+                      className={column.key === this.state.sortBy ? 'sorted' : ''}
+                      onClick={this.sort}
+                    >
+                      {column.label}
+                      {column.key === this.state.sortBy && (this.state.descending ? ' ▾' : ' ▴')}
+                    </button>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {entries.map((entry, i) => (
+                <tr
+                  key={entry.date + ':' + i}
+                  className={this.state.entry && entry.date === this.state.entry.date ? 'new' : ''}
+                  title={entry.seed > 0 ? 'Seed: ' + entry.seed : undefined}
+                >
+                  {COLUMNS.map((column) => <td key={column.key}>{formatCell(entry, column.key)}</td>)}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+        {this.state.entry && this.renderEntry(this.state.entry)}
+      </section>
+    )
+  }
+}
@@ -0,0 +1,46 @@
+import * as React from 'react'
+import { emit, on } from '../js/bridge'
+import { GAME_MODES, MODES } from '../js/modes'
+
+// Interface for the ModeSelect state
+interface ModeSelectState {
+  mode: GameMode
+}
+
+// Mode select component: picks the game mode to play, which starts a new game
+export class ModeSelect extends React.Component<{}, ModeSelectState> {
+  private unsubscribers: Array<() => void> = []
+
+  constructor(props: {}) {
+    super(props)
+    this.state = { mode: 'marathon' }
+    this.changeMode = this.changeMode.bind(this)
+  }
+
+  componentDidMount() {
+    this.unsubscribers = [
+      on('gameMode', (mode) => this.setState({ mode }))
+    ]
+    emit('requestGameMode', null)
+  }
+
+  componentWillUnmount() {
+    this.unsubscribers.forEach((unsubscribe) => unsubscribe())
+  }
+
+  changeMode(event: React.ChangeEvent<HTMLSelectElement>) {
+    emit('setGameMode', event.target.value as GameMode)
+    // Keep the keys for the game rather than the select
+    event.target.blur()
+  }
+
+  render() {
+    return (
+      <label id="mode-select">
+        Mode <select value={this.state.mode} onChange={this.changeMode}>
+          {MODES.map((mode) => <option key={mode} value={mode}>{GAME_MODES[mode].label}</option>)}
+        </select>
+      </label>
+    )
+  }
+}
@@ -0,0 +1,173 @@
+import * as React from 'react'
+import { emit, on } from '../js/bridge'
+import { DEFAULT_PORT } from '../js/netProtocol'
+import { BEST_OF } from '../js/versus'
+
+// What each status of a match means to the user
+const STATUSES: { [status: string]: string } = {
+  connecting: 'Connecting to the host…',
+  waiting: 'Waiting for an opponent to join.',
+  ready: 'Waiting for the host to start the round.',
+  playing: 'Playing.',
+  closed: 'Disconnected.'
+}
+
+// Interface for the NetPlay state
+interface NetPlayState {
+  open: boolean
+  // Port to host the next match on, as typed
+  port: string
+  // Number of rounds the next match hosted is the best of
+  bestOf: number
+  // Address of the match to join, as typed
+  address: string
+  net: NetState | null
+}
+
+// Network play component: hosts a versus match others join over the network,
+// or joins one, and shows how the match is going
+export class NetPlay extends React.Component<{}, NetPlayState> {
+  private unsubscribers: Array<() => void> = []
+
+  constructor(props: {}) {
+    super(props)
+    this.state = {
+      open: false,
+      port: String(DEFAULT_PORT),
+      bestOf: 3,
+      address: '',
+      net: null
+    }
+    this.toggle = this.toggle.bind(this)
+    this.changePort = this.changePort.bind(this)
+    this.changeBestOf = this.changeBestOf.bind(this)
+    this.changeAddress = this.changeAddress.bind(this)
+    this.host = this.host.bind(this)
+    this.join = this.join.bind(this)
+    this.leave = this.leave.bind(this)
+  }
+
+  componentDidMount() {
+    this.unsubscribers = [
+      on('netState', (net) => this.setState({ net }))
+    ]
+    emit('requestNetState', null)
+  }
+
+  componentWillUnmount() {
+    this.unsubscribers.forEach((unsubscribe) => unsubscribe())
+  }
+
+  // The keys of the game include Space and Enter, which would click the
+  // buttons again if they kept the focus
+  toggle(event: React.MouseEvent<HTMLButtonElement>) {
+    this.setState({ open: !this.state.open })
+    event.currentTarget.blur()
+  }
+
+  changePort(event: React.ChangeEvent<HTMLInputElement>) {
+    this.setState({ port: event.target.value })
+  }
+
+  changeBestOf(event: React.ChangeEvent<HTMLSelectElement>) {
+    this.setState({ bestOf: Number(event.target.value) })
+  }
+
+  changeAddress(event: React.ChangeEvent<HTMLInputElement>) {
+    this.setState({ address: event.target.value })
+  }
+
+  host(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault()
+    emit('hostNet', { port: Number(this.state.port), bestOf: this.state.bestOf })
+  }
+
+  join(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault()
+    if (this.state.address.trim() === '') return
+    emit('joinNet', this.state.address)
+    this.setState({ open: false })
+  }
+
+  leave(event: React.MouseEvent<HTMLButtonElement>) {
+    emit('leaveNet', null)
+    event.currentTarget.blur()
+  }
+
+  renderSetup() {
+    return (
+      <React.Fragment>
+        <form onSubmit={this.host}>
+          <h3>Host a Match</h3>
+          <label>
+            Port{' '}
+            <input type="number" min={1} max={65535} value={this.state.port} onChange={this.changePort} />
+          </label>{' '}
+          <select value={this.state.bestOf} onChange={this.changeBestOf}>
+            {BEST_OF.map((n) => <option key={n} value={n}>Best of {n}</option>)}
+          </select>{' '}
+          <button type="submit">Host</button>
+        </form>
+        <form onSubmit={this.join}>
+          <h3>Join a Match</h3>
+          <input
+            type="text"
+            placeholder={'192.168.1.2:' + DEFAULT_PORT}
+            value={this.state.address}
+            onChange={this.changeAddress}
+          />{' '}
+          <button type="submit">Join</button>
+        </form>
+        <p className="note">
+          Each player plays with their own keys; pausing pauses both boards. The
+          host starts every round by pausing.
+        </p>
+      </React.Fragment>
+    )
+  }
+
+  renderMatch(net: NetState) {
+    const match = net.match
+    // Seat 0 hosts the match
+    const status = net.status === 'ready' && net.seat === 0
+      ? 'Pause to start the round.' : STATUSES[net.status]
+    return (
+      <React.Fragment>
+        <p>{status}</p>
+        {net.addresses.length > 0 && (
+          <React.Fragment>
+            <p>Your opponent can join at:</p>
+            <ul>
+              {net.addresses.map((address) => <li key={address}>{address}</li>)}
+            </ul>
+          </React.Fragment>
+        )}
+        {net.seat !== null && match.round > 0 && (
+          <p>
+            Round {match.round}: {match.wins[net.seat]} – {match.wins[1 - net.seat]} (best of {match.bestOf})
+          </p>
+        )}
+        <p className="message">{net.message}</p>
+      </React.Fragment>
+    )
+  }
+
+  render() {
+    const net = this.state.net
+    return (
+      <React.Fragment>
+        <button id="net-play-button" onClick={this.toggle}>Online</button>
+        {this.state.open && (
+          <section className="panel dialog" id="net-play" aria-labelledby="net-play-title">
+            <h2 id="net-play-title">Online Versus</h2>
+            {net === null ? this.renderSetup() : this.renderMatch(net)}
+            <div className="buttons">
+              {net !== null && <button onClick={this.leave}>Leave Match</button>}
+              <button onClick={this.toggle}>Close</button>
+            </div>
+          </section>
+        )}
+      </React.Fragment>
+    )
+  }
+}
@@ -0,0 +1,145 @@
+import * as React from 'react'
+import { emit, on } from '../js/bridge'
+import { buttonName, DEFAULT_PAD_BINDINGS, findPadAction } from '../js/gamepads'
+import { ACTION_LABELS, ACTIONS } from '../js/keyBindings'
+
+// Interface for the PadSettings state
+interface PadSettingsState {
+  pads: ConnectedPad[]
+  // Id of the controller being remapped
+  selected: string
+  // Action waiting for a button to be pressed, if any
+  listening: GameAction | null
+  message: string
+}
+
+// Controller settings component: lets the user rebind each action of each
+// connected controller by pressing a button on it
+export class PadSettings extends React.Component<{}, PadSettingsState> {
+  private unsubscribers: Array<() => void> = []
+
+  constructor(props: {}) {
+    super(props)
+    this.state = { pads: [], selected: '', listening: null, message: '' }
+    this.select = this.select.bind(this)
+    this.listen = this.listen.bind(this)
+    this.unbind = this.unbind.bind(this)
+    this.resetDefaults = this.resetDefaults.bind(this)
+    this.handleKeyDown = this.handleKeyDown.bind(this)
+  }
+
+  componentDidMount() {
+    this.unsubscribers = [
+      on('gamepads', (pads) => this.setState({ pads })),
+      on('gamepadButton', (pressed) => this.bind(pressed))
+    ]
+    window.addEventListener('keydown', this.handleKeyDown, true)
+    emit('requestGamepads', null)
+  }
+
+  componentWillUnmount() {
+    this.unsubscribers.forEach((unsubscribe) => unsubscribe())
+    window.removeEventListener('keydown', this.handleKeyDown, true)
+    if (this.state.listening !== null) emit('captureGamepad', false)
+  }
+
+  // The controller picked, or the first one if it was unplugged
+  getPad() {
+    const pads = this.state.pads
+    return pads.filter((pad) => pad.id === this.state.selected)[0] || pads[0]
+  }
+
+  select(event: React.ChangeEvent<HTMLSelectElement>) {
+    this.stopListening('')
+    this.setState({ selected: event.target.value })
+  }
+
+  // The button of each action carries its name
+  listen(event: React.MouseEvent<HTMLButtonElement>) {
+    const action = event.currentTarget.value as GameAction
+    emit('captureGamepad', true)
+    this.setState({
+      listening: action,
+      message: 'Press a button for ' + ACTION_LABELS[action] + ' (Esc to cancel)'
+    })
+  }
+
+  // The button of each controller button carries its index
+  unbind(event: React.MouseEvent<HTMLButtonElement>) {
+    const pad = this.getPad()
+    const button = Number(event.currentTarget.value)
+    const action = findPadAction(pad.bindings, button)
+    if (action === null) return
+    const bindings = Object.assign({}, pad.bindings)
+    bindings[action] = bindings[action].filter((b) => b !== button)
+    emit('setPadBindings', { id: pad.id, bindings })
+  }
+
+  resetDefaults() {
+    const pad = this.getPad()
+    emit('setPadBindings', { id: pad.id, bindings: DEFAULT_PAD_BINDINGS })
+    this.stopListening('Controller was reset.')
+  }
+
+  stopListening(message: string) {
+    if (this.state.listening !== null) emit('captureGamepad', false)
+    this.setState({ listening: null, message })
+  }
+
+  handleKeyDown(event: KeyboardEvent) {
+    if (this.state.listening !== null && event.code === 'Escape') {
+      event.preventDefault()
+      event.stopPropagation()
+      this.stopListening('')
+    }
+  }
+
+  bind(pressed: PadButton) {
+    const action = this.state.listening
+    const pad = this.getPad()
+    if (action === null || pressed.id !== pad.id) return
+    const owner = findPadAction(pad.bindings, pressed.button)
+    if (owner !== null) {
+      this.setState({
+        message: buttonName(pressed.button) + ' is already bound to ' +
+          ACTION_LABELS[owner] + '. Press another button'
+      })
+      return
+    }
+    const bindings = Object.assign({}, pad.bindings)
+    bindings[action] = bindings[action].concat(pressed.button)
+    emit('setPadBindings', { id: pad.id, bindings })
+    this.stopListening('')
+  }
+
+  renderAction(pad: ConnectedPad, action: GameAction) {
+    return (
+      <li key={action} className={this.state.listening === action ? 'listening' : ''}>
+        <span>{ACTION_LABELS[action]}</span>
+        {pad.bindings[action].map((button) => (
+          <button key={button} className="key" value={button} onClick={this.unbind} title="Unbind">
+            {buttonName(button)} &times;
+          </button>
+        ))}
+        <button value={action} onClick={this.listen}>+</button>
+      </li>
+    )
+  }
+
+  render() {
+    const pad = this.getPad()
+    if (!pad) {
+      return <p>No controller connected. Plug one in and press any of its buttons.</p>
+    }
+    return (
+      <React.Fragment>
+        <select value={pad.id} onChange={this.select}>
+          {this.state.pads.map((p) => <option key={p.id} value={p.id}>{p.id}</option>)}
+        </select>
+        <ul>{ACTIONS.map((action) => this.renderAction(pad, action))}</ul>
+        <p className="message">{this.state.message}</p>
+        <button onClick={this.resetDefaults}>Reset Controller</button>
+      </React.Fragment>
+    )
+  }
+}
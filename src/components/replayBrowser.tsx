@@ -0,0 +1,131 @@
+import * as React from 'react'
+import { emit, on } from '../js/bridge'
+
+// Speeds offered in the replay controls
+const SPEEDS = [0.5, 1, 1.5, 2, 3, 4]
+
+// Format milliseconds as m:ss
+function formatTime(ms: number) {
+  const s = Math.floor(ms / 1000)
+  const pad = s % 60 < 10 ? '0' : ''
+  return Math.floor(s / 60) + ':' + pad + (s % 60)
+}
+
+// Interface for the ReplayBrowser state
+interface ReplayBrowserState {
+  open: boolean
+  replays: ReplaySummary[]
+  playback: ReplayState | null
+}
+
+// Replay browser component: lists the saved replays and, while one is
+// playing, shows its controls
+export class ReplayBrowser extends React.Component<{}, ReplayBrowserState> {
+  private unsubscribers: Array<() => void> = []
+
+  constructor(props: {}) {
+    super(props)
+    this.state = { open: false, replays: [], playback: null }
+    this.toggle = this.toggle.bind(this)
+    this.play = this.play.bind(this)
+    this.togglePause = this.togglePause.bind(this)
+    this.changeSpeed = this.changeSpeed.bind(this)
+    this.seek = this.seek.bind(this)
+    this.stop = this.stop.bind(this)
+  }
+
+  componentDidMount() {
+    this.unsubscribers = [
+      on('replays', (replays) => this.setState({ replays })),
+      on('replayState', (playback) => this.setState({
+        playback: playback.recordedAt !== null ? playback : null
+      }))
+    ]
+    emit('requestReplays', null)
+  }
+
+  componentWillUnmount() {
+    this.unsubscribers.forEach((unsubscribe) => unsubscribe())
+  }
+
+  toggle() {
+    this.setState({ open: !this.state.open })
+  }
+
+  // The button of each replay carries when it was recorded
+  play(event: React.MouseEvent<HTMLButtonElement>) {
+    emit('playReplay', Number(event.currentTarget.value))
+    this.setState({ open: false })
+  }
+
+  togglePause() {
+    if (this.state.playback) {
+      emit('controlReplay', { paused: !this.state.playback.paused })
+    }
+  }
+
+  changeSpeed(event: React.ChangeEvent<HTMLSelectElement>) {
+    emit('controlReplay', { speed: Number(event.target.value) })
+  }
+
+  seek(event: React.ChangeEvent<HTMLInputElement>) {
+    emit('controlReplay', { seekTo: Number(event.target.value) })
+  }
+
+  stop() {
+    emit('stopReplay', null)
+  }
+
+  renderList() {
+    if (this.state.replays.length === 0) {
+      return <p>No replays yet. Every game you play is saved here.</p>
+    }
+    return (
+      <ol>
+        {this.state.replays.map((replay) => (
+          <li key={replay.recordedAt}>
+            <span>{new Date(replay.recordedAt).toLocaleString()}</span>
+            <span>{replay.score} pts, {replay.lines} lines, Lv. {replay.level}, {formatTime(replay.duration)}</span>
+            <button value={replay.recordedAt} onClick={this.play}>Play</button>
+          </li>
+        ))}
+      </ol>
+    )
+  }
+
+  renderControls(playback: ReplayState) {
+    return (
+      <div id="replay-controls">
+        <button onClick={this.togglePause}>{playback.paused ? 'Play' : 'Pause'}</button>
+        <select value={playback.speed} onChange={this.changeSpeed}>
+          {SPEEDS.map((speed) => <option key={speed} value={speed}>{speed}x</option>)}
+        </select>
+        <input
+          type="range"
+          min={0}
+          max={playback.duration}
+          step={100}
+          value={playback.time}
+          onChange={this.seek}
+        />
+        <span>{formatTime(playback.time)} / {formatTime(playback.duration)}</span>
+        <button onClick={this.stop}>Back to Game</button>
+      </div>
+    )
+  }
+
+  render() {
+    return (
+      <React.Fragment>
+        <button id="replays-button" onClick={this.toggle}>Replays</button>
+        {this.state.open && (
+          <section className="panel dialog" id="replays" aria-labelledby="replays-title">
+            <h2 id="replays-title">Replays</h2>
+            {this.renderList()}
+          </section>
+        )}
+        {this.state.playback && this.renderControls(this.state.playback)}
+      </React.Fragment>
+    )
+  }
+}
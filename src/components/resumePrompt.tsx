@@ -0,0 +1,66 @@
+import * as React from 'react'
+import { emit, on } from '../js/bridge'
+
+// Format milliseconds as m:ss
+function formatTime(ms: number) {
+  const s = Math.floor(ms / 1000)
+  const pad = s % 60 < 10 ? '0' : ''
+  return Math.floor(s / 60) + ':' + pad + (s % 60)
+}
+
+// Interface for the ResumePrompt state
+interface ResumePromptState {
+  suspended: ReplaySummary | null
+}
+
+// Resume prompt component: offers to resume the game that was being played
+// when the app was last closed
+export class ResumePrompt extends React.Component<{}, ResumePromptState> {
+  private unsubscribers: Array<() => void> = []
+
+  constructor(props: {}) {
+    super(props)
+    this.state = { suspended: null }
+    this.resume = this.resume.bind(this)
+    this.discard = this.discard.bind(this)
+  }
+
+  componentDidMount() {
+    this.unsubscribers = [
+      on('suspendedGame', (suspended) => this.setState({ suspended }))
+    ]
+    emit('requestSuspendedGame', null)
+  }
+
+  componentWillUnmount() {
+    this.unsubscribers.forEach((unsubscribe) => unsubscribe())
+  }
+
+  resume() {
+    emit('resumeGame', null)
+  }
+
+  discard() {
+    emit('discardGame', null)
+  }
+
+  render() {
+    const suspended = this.state.suspended
+    if (suspended === null) return null
+    return (
+      <section className="panel dialog" id="resume-prompt" aria-labelledby="resume-prompt-title">
+        <h2 id="resume-prompt-title">Resume Game?</h2>
+        <p>Your last game was left unfinished on {new Date(suspended.recordedAt).toLocaleString()}:</p>
+        <p>
+          {Math.floor(suspended.score).toLocaleString('en-US')} pts, {suspended.lines} lines,
+          Lv. {suspended.level}, {formatTime(suspended.duration)}
+        </p>
+        <p>It resumes paused. If you discard it, its replay is kept.</p>
+        <div className="buttons">
+          <button onClick={this.discard}>Discard</button>
+          <button onClick={this.resume}>Resume</button>
+        </div>
+      </section>
+    )
+  }
+}
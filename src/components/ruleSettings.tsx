@@ -0,0 +1,237 @@
+import * as React from 'react'
+import { emit, on } from '../js/bridge'
+import { Engine } from '../js/engine'
+import { CLEAR_GRAVITIES, CLEAR_GRAVITY_LABELS, GRAVITY_CURVE_LABELS,
+  GRAVITY_CURVES } from '../js/gravity'
+import { RANDOMIZER_LABELS, RANDOMIZERS } from '../js/randomizers'
+import { SCORING_LABELS, SCORINGS } from '../js/scoring'
+
+// Numbers of upcoming Tets the next queue can show
+const PREVIEW_COUNTS = [1, 2, 3, 4, 5, 6]
+
+// Board presets, in the order they're offered to the user
+const BOARDS: BoardPresetName[] = ['electris', 'standard']
+
+// Names of the board presets
+const BOARD_LABELS: { [B in BoardPresetName]: string } = {
+  electris: 'Electris',
+  standard: 'Standard'
+}
+
+// Names of the lock resets
+const LOCK_RESET_LABELS: { [R in LockReset]: string } = {
+  step: 'Step reset',
+  move: 'Move reset (' + Engine.MAX_LOCK_RESETS + ' moves)',
+  infinite: 'Infinite reset'
+}
+
+// Rules whose values are numbers rather than names
+const NUMBER_RULES: Array<keyof RuleOpts> = ['previewCount']
+
+// Interface for the RuleSettings state, which holds what's typed in the text
+// fields until they're left
+interface RuleSettingsState {
+  clearGravity: ClearGravity
+  rules: RuleOpts
+  startLevel: string
+  lockDelay: string
+  // Drop intervals of the custom gravity curve, separated by commas
+  customGravity: string
+}
+
+// Rule settings component: lets the user pick how the blocks above eliminated
+// rows fall, and the other rules of their games
+export class RuleSettings extends React.Component<{}, RuleSettingsState> {
+  private unsubscribers: Array<() => void> = []
+
+  constructor(props: {}) {
+    super(props)
+    this.state = {
+      clearGravity: 'sticky',
+      rules: {
+        previewCount: 3,
+        allow180: false,
+        startLevel: 1,
+        gravityCurve: 'guideline',
+        customGravity: [],
+        randomizer: 'random',
+        scoring: 'classic',
+        lockDelay: 500,
+        lockReset: 'move',
+        board: 'electris'
+      },
+      startLevel: '1',
+      lockDelay: '500',
+      customGravity: ''
+    }
+    this.changeClearGravity = this.changeClearGravity.bind(this)
+    this.changeRule = this.changeRule.bind(this)
+    this.changeTyped = this.changeTyped.bind(this)
+    this.saveTyped = this.saveTyped.bind(this)
+  }
+
+  componentDidMount() {
+    this.unsubscribers = [
+      on('clearGravity', (clearGravity) => this.setState({ clearGravity })),
+      on('rules', (rules) => this.setState({
+        rules,
+        startLevel: String(rules.startLevel),
+        lockDelay: String(rules.lockDelay),
+        customGravity: rules.customGravity.join(', ')
+      }))
+    ]
+    emit('requestClearGravity', null)
+    emit('requestRules', null)
+  }
+
+  componentWillUnmount() {
+    this.unsubscribers.forEach((unsubscribe) => unsubscribe())
+  }
+
+  changeClearGravity(event: React.ChangeEvent<HTMLSelectElement>) {
+    emit('setClearGravity', event.target.value as ClearGravity)
+  }
+
+  // The name of each field is the rule it sets; the game clamps the value
+  // and sends the rules back
+  changeRule(event: React.ChangeEvent<HTMLSelectElement | HTMLInputElement>) {
+    const target = event.target
+    const name = target.name as keyof RuleOpts
+    const rules: any = {}
+    if (target instanceof HTMLInputElement && target.type === 'checkbox') {
+      rules[name] = target.checked
+    } else {
+      rules[name] = NUMBER_RULES.indexOf(name) !== -1
+        ? Number(target.value) : target.value
+    }
+    emit('setRules', rules)
+  }
+
+  // The name of each text field is what it holds in the state
+  changeTyped(event: React.ChangeEvent<HTMLInputElement>) {
+    const change: any = {}
+    change[event.target.name] = event.target.value
+    this.setState(change)
+  }
+
+  // Leaving a text field only starts a new game if the rules changed
+  saveTyped() {
+    const rules = this.state.rules
+    const startLevel = Number(this.state.startLevel)
+    const lockDelay = Number(this.state.lockDelay)
+    const customGravity = this.state.customGravity.split(/[\s,]+/)
+      .filter((interval) => interval !== '').map(Number)
+    if (startLevel === rules.startLevel && lockDelay === rules.lockDelay &&
+      customGravity.join() === rules.customGravity.join()) {
+      return
+    }
+    emit('setRules', { startLevel, lockDelay, customGravity })
+  }
+
+  render() {
+    const rules = this.state.rules
+    return (
+      <React.Fragment>
+        <ul>
+          <li>
+            <span>Gravity After Clears</span>
+            <select value={this.state.clearGravity} onChange={this.changeClearGravity}>
+              {CLEAR_GRAVITIES.map((gravity) => (
+                <option key={gravity} value={gravity}>{CLEAR_GRAVITY_LABELS[gravity].label}</option>
+              ))}
+            </select>
+          </li>
+          <li>
+            <span>Board</span>
+            <select name="board" value={rules.board} onChange={this.changeRule}>
+              {BOARDS.map((board) => {
+                const preset = Engine.BOARD_PRESETS[board]
+                return <option key={board} value={board}>{BOARD_LABELS[board]} ({preset.cols}×{preset.rows})</option>
+              })}
+            </select>
+          </li>
+          <li>
+            <span>Next Queue</span>
+            <select name="previewCount" value={rules.previewCount} onChange={this.changeRule}>
+              {PREVIEW_COUNTS.map((n) => <option key={n} value={n}>{n} Tet{n > 1 ? 's' : ''}</option>)}
+            </select>
+          </li>
+          <li>
+            <span>180° Rotation</span>
+            <input type="checkbox" name="allow180" checked={rules.allow180} onChange={this.changeRule} />
+          </li>
+          <li>
+            <span>Start Level</span>
+            <input
+              type="number"
+              name="startLevel"
+              min={0}
+              max={29}
+              value={this.state.startLevel}
+              onChange={this.changeTyped}
+              onBlur={this.saveTyped}
+            />
+          </li>
+          <li>
+            <span>Gravity Curve</span>
+            <select name="gravityCurve" value={rules.gravityCurve} onChange={this.changeRule}>
+              {GRAVITY_CURVES.map((curve) => <option key={curve} value={curve}>{GRAVITY_CURVE_LABELS[curve]}</option>)}
+            </select>
+          </li>
+          {rules.gravityCurve === 'custom' && (
+            <li>
+              <span>Drop Intervals</span>
+              <input
+                type="text"
+                name="customGravity"
+                placeholder="1000, 800, 600"
+                value={this.state.customGravity}
+                onChange={this.changeTyped}
+                onBlur={this.saveTyped}
+              /> ms
+            </li>
+          )}
+          <li>
+            <span>Randomizer</span>
+            <select name="randomizer" value={rules.randomizer} onChange={this.changeRule}>
+              {RANDOMIZERS.map((randomizer) => <option key={randomizer} value={randomizer}>{RANDOMIZER_LABELS[randomizer]}</option>)}
+            </select>
+          </li>
+          <li>
+            <span>Scoring</span>
+            <select name="scoring" value={rules.scoring} onChange={this.changeRule}>
+              {SCORINGS.map((scoring) => <option key={scoring} value={scoring}>{SCORING_LABELS[scoring]}</option>)}
+            </select>
+          </li>
+          <li>
+            <span>Lock Delay</span>
+            <input
+              type="number"
+              name="lockDelay"
+              min={0}
+              max={5000}
+              value={this.state.lockDelay}
+              onChange={this.changeTyped}
+              onBlur={this.saveTyped}
+            /> ms
+          </li>
+          <li>
+            <span>Lock Reset</span>
+            <select name="lockReset" value={rules.lockReset} onChange={this.changeRule}>
+              {Engine.LOCK_RESETS.map((reset) => <option key={reset} value={reset}>{LOCK_RESET_LABELS[reset]}</option>)}
+            </select>
+          </li>
+        </ul>
+        <p className="note">
+          {CLEAR_GRAVITY_LABELS[this.state.clearGravity].description} Changing a rule starts a new game.
+        </p>
+        {rules.gravityCurve === 'custom' && (
+          <p className="note">
+            The custom curve drops Tets 1 row every interval, 1 interval per level from level 1 on; the last one
+            goes on past the end of the list.
+          </p>
+        )}
+      </React.Fragment>
+    )
+  }
+}
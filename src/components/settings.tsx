@@ -0,0 +1,203 @@
+import * as React from 'react'
+import { emit, on } from '../js/bridge'
+import { DataSettings } from './dataSettings'
+import { HandlingSettings } from './handlingSettings'
+import { PadSettings } from './padSettings'
+import { RuleSettings } from './ruleSettings'
+import { ACTION_LABELS, ACTIONS, DEFAULT_BINDINGS, DEFAULT_VERSUS_BINDINGS, findAction,
+  keyName } from '../js/keyBindings'
+
+// Interface for the Settings state
+interface SettingsState {
+  open: boolean
+  bindings: KeyBindings
+  versusBindings: KeyBindings[]
+  // Versus player whose keys are edited, or -1 for the single player's
+  editing: number
+  // Action waiting for a key to be pressed, if any
+  listening: GameAction | null
+  message: string
+}
+
+// Settings component: lets the user rebind each action by pressing a key, for
+// a game of their own or for either player of a versus match
+export class Settings extends React.Component<{}, SettingsState> {
+  private unsubscribers: Array<() => void> = []
+
+  constructor(props: {}) {
+    super(props)
+    this.state = {
+      open: false,
+      bindings: DEFAULT_BINDINGS,
+      versusBindings: DEFAULT_VERSUS_BINDINGS,
+      editing: -1,
+      listening: null,
+      message: ''
+    }
+    this.toggle = this.toggle.bind(this)
+    this.changeEditing = this.changeEditing.bind(this)
+    this.listen = this.listen.bind(this)
+    this.unbind = this.unbind.bind(this)
+    this.resetDefaults = this.resetDefaults.bind(this)
+    this.handleKeyDown = this.handleKeyDown.bind(this)
+  }
+
+  componentDidMount() {
+    this.unsubscribers = [
+      on('keyBindings', (bindings) => this.setState({ bindings })),
+      on('versusBindings', (versusBindings) => this.setState({ versusBindings }))
+    ]
+    // Listen before the game does so that binding a key doesn't also press it
+    window.addEventListener('keydown', this.handleKeyDown, true)
+    emit('requestKeyBindings', null)
+    emit('requestVersusBindings', null)
+  }
+
+  componentWillUnmount() {
+    this.unsubscribers.forEach((unsubscribe) => unsubscribe())
+    window.removeEventListener('keydown', this.handleKeyDown, true)
+  }
+
+  toggle() {
+    this.setState({ open: !this.state.open, listening: null, message: '' })
+  }
+
+  changeEditing(event: React.ChangeEvent<HTMLSelectElement>) {
+    this.setState({ editing: Number(event.target.value), listening: null, message: '' })
+  }
+
+  // The keys being edited
+  getBindings() {
+    const editing = this.state.editing
+    return editing === -1 ? this.state.bindings : this.state.versusBindings[editing]
+  }
+
+  // Versus players can't share a key either, so both of their keys are looked
+  // through
+  findOwner(code: string) {
+    const editing = this.state.editing
+    if (editing === -1) {
+      const action = findAction(this.state.bindings, code)
+      return action !== null ? ACTION_LABELS[action] : null
+    }
+    const versusBindings = this.state.versusBindings
+    for (let player = 0; player < versusBindings.length; player++) {
+      const action = findAction(versusBindings[player], code)
+      if (action === null) continue
+      return (player !== editing ? 'Player ' + (player + 1) + '\'s ' : '') + ACTION_LABELS[action]
+    }
+    return null
+  }
+
+  saveBindings(bindings: KeyBindings) {
+    const editing = this.state.editing
+    if (editing === -1) {
+      emit('setKeyBindings', bindings)
+      return
+    }
+    const versusBindings = this.state.versusBindings.slice()
+    versusBindings[editing] = bindings
+    emit('setVersusBindings', versusBindings)
+  }
+
+  // The button of each action carries its name
+  listen(event: React.MouseEvent<HTMLButtonElement>) {
+    const action = event.currentTarget.value as GameAction
+    this.setState({
+      listening: action,
+      message: 'Press a key for ' + ACTION_LABELS[action] + ' (Esc to cancel)'
+    })
+  }
+
+  // The button of each key carries its code
+  unbind(event: React.MouseEvent<HTMLButtonElement>) {
+    const code = event.currentTarget.value
+    const action = findAction(this.getBindings(), code)
+    if (action === null) return
+    const bindings = Object.assign({}, this.getBindings())
+    bindings[action] = bindings[action].filter((c) => c !== code)
+    this.saveBindings(bindings)
+  }
+
+  // Both versus players are reset together, since their keys can't overlap
+  resetDefaults() {
+    if (this.state.editing === -1) {
+      emit('setKeyBindings', DEFAULT_BINDINGS)
+      this.setState({ listening: null, message: 'Controls were reset.' })
+    } else {
+      emit('setVersusBindings', DEFAULT_VERSUS_BINDINGS)
+      this.setState({ listening: null, message: 'Versus controls were reset.' })
+    }
+  }
+
+  handleKeyDown(event: KeyboardEvent) {
+    const action = this.state.listening
+    if (action === null) return
+    event.preventDefault()
+    event.stopPropagation()
+
+    if (event.code === 'Escape') {
+      this.setState({ listening: null, message: '' })
+      return
+    }
+    const owner = this.findOwner(event.code)
+    if (owner !== null) {
+      this.setState({
+        message: keyName(event.code) + ' is already bound to ' +
+          owner + '. Press another key (Esc to cancel)'
+      })
+      return
+    }
+    const bindings = Object.assign({}, this.getBindings())
+    bindings[action] = bindings[action].concat(event.code)
+    this.saveBindings(bindings)
+    this.setState({ listening: null, message: '' })
+  }
+
+  renderAction(action: GameAction) {
+    return (
+      <li key={action} className={this.state.listening === action ? 'listening' : ''}>
+        <span>{ACTION_LABELS[action]}</span>
+        {this.getBindings()[action].map((code) => (
+          <button key={code} className="key" value={code} onClick={this.unbind} title="Unbind">
+            {keyName(code)} &times;
+          </button>
+        ))}
+        <button value={action} onClick={this.listen}>+</button>
+      </li>
+    )
+  }
+
+  render() {
+    return (
+      <React.Fragment>
+        <button id="settings-button" onClick={this.toggle}>Settings</button>
+        {this.state.open && (
+          <section className="panel dialog" id="settings" aria-labelledby="settings-title">
+            <h2 id="settings-title">Settings</h2>
+            <h3>Keyboard</h3>
+            <select value={this.state.editing} onChange={this.changeEditing}>
+              <option value={-1}>Single Player</option>
+              <option value={0}>Versus: Player 1</option>
+              <option value={1}>Versus: Player 2</option>
+            </select>
+            <ul>{ACTIONS.map((action) => this.renderAction(action))}</ul>
+            <p className="message">{this.state.message}</p>
+            <button onClick={this.resetDefaults}>Reset to Defaults</button>
+            <h3>Handling</h3>
+            <HandlingSettings />
+            <h3>Rules</h3>
+            <RuleSettings />
+            <h3>Controller</h3>
+            <PadSettings />
+            <h3>Saved Data</h3>
+            <DataSettings />
+            <div className="buttons">
+              <button onClick={this.toggle}>Close</button>
+            </div>
+          </section>
+        )}
+      </React.Fragment>
+    )
+  }
+}
@@ -0,0 +1,55 @@
+import * as React from 'react'
+import { emit, on } from '../js/bridge'
+
+// Interface for the StoreNotice state
+interface StoreNoticeState {
+  recoveries: StoreRecovery[]
+}
+
+// Store notice component: tells the user when their saved data couldn't be
+// read, and where the unreadable file was kept
+export class StoreNotice extends React.Component<{}, StoreNoticeState> {
+  private unsubscribers: Array<() => void> = []
+
+  constructor(props: {}) {
+    super(props)
+    this.state = { recoveries: [] }
+    this.dismiss = this.dismiss.bind(this)
+  }
+
+  componentDidMount() {
+    this.unsubscribers = [
+      on('storeRecoveries', (recoveries) => this.setState({ recoveries }))
+    ]
+    emit('requestStoreRecoveries', null)
+  }
+
+  componentWillUnmount() {
+    this.unsubscribers.forEach((unsubscribe) => unsubscribe())
+  }
+
+  dismiss() {
+    this.setState({ recoveries: [] })
+  }
+
+  render() {
+    if (this.state.recoveries.length === 0) return null
+    return (
+      <section className="panel dialog" id="store-notice" aria-labelledby="store-notice-title">
+        <h2 id="store-notice-title">Saved Data Reset</h2>
+        <p>Some of your saved data couldn't be read, so it was started over. The unreadable files were kept in case they can be recovered:</p>
+        <ul>
+          {this.state.recoveries.map((recovery) => (
+            <li key={recovery.backupPath}>
+              <span>{recovery.configName === 'replays' ? 'Replays' : 'Settings and high scores'}</span>
+              <code>{recovery.backupPath}</code>
+            </li>
+          ))}
+        </ul>
+        <div className="buttons">
+          <button onClick={this.dismiss}>OK</button>
+        </div>
+      </section>
+    )
+  }
+}
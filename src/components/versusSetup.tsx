@@ -0,0 +1,73 @@
+import * as React from 'react'
+import { emit, on } from '../js/bridge'
+import { BEST_OF } from '../js/versus'
+
+// Interface for the VersusSetup state
+interface VersusSetupState {
+  // Number of rounds the next match is the best of
+  bestOf: number
+  versus: VersusState | null
+}
+
+// Versus setup component: starts a local 2-player match and, while one is
+// played, shows its score and ends it
+export class VersusSetup extends React.Component<{}, VersusSetupState> {
+  private unsubscribers: Array<() => void> = []
+
+  constructor(props: {}) {
+    super(props)
+    this.state = { bestOf: 3, versus: null }
+    this.changeBestOf = this.changeBestOf.bind(this)
+    this.start = this.start.bind(this)
+    this.stop = this.stop.bind(this)
+  }
+
+  componentDidMount() {
+    this.unsubscribers = [
+      on('versusState', (versus) => this.setState({ versus }))
+    ]
+    emit('requestVersusState', null)
+  }
+
+  componentWillUnmount() {
+    this.unsubscribers.forEach((unsubscribe) => unsubscribe())
+  }
+
+  changeBestOf(event: React.ChangeEvent<HTMLSelectElement>) {
+    this.setState({ bestOf: Number(event.target.value) })
+    // Keep the keys for the game rather than the select
+    event.target.blur()
+  }
+
+  // Both players' keys include Space and Enter, which would click the button
+  // again if it kept the focus
+  start(event: React.MouseEvent<HTMLButtonElement>) {
+    emit('startVersus', this.state.bestOf)
+    event.currentTarget.blur()
+  }
+
+  stop(event: React.MouseEvent<HTMLButtonElement>) {
+    emit('stopVersus', null)
+    event.currentTarget.blur()
+  }
+
+  render() {
+    const versus = this.state.versus
+    if (versus === null) {
+      return (
+        <span id="versus-setup">
+          <select value={this.state.bestOf} onChange={this.changeBestOf}>
+            {BEST_OF.map((n) => <option key={n} value={n}>Best of {n}</option>)}
+          </select>
+          <button onClick={this.start}>Versus</button>
+        </span>
+      )
+    }
+    return (
+      <span id="versus-setup">
+        <span>Round {versus.round}: {versus.wins.join(' – ')}</span>
+        <button onClick={this.stop}>End Versus</button>
+      </span>
+    )
+  }
+}
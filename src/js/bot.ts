@@ -0,0 +1,126 @@
+import { Engine } from './engine'
+import { Tet } from './tet'
+
+/**
+ * These are the speeds the AI can be watched playing at, in moves per second.
+ * A move is a turn, a step sideways or a drop.
+ */
+export const BOT_SPEEDS = [2, 5, 10, 20, 50]
+
+/**
+ * This function gathers what a bot gets to see of the game: the board, the
+ * living Tet and the upcoming ones.
+ * @param engine This is the engine the bot plays on.
+ * @returns The bot's view of the game, or null if there's no living Tet.
+ */
+export function getBotView(engine: Engine): BotView | null {
+  const current = engine.currTet
+  if (engine.newTet || current === null) return null
+  const landed = engine.getLanded().map((line) => line.slice())
+  const owners = landed.map((line) => line.map(() => 0))
+  let owner = 0
+  engine.allTets.forEach((tet) => {
+    if (tet === current) return
+    owner++
+    tet.shape.forEach((line, row) => line.forEach((block, col) => {
+      const r = tet.topLeft.row + row
+      if (block !== 0 && r >= 0) owners[r][tet.topLeft.col + col] = owner
+    }))
+  })
+  // The living Tet may have moved already; bots plan from its spawn rotation
+  const piece = (tet: Tet) => {
+    const spawned = new Tet(engine, tet.type)
+    return { type: tet.type, shape: spawned.shape }
+  }
+  return {
+    landed,
+    owners,
+    clearGravity: engine.clearGravity,
+    current: piece(current),
+    next: engine.nextTets.map(piece)
+  }
+}
+
+/**
+ * Carries the moves of a {@link Bot} out on an engine, at the pace of a
+ * player pressing keys: the bot is asked where each new living Tet goes, then
+ * the Tet is turned, moved sideways 1 column at a time and dropped, 1 move at
+ * a time.
+ */
+export class BotPlayer {
+  /** This is the bot deciding the moves. */
+  bot: Bot
+  /** This is how many moves are made per second. */
+  speed: number
+
+  /** This is the living Tet the bot decided a move for. */
+  private tet: Tet | null
+  /** This is the move the bot decided on, or null to drop right away. */
+  private move: BotMove | null
+  /** These are the clockwise quarter turns left to make. */
+  private turns: number
+  /** This is the column the Tet was in before the last step sideways. */
+  private lastCol: number | null
+  /** This is the time left, in milliseconds, before the next move. */
+  private wait: number
+
+  /**
+   * @param bot This is the bot deciding the moves.
+   * @param speed This is how many moves are made per second.
+   */
+  constructor(bot: Bot, speed: number) {
+    // Force instantiation
+    if (!(this instanceof BotPlayer)) {
+      return new BotPlayer(bot, speed)
+    }
+
+    this.bot = bot
+    this.speed = speed
+    this.tet = null
+    this.move = null
+    this.turns = 0
+    this.lastCol = null
+    this.wait = 0
+  }
+
+  /**
+   * This method gives the moves due over some time, as inputs for the engine.
+   * Nothing is due while the game is paused or over, nor while there's no
+   * living Tet.
+   * @param engine This is the engine the bot plays on.
+   * @param dt This is the amount of time that passed, in milliseconds.
+   * @returns The inputs to apply, if any.
+   */
+  getInputs(engine: Engine, dt: number): EngineInput[] {
+    const tet = engine.currTet
+    if (engine.paused || engine.gameOver || engine.newTet || tet === null) {
+      return []
+    }
+    this.wait -= dt
+    if (this.wait > 0) return []
+    // Don't catch up on the moves a long step skipped all at once
+    this.wait = Math.max(this.wait + 1000 / this.speed, 0)
+
+    if (tet !== this.tet) {
+      const view = getBotView(engine)
+      this.tet = tet
+      this.move = view !== null ? this.bot.decide(view) : null
+      this.turns = this.move !== null ? this.move.rotation % 4 : 0
+      this.lastCol = null
+    }
+    const move = this.move
+    if (move === null) return ['hardDrop']
+    if (this.turns > 0) {
+      // 3 turns clockwise are 1 turn the other way
+      const input = this.turns === 3 ? 'rotateCCW' : 'rotateCW'
+      this.turns = this.turns === 3 ? 0 : this.turns - 1
+      return [input]
+    }
+    // Drop once the Tet is in the column, or can't get any closer to it
+    const col = tet.topLeft.col
+    if (col === move.col || col === this.lastCol) return ['hardDrop']
+    this.lastCol = col
+    return col < move.col ? ['moveRight', 'releaseRight']
+      : ['moveLeft', 'releaseLeft']
+  }
+}
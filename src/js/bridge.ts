@@ -0,0 +1,37 @@
+/**
+ * The React UI (renderer.tsx) and the Game (tetris.ts) are bundled separately
+ * but share the same window, so they talk to each other by dispatching custom
+ * events on it. This keeps everything that touches the Store in the Game.
+ *
+ * The Game sends each piece of its state whenever it changes, which may be
+ * before a component gets to listen to it, e.g. when the Game loads first.
+ * So each one comes with a request event (e.g. requestRules for rules), which
+ * components emit once they listen and the Game answers by sending the state
+ * again.
+ */
+
+/** This is prepended to the name of every event to avoid clashes. */
+const PREFIX = 'electris:'
+
+/**
+ * This function sends an event to whoever listens to it on the other side.
+ * @param name This is the name of the event, as listed in BridgeEvents.
+ * @param detail This is what the event carries.
+ */
+export function emit<K extends keyof BridgeEvents>(name: K,
+  detail: BridgeEvents[K]) {
+  window.dispatchEvent(new CustomEvent(PREFIX + name, { detail: detail }))
+}
+
+/**
+ * This function listens to an event sent from the other side.
+ * @param name This is the name of the event, as listed in BridgeEvents.
+ * @param handler This is called with what the event carries.
+ * @returns A function which stops listening to the event.
+ */
+export function on<K extends keyof BridgeEvents>(name: K,
+  handler: (detail: BridgeEvents[K]) => void) {
+  const listener = (e: Event) => handler((e as CustomEvent).detail)
+  window.addEventListener(PREFIX + name, listener)
+  return () => window.removeEventListener(PREFIX + name, listener)
+}
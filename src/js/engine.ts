@@ -0,0 +1,1508 @@
+import { getDropInterval, GRAVITY_CURVES } from './gravity'
+import { GAME_MODES } from './modes'
+import { Prng } from './prng'
+import { createRandomizer, RANDOMIZERS } from './randomizers'
+import { createScoring, SCORINGS } from './scoring'
+import { Tet } from './tet'
+
+/**
+ * This function keeps a number option within a range.
+ * @param value This is the value asked for.
+ * @param fallback This is the value used if none, or not a number, was asked
+ *     for.
+ * @param min This is the lowest value allowed.
+ * @param max This is the highest value allowed.
+ * @returns The value, within the range.
+ */
+function clamp(value: number | undefined, fallback: number, min: number,
+  max: number) {
+  return Math.min(Math.max(
+    typeof value === 'number' && !isNaN(value) ? value : fallback, min), max)
+}
+
+/**
+ * This function saves an engine time as plain JSON, which has no Infinity.
+ * @param time This is the engine time, in milliseconds.
+ * @returns The time, or null if it never comes.
+ */
+function saveTime(time: number) {
+  return time === Infinity ? null : time
+}
+
+/**
+ * This function loads an engine time saved by saveTime().
+ * @param time This is the saved time, or null if it never comes.
+ * @returns The engine time, in milliseconds.
+ */
+function loadTime(time: number | null) {
+  return time === null ? Infinity : time
+}
+
+/**
+ * Represents a Tet (or the Tet that started a cascade) whose fragments are
+ * still falling after a row elimination.
+ */
+interface Cascade {
+  /** The Tet whose collided() method gets called once everything settles. */
+  tet: Tet
+  /** The engine time, in milliseconds, of this cascade's next falling step. */
+  nextAt: number
+}
+
+/**
+ * Represents the rules of our game without any knowledge of the DOM: the
+ * board, the living Tet, row elimination, fragment gravity and scoring.
+ *
+ * Time only moves forward when step() is called, which makes it possible to
+ * run the game in plain Node (bots, tests, replays) as well as underneath the
+ * canvas {@link Game}.
+ */
+export class Engine {
+  // Public Vars
+  /**
+   * These are the board dimensions games can start from. Electris has always
+   * had 10 horizontal blocks by 16 vertical blocks, whereas the Tetris
+   * Guideline has 10 by 20, with Tets coming into play above the field.
+   */
+  static readonly BOARD_PRESETS: { [name: string]: BoardPreset } = {
+    electris: { cols: 10, rows: 16, hiddenRows: 0 },
+    standard: { cols: 10, rows: 20, hiddenRows: 2 }
+  }
+  /**
+   * This is the interval, in milliseconds, at which falling fragments move
+   * down 1 block after a row elimination.
+   */
+  static readonly FALL_INTERVAL: number = 200
+  /** These are the lock resets, from the strictest to the most lenient. */
+  static readonly LOCK_RESETS: LockReset[] = ['step', 'move', 'infinite']
+  /**
+   * This is how many times moving or rotating a Tet can reset its lock delay
+   * with the 'move' lock reset, until it reaches a new row.
+   */
+  static readonly MAX_LOCK_RESETS: number = 15
+  /** These are the inputs which release each of the moves that repeat. */
+  static readonly RELEASE_INPUTS: { [input: string]: EngineInput } = {
+    moveLeft: 'releaseLeft',
+    moveRight: 'releaseRight',
+    moveDown: 'releaseDown'
+  }
+  /** These are the letters of the Tet types, in order. */
+  static readonly TET_LETTERS: TetLetter[] = ['I', 'J', 'L', 'O', 'S', 'T', 'Z']
+  /** Developer Mode (when enabled/true, Tets can be moved while paused) */
+  devModeOn: boolean
+  /** This is the game mode being played; it decides when the game ends. */
+  readonly mode: GameMode
+  /**
+   * This is the board preset the dimensions of the board start from; the
+   * options can override each of them.
+   */
+  readonly board: BoardPresetName
+  /** This is the number of columns of the board. */
+  readonly cols: number
+  /** This is the number of rows of the board the player gets to see. */
+  readonly rows: number
+  /**
+   * This is the number of rows above the visible ones (the vanish zone),
+   * where Tets come into play. Row 0 is the top of the vanish zone.
+   */
+  readonly hiddenRows: number
+  /**
+   * If true, we want to create a new Tet at the next drop interval.
+   *
+   * Defaults as true since we always want to create a new Tet at the beginning
+   * of the game.
+   */
+  newTet: boolean
+  /**
+   * The Tet that's falling and being controlled by the player.
+   *
+   * Defaults as null since we don't start off with any Tets the moment the game
+   * gets intialized.
+   */
+  currTet: Tet | null
+  /**
+   * The queue of Tets that are going to come into play after the currTet
+   * lands, the first one being the very next. It always holds at least
+   * previewCount Tets once the first Tet is created.
+   */
+  nextTets: Tet[]
+  /** This is the number [1..6] of upcoming Tets the player gets to see. */
+  previewCount: number
+  /** If true, the player can rotate the living Tet 180 degrees at once. */
+  allow180: boolean
+  /**
+   * The Tet that was put aside by the player with the hold action.
+   *
+   * Defaults as null since the hold slot starts off empty.
+   */
+  holdTet: Tet | null
+  /**
+   * If false, the player already used hold on the living Tet; it becomes true
+   * again once the next Tet comes into play.
+   */
+  canHold: boolean
+  /**
+   * If true, we should update our landed array to be used in collision
+   * detection.
+   */
+  updateLanded: boolean
+  /** This is the array of all Tets that are in the game. */
+  allTets: Tet[]
+  /**
+   * This is the array of all Tets that need to be removed before being drawn.
+   */
+  tetsToRemove: number[]
+  /** This is the score that we're going to use to display. */
+  score: number
+  /** This is the number of rows eliminated since the game started. */
+  lines: number
+  /**
+   * This is the number of garbage rows still to push up from the bottom of
+   * the board, in game modes with garbage.
+   */
+  garbageLeft: number
+  /**
+   * This is the number of garbage rows sent by an opponent, e.g. in a versus
+   * match, which push up once a Tet locks without eliminating any row.
+   */
+  garbageQueued: number
+  /**
+   * This is the level the game is at. It goes up by 1 every 10 rows
+   * eliminated, which makes Tets fall faster.
+   */
+  level: number
+  /**
+   * The flag that indicates when the game is over. When true, gravity stops
+   * and inputs are ignored.
+   */
+  gameOver: boolean
+  /** This is how the game came to an end, or null while it goes on. */
+  outcome: GameOutcome | null
+  /** If true, gravity is suspended and the living Tet can't be moved. */
+  paused: boolean
+  /**
+   * This is the amount of time, in milliseconds, that has been simulated since
+   * the engine was created or reset.
+   */
+  time: number
+  /**
+   * This is the amount of time, in milliseconds, the game has been played:
+   * like time, but only while it's neither paused nor over. The timers of the
+   * game modes run on it.
+   */
+  playTime: number
+  /**
+   * This is the seed of the current game's piece sequence. Two engines reset
+   * with the same seed and randomizer get the exact same Tets.
+   */
+  seed: number
+  /** This is what decides the type of every Tet that comes into play. */
+  randomizer: Randomizer
+  /** This is what decides how many points line clears and drops are worth. */
+  scoring: ScoringSystem
+  /**
+   * These are the awards given out since the last time they were taken out by
+   * whoever displays them.
+   */
+  awards: Award[]
+  /**
+   * These are the clears which eliminated rows since the last time they were
+   * taken out, e.g. by a versus match turning them into garbage.
+   */
+  clears: ClearEvent[]
+  /**
+   * This is how long, in milliseconds, left or right is held before the Tet
+   * starts moving on its own (Delayed Auto Shift).
+   */
+  das: number
+  /**
+   * This is the time, in milliseconds, between two moves once left or right
+   * was held for das (Auto Repeat Rate). At 0, the Tet moves to the wall at
+   * once.
+   */
+  arr: number
+  /** This is how many times faster than gravity the Tet falls on soft drop. */
+  softDropFactor: number
+  /**
+   * This is the time, in milliseconds, the living Tet takes to lock once it
+   * rests on something.
+   */
+  lockDelay: number
+  /** This is what gives the living Tet more time before it locks. */
+  lockReset: LockReset
+  /** This is how the blocks above eliminated rows fall. */
+  readonly clearGravity: ClearGravity
+  /**
+   * This is the number of row eliminations in a row caused by the last Tet
+   * that locked: 1 for its own, plus 1 for each one its falling fragments
+   * caused after that. Points are multiplied by it from the second one on.
+   */
+  chain: number
+
+  // Private vars
+  /** These are the rules of the game mode, which decide when it ends. */
+  private rules: ModeRules
+  /**
+   * This is the interval, in milliseconds, for which our currTet is going to
+   * drop 1 block.
+   */
+  private dropInterval: number
+  /** This is the engine time at which gravity will next act on the game. */
+  private nextDropAt: number
+  /** This is what decides the column of the hole of each garbage row. */
+  private garbagePrng: Prng
+  /** This is the play time at which the next garbage row pushes up. */
+  private nextGarbageAt: number
+  /** This is the number of Tets locked since the game started. */
+  private tetsLocked: number
+  /** This is the level each new game starts at. */
+  private startLevel: number
+  /** This is the curve that decides the dropInterval of each level. */
+  private gravityCurve: GravityCurveName
+  /** These are the drop intervals of the 'custom' gravity curve. */
+  private customGravity: number[]
+  /** This is the name of the scoring system each new game gets. */
+  private scoringName: ScoringName
+  /** This is the name of the randomizer each new game gets. */
+  private randomizerName: RandomizerName
+  /** These are the row eliminations whose fragments are still falling. */
+  private cascades: Cascade[]
+  /**
+   * These are the horizontal directions (-1 for left, 1 for right) being held,
+   * in the order they were pressed. The last one is the one that moves the
+   * Tet.
+   */
+  private shiftDirs: number[]
+  /** This is the engine time at which DAS is fully charged. */
+  private dasChargedAt: number
+  /** This is the engine time at which the Tet next moves on its own. */
+  private nextShiftAt: number
+  /** This is the engine time of the next soft drop, if down is held. */
+  private nextSoftDropAt: number
+  /**
+   * This is the engine time at which the living Tet locks. It's Infinity
+   * while the Tet isn't resting on anything.
+   */
+  private lockAt: number
+  /**
+   * This is the lock delay the living Tet has left, which it keeps while it's
+   * lifted off the ground by a kick.
+   */
+  private lockLeft: number
+  /** This is how many times the lock delay was reset on the current row. */
+  private lockResets: number
+  /** This is the lowest row the living Tet's top left has reached. */
+  private lowestRow: number
+  /**
+   * This is the array of array of numbers which we are going to populate with
+   * our allTets to be able to detect Tet collision.
+   */
+  private landed: number[][]
+
+  /**
+   * Represents the simulation behind a game. The engine starts paused with
+   * its first Tet already created, just like the canvas game does.
+   * @param [opts] These are the options of the engine; see EngineOpts.
+   */
+  constructor(opts: EngineOpts = {}) {
+    // Force instantiation
+    if (!(this instanceof Engine)) {
+      return new Engine(opts)
+    }
+
+    this.devModeOn = opts.devModeOn || false
+    this.mode = opts.mode || 'marathon'
+    this.rules = GAME_MODES[this.mode] || GAME_MODES.marathon
+    const rules = Engine.normalizeRules(opts)
+    this.board = rules.board
+    const preset = Engine.BOARD_PRESETS[this.board]
+    // Tets are 4 blocks wide and need a row to come into play, at least
+    this.cols = Math.max(Math.floor(opts.cols || preset.cols), 4)
+    this.rows = Math.max(Math.floor(opts.rows || preset.rows), 4)
+    this.hiddenRows = Math.max(Math.floor(opts.hiddenRows !== undefined
+      ? opts.hiddenRows : preset.hiddenRows), 0)
+    this.startLevel = rules.startLevel
+    this.gravityCurve = rules.gravityCurve
+    this.customGravity = rules.customGravity
+    this.randomizerName = rules.randomizer
+    this.scoringName = rules.scoring
+    this.previewCount = rules.previewCount
+    this.allow180 = rules.allow180
+    this.setHandling(opts)
+    this.lockDelay = rules.lockDelay
+    this.lockReset = rules.lockReset
+    this.clearGravity = opts.clearGravity || 'sticky'
+    this.landed = []
+    this.reset(opts.seed)
+  }
+
+  /**
+   * This method makes sure handling options are within reason.
+   * @param opts These are the das, arr and softDropFactor asked for; the
+   *     defaults are used for any left undefined.
+   * @returns The handling options, clamped to their allowed ranges.
+   */
+  static normalizeHandling(opts: EngineOpts): HandlingOpts {
+    return {
+      das: clamp(opts.das, 170, 0, 1000),
+      arr: clamp(opts.arr, 50, 0, 500),
+      softDropFactor: clamp(opts.softDropFactor, 20, 1, 100)
+    }
+  }
+
+  /**
+   * This method makes sure the rules a player can pick are within reason.
+   * @param opts These are the rules asked for; the defaults are used for any
+   *     left undefined.
+   * @returns The rules, clamped to their allowed ranges.
+   */
+  static normalizeRules(opts: EngineOpts): RuleOpts {
+    return {
+      previewCount: Math.floor(clamp(opts.previewCount, 3, 1, 6)),
+      allow180: opts.allow180 === true,
+      startLevel: Math.floor(clamp(opts.startLevel, 1, 0, 29)),
+      gravityCurve: opts.gravityCurve !== undefined &&
+        GRAVITY_CURVES.indexOf(opts.gravityCurve) !== -1
+        ? opts.gravityCurve : 'guideline',
+      customGravity: Array.isArray(opts.customGravity)
+        ? opts.customGravity.map(Number).filter((interval) => interval > 0)
+        : [],
+      randomizer: opts.randomizer !== undefined &&
+        RANDOMIZERS.indexOf(opts.randomizer) !== -1
+        ? opts.randomizer : 'random',
+      scoring: opts.scoring !== undefined &&
+        SCORINGS.indexOf(opts.scoring) !== -1 ? opts.scoring : 'classic',
+      lockDelay: clamp(opts.lockDelay, 500, 0, 5000),
+      lockReset: opts.lockReset !== undefined &&
+        Engine.LOCK_RESETS.indexOf(opts.lockReset) !== -1
+        ? opts.lockReset : 'move',
+      board: opts.board !== undefined &&
+        Engine.BOARD_PRESETS.hasOwnProperty(opts.board)
+        ? opts.board : 'electris'
+    }
+  }
+
+  /**
+   * This method rebuilds an engine saved by getSnapshot(), which goes on with
+   * the game exactly where it was left.
+   * @param snapshot This is the snapshot of the engine.
+   * @param [opts] These are the options the snapshot doesn't decide, e.g. the
+   *     handling and Developer Mode.
+   * @returns The engine.
+   */
+  static fromSnapshot(snapshot: EngineSnapshot, opts: EngineOpts = {}) {
+    const engine = new Engine(Object.assign({}, opts, snapshot.settings,
+      { seed: snapshot.seed }))
+    engine.randomizer.setState(snapshot.randomizer)
+    engine.scoring.setState(snapshot.scoring)
+    engine.allTets = snapshot.tets.map((tet) => Tet.fromSnapshot(engine, tet))
+    engine.currTet = snapshot.currTet !== -1
+      ? engine.allTets[snapshot.currTet] : null
+    engine.nextTets = snapshot.nextTets.map(
+      (tet) => Tet.fromSnapshot(engine, tet))
+    engine.holdTet = snapshot.holdTet !== null
+      ? Tet.fromSnapshot(engine, snapshot.holdTet) : null
+    engine.canHold = snapshot.canHold
+    engine.newTet = snapshot.newTet
+    engine.updateLanded = true
+    engine.score = snapshot.score
+    engine.lines = snapshot.lines
+    engine.chain = snapshot.chain
+    engine.setLevel(snapshot.level)
+    engine.gameOver = snapshot.gameOver
+    engine.outcome = snapshot.outcome
+    engine.paused = snapshot.paused
+    engine.time = snapshot.time
+    engine.playTime = snapshot.playTime
+    engine.garbageLeft = snapshot.garbageLeft
+    engine.garbageQueued = snapshot.garbageQueued
+    engine.garbagePrng.setState(snapshot.garbagePrng)
+    engine.tetsLocked = snapshot.tetsLocked
+    engine.cascades = snapshot.cascades.map((cascade) => ({
+      tet: cascade.eliminated !== null
+        ? Tet.fromSnapshot(engine, cascade.eliminated)
+        : engine.allTets[cascade.tet],
+      nextAt: cascade.nextAt
+    }))
+    engine.shiftDirs = snapshot.shiftDirs.slice()
+    engine.nextDropAt = loadTime(snapshot.nextDropAt)
+    engine.nextGarbageAt = loadTime(snapshot.nextGarbageAt)
+    engine.dasChargedAt = loadTime(snapshot.dasChargedAt)
+    engine.nextShiftAt = loadTime(snapshot.nextShiftAt)
+    engine.nextSoftDropAt = loadTime(snapshot.nextSoftDropAt)
+    engine.lockAt = loadTime(snapshot.lockAt)
+    engine.lockLeft = snapshot.lockLeft
+    engine.lockResets = snapshot.lockResets
+    engine.lowestRow = snapshot.lowestRow
+    return engine
+  }
+
+  /**
+   * This method gives the rules of this engine's games a player can pick.
+   * @returns The rules.
+   */
+  getRules(): RuleOpts {
+    return {
+      previewCount: this.previewCount,
+      allow180: this.allow180,
+      startLevel: this.startLevel,
+      gravityCurve: this.gravityCurve,
+      customGravity: this.customGravity.slice(),
+      randomizer: this.randomizerName,
+      scoring: this.scoringName,
+      lockDelay: this.lockDelay,
+      lockReset: this.lockReset,
+      board: this.board
+    }
+  }
+
+  /**
+   * This method saves everything about the game in progress as plain JSON,
+   * e.g. to resume it the next time the app starts.
+   * @returns The snapshot of the engine.
+   */
+  getSnapshot(): EngineSnapshot {
+    const tets = this.allTets
+    return {
+      settings: Object.assign({
+        mode: this.mode,
+        clearGravity: this.clearGravity,
+        cols: this.cols,
+        rows: this.rows,
+        hiddenRows: this.hiddenRows
+      }, this.getRules()),
+      seed: this.seed,
+      randomizer: this.randomizer.getState(),
+      scoring: this.scoring.getState(),
+      tets: tets.map((tet) => tet.getSnapshot()),
+      currTet: this.currTet !== null ? tets.indexOf(this.currTet) : -1,
+      nextTets: this.nextTets.map((tet) => tet.getSnapshot()),
+      holdTet: this.holdTet !== null ? this.holdTet.getSnapshot() : null,
+      canHold: this.canHold,
+      newTet: this.newTet,
+      score: this.score,
+      lines: this.lines,
+      chain: this.chain,
+      level: this.level,
+      gameOver: this.gameOver,
+      outcome: this.outcome,
+      paused: this.paused,
+      time: this.time,
+      playTime: this.playTime,
+      garbageLeft: this.garbageLeft,
+      garbageQueued: this.garbageQueued,
+      garbagePrng: this.garbagePrng.getState(),
+      tetsLocked: this.tetsLocked,
+      // The Tet that started a cascade may be gone from the board, every one
+      // of its rows having been eliminated
+      cascades: this.cascades.map((cascade) => {
+        const index = tets.indexOf(cascade.tet)
+        return {
+          tet: index,
+          eliminated: index === -1 ? cascade.tet.getSnapshot() : null,
+          nextAt: cascade.nextAt
+        }
+      }),
+      shiftDirs: this.shiftDirs.slice(),
+      nextDropAt: saveTime(this.nextDropAt),
+      nextGarbageAt: saveTime(this.nextGarbageAt),
+      dasChargedAt: saveTime(this.dasChargedAt),
+      nextShiftAt: saveTime(this.nextShiftAt),
+      nextSoftDropAt: saveTime(this.nextSoftDropAt),
+      lockAt: saveTime(this.lockAt),
+      lockLeft: this.lockLeft,
+      lockResets: this.lockResets,
+      lowestRow: this.lowestRow
+    }
+  }
+
+  /**
+   * This method puts the engine back to the state of a brand new game: an
+   * empty board, no score and a freshly created Tet, paused.
+   * @param [seed] This is the seed of the new game's piece sequence. A random
+   *     seed is picked if undefined.
+   */
+  reset(seed = Prng.randomSeed()) {
+    this.seed = seed
+    this.randomizer = createRandomizer(this.randomizerName, seed)
+    this.scoring = createScoring(this.scoringName)
+    this.awards = []
+    this.clears = []
+    this.newTet = true
+    this.currTet = null
+    this.nextTets = []
+    this.holdTet = null
+    this.canHold = true
+    this.updateLanded = true
+    this.allTets = []
+    this.tetsToRemove = []
+    this.score = 0
+    this.lines = 0
+    this.chain = 0
+    this.tetsLocked = 0
+    this.setLevel(this.startLevel)
+    this.gameOver = false
+    this.outcome = null
+    this.paused = true
+    this.time = 0
+    this.playTime = 0
+    this.nextDropAt = 0
+    this.cascades = []
+    this.shiftDirs = []
+    this.dasChargedAt = 0
+    this.nextShiftAt = Infinity
+    this.nextSoftDropAt = Infinity
+    this.lockAt = Infinity
+    // Garbage gets its own generator so the Tets stay the same as in any
+    // other game with this seed
+    this.garbagePrng = new Prng(seed ^ 0x5bd1e995)
+    this.garbageLeft = this.rules.garbageTotal || 0
+    this.garbageQueued = 0
+    this.nextGarbageAt = this.rules.garbageInterval || Infinity
+    const garbageRows = Math.min(this.rules.garbageRows || 0, this.garbageLeft)
+    for (let i = 0; i < garbageRows; i++) this.raiseGarbage()
+    this.createTet()
+  }
+
+  /**
+   * This method changes how held movement keys repeat.
+   * @param opts These are the das, arr and softDropFactor to use; see
+   *     Engine.normalizeHandling.
+   */
+  setHandling(opts: EngineOpts) {
+    const handling = Engine.normalizeHandling(opts)
+    this.das = handling.das
+    this.arr = handling.arr
+    this.softDropFactor = handling.softDropFactor
+  }
+
+  /**
+   * This method advances the simulation by the given amount of time, then
+   * applies the given inputs in order. Splitting the same amount of time into
+   * several steps always gives the same result.
+   * @param inputs These are the actions the player performed at the end of
+   *     this step.
+   * @param dt This is the amount of time to simulate, in milliseconds.
+   */
+  step(inputs: EngineInput[], dt: number) {
+    this.advance(dt)
+    const len = inputs.length
+    for (let i = 0; i < len; i++) {
+      this.handleInput(inputs[i])
+    }
+  }
+
+  /**
+   * This method checks if the living Tet is allowed to be moved by the player.
+   * @returns If the Tet can move, based on the conditions within the function,
+   *     then return true.
+   */
+  canTetMove() {
+    return ((this.newTet === false && this.paused === false) ||
+      this.devModeOn === true) && this.gameOver === false
+  }
+
+  /**
+   * This method suspends gravity. Falling fragments still finish falling.
+   */
+  pause() {
+    if (this.gameOver === false) {
+      // Keep the lock delay the living Tet has left for when we resume
+      if (this.lockAt !== Infinity) {
+        this.lockLeft = this.lockAt - this.time
+        this.lockAt = Infinity
+      }
+      this.paused = true
+    }
+  }
+
+  /**
+   * This method resumes gravity, restarting the drop interval from zero.
+   */
+  resume() {
+    if (this.gameOver === false) {
+      this.restartDropTimer()
+      // Keys held through the pause pick up where they left off
+      this.nextShiftAt = Math.max(this.nextShiftAt, this.time)
+      this.nextSoftDropAt = Math.max(this.nextSoftDropAt, this.time)
+      this.paused = false
+      this.updateLock(false)
+    }
+  }
+
+  /**
+   * This method creates Tets. This also ends the game when we cannot create a
+   * new Tet.
+   */
+  createTet() {
+    // Every randomizer takes care of not starting with an S or Z
+    this.fillQueue()
+
+    // Build first Tet and next Tet
+    if (this.newTet) {
+      this.currTet = this.nextTets.shift() as Tet
+      this.fillQueue()
+    }
+    this.newTet = false
+
+    // TODO: Figure out how to make this check unnecessary since ideally this
+    // would never be null.
+    if (!this.currTet) {
+      this.currTet = this.nextTets[0]
+    }
+
+    this.canHold = true
+    this.spawnTet(this.currTet)
+  }
+
+  /**
+   * This is the number of rows of the board, vanish zone included.
+   * @returns The number of rows of the landed array.
+   */
+  get totalRows() {
+    return this.hiddenRows + this.rows
+  }
+
+  /**
+   * This method gives the position at which Tets come into play: centered,
+   * in the last 2 rows of the vanish zone (or the top of the field if there's
+   * no vanish zone).
+   * @returns The (row, column) of the top left of a Tet's shape.
+   */
+  getSpawnTopLeft() {
+    return {
+      row: Math.max(this.hiddenRows - 2, 0),
+      col: Math.floor(this.cols / 2) - 1
+    }
+  }
+
+  /**
+   * This method locks the living Tet where it is, which is what happens once
+   * its lock delay runs out or it's hard dropped. Row elimination and
+   * fragmentation follow.
+   */
+  lock() {
+    const tet = this.currTet
+    if (this.newTet || !tet) return
+    // Locking a Tet entirely inside the vanish zone ends the game
+    const lockOut = tet.topLeft.row + tet.shape.length <= this.hiddenRows
+    this.lockAt = Infinity
+    this.newTet = true
+    this.currTet = null
+    this.updateLanded = true
+    const lines = this.lines
+    tet.collided()
+    if (lockOut) this.endGame('toppedOut')
+    // Eliminating rows holds back the garbage sent by an opponent
+    if (this.lines === lines) this.raiseQueuedGarbage()
+    this.tetsLocked++
+    const every = this.rules.garbagePieces
+    if (every !== undefined && this.tetsLocked % every === 0) {
+      this.raiseGarbage()
+    }
+  }
+
+  /**
+   * This method pushes up the next garbage row of the game mode, if it has
+   * any left.
+   */
+  raiseGarbage() {
+    if (this.garbageLeft <= 0 || this.gameOver) return
+    this.pushGarbage(this.garbagePrng.nextInt(this.cols))
+    this.garbageLeft--
+  }
+
+  /**
+   * This method adds garbage rows sent by an opponent to the ones waiting to
+   * push up.
+   * @param rows This is the number of garbage rows sent.
+   */
+  receiveGarbage(rows: number) {
+    if (rows > 0 && !this.gameOver) this.garbageQueued += rows
+  }
+
+  /**
+   * This method pushes up all of the garbage rows sent by an opponent. The
+   * rows sent together share their hole, like a wall with a single way down.
+   */
+  raiseQueuedGarbage() {
+    if (this.garbageQueued === 0) return
+    const hole = this.garbagePrng.nextInt(this.cols)
+    while (this.garbageQueued > 0 && !this.gameOver) {
+      this.pushGarbage(hole)
+      this.garbageQueued--
+    }
+    this.garbageQueued = 0
+  }
+
+  /**
+   * This method pushes the board up by 1 row and fills the bottom row with
+   * garbage: blocks with a single hole. Garbage is made of fragments with no
+   * Tet type (-1). The game is over if something's already at the top of the
+   * board.
+   * @param hole This is the column of the hole.
+   */
+  pushGarbage(hole: number) {
+    if (this.gameOver) return
+    const living = this.newTet ? null : this.currTet
+    const landed = this.allTets.filter((tet) => tet !== living)
+    if (landed.some((tet) => tet.topLeft.row <= 0)) {
+      this.endGame('toppedOut')
+      return
+    }
+    landed.forEach((tet) => {
+      tet.topLeft = { row: tet.topLeft.row - 1, col: tet.topLeft.col }
+    })
+    const runs = [
+      { col: 0, width: hole },
+      { col: hole + 1, width: this.cols - hole - 1 }
+    ]
+    runs.forEach((run) => {
+      if (run.width === 0) return
+      const garbage = new Tet(this, -1)
+      garbage.topLeft = { row: this.totalRows - 1, col: run.col }
+      garbage.setShape([new Array(run.width).fill(1)])
+      this.allTets.push(garbage)
+    })
+    this.updateLanded = true
+    // The living Tet gets pushed up too if it's in the way
+    if (living !== null && living.doesTetCollideBot(living.topLeft)) {
+      const topLeft = living.topLeft
+      if (topLeft.row <= 0) this.endGame('toppedOut')
+      else living.topLeft = { row: topLeft.row - 1, col: topLeft.col }
+    }
+  }
+
+  /**
+   * This method counts the garbage rows left to eliminate: the rows of the
+   * board holding garbage, plus the ones still to push up.
+   * @returns The number of garbage rows.
+   */
+  getGarbageLines() {
+    const rows: { [row: number]: boolean } = {}
+    this.allTets.forEach((tet) => {
+      if (tet.type !== -1) return
+      tet.shape.forEach((line, row) => {
+        if (line.some((block) => block !== 0)) {
+          rows[tet.topLeft.row + row] = true
+        }
+      })
+    })
+    return Object.keys(rows).length + this.garbageLeft
+  }
+
+  /**
+   * This method ends the game, unless it already ended some other way.
+   * @param outcome This is how the game came to an end.
+   */
+  endGame(outcome: GameOutcome) {
+    if (this.gameOver) return
+    this.gameOver = true
+    this.outcome = outcome
+  }
+
+  /**
+   * This method gives the play time left before the game mode's time limit
+   * runs out.
+   * @returns The time left, in milliseconds, or null if the game mode has no
+   *     time limit.
+   */
+  getTimeLeft() {
+    const limit = this.rules.timeLimit
+    return limit !== undefined ? Math.max(limit - this.playTime, 0) : null
+  }
+
+  /**
+   * This method tells how close the living Tet is to locking.
+   * @returns A number in the range [0, 1], 1 being locked.
+   */
+  getLockProgress() {
+    if (this.newTet || !this.currTet || this.lockDelay === 0) return 0
+    const left = this.lockAt !== Infinity ? this.lockAt - this.time
+      : this.lockLeft
+    return Math.min(Math.max(1 - left / this.lockDelay, 0), 1)
+  }
+
+  /**
+   * The Tet that's going to come into play after the currTet lands.
+   * @returns The first Tet of the queue, or null if there isn't any yet.
+   */
+  get nextTet() {
+    return this.nextTets.length > 0 ? this.nextTets[0] : null
+  }
+
+  /**
+   * This method puts the living Tet into the hold slot. If the slot already
+   * held a Tet, that Tet comes into play in its place; otherwise the next Tet
+   * does. This can only be done once per Tet.
+   */
+  hold() {
+    if (!this.canTetMove() || !this.currTet || !this.canHold) return
+
+    const tet = this.currTet
+    this.allTets.splice(this.allTets.indexOf(tet), 1)
+    this.updateLanded = true
+    tet.resetPosition()
+
+    if (this.holdTet === null) {
+      // Go through the usual handshake so the next Tet comes into play right
+      // away instead of at the next drop interval
+      this.holdTet = tet
+      this.currTet = null
+      this.newTet = true
+      this.createTet()
+    } else {
+      this.currTet = this.holdTet
+      this.holdTet = tet
+      this.spawnTet(this.currTet)
+    }
+    this.canHold = false
+    this.restartDropTimer()
+  }
+
+  /**
+   * This method hands a Tet landing (or fragments settling) over to the
+   * scoring system, then counts the eliminated rows. This is called right
+   * after the full rows were removed from the Tet shapes.
+   * @param lines This is the number of rows that were eliminated, possibly 0.
+   * @param tSpin This is whether the Tet was spun into place.
+   * @param cascade This is whether the rows were filled by falling fragments.
+   * @param row This is the row of the board the Tet landed at.
+   */
+  scoreClear(lines: number, tSpin: TSpin, cascade: boolean, row: number) {
+    // Only eliminations caused by falling fragments keep the chain going
+    if (!cascade) this.chain = 0
+    if (lines > 0) this.chain++
+    const living = this.newTet ? null : this.currTet
+    const clear: ClearEvent = {
+      lines: lines,
+      level: this.level,
+      tSpin: tSpin,
+      perfectClear: lines > 0 &&
+        this.allTets.every((tet) => tet === living),
+      cascade: cascade,
+      chain: this.chain
+    }
+    if (lines > 0) this.clears.push(clear)
+    const awards = this.scoring.lineClear(clear)
+    const len = awards.length
+    for (let i = 0; i < len; i++) {
+      awards[i].row = row
+      if (this.chain > 1) {
+        awards[i].points *= this.chain
+        awards[i].label += ' \u00d7' + this.chain
+      }
+      this.score += awards[i].points
+      this.awards.push(awards[i])
+    }
+    if (lines > 0) this.addLines(lines)
+  }
+
+  /**
+   * This method counts eliminated rows, moving up a level every 10 rows. This
+   * finishes the game once the game mode's goal is reached, or all of its
+   * garbage is eliminated.
+   * @param count This is the number of rows that were just eliminated.
+   */
+  addLines(count: number) {
+    this.lines += count
+    const level = this.startLevel + Math.floor(this.lines / 10)
+    if (level !== this.level) this.setLevel(level)
+    const goal = this.rules.goalLines
+    if (goal !== undefined && this.lines >= goal) this.endGame('finished')
+    if (this.rules.garbageTotal !== undefined && this.getGarbageLines() === 0) {
+      this.endGame('finished')
+    }
+  }
+
+  /**
+   * This method changes the level along with how fast Tets fall.
+   * @param level This is the new level of the game.
+   */
+  setLevel(level: number) {
+    this.level = level
+    // Never let the interval get to zero, or time would stop moving forward
+    this.dropInterval = Math.max(
+      getDropInterval(this.gravityCurve, level, this.customGravity), 0.1)
+  }
+
+  /**
+   * This method starts a new game from the state described by the given
+   * scenario instead of an empty board. The game is left paused, like a brand
+   * new one.
+   * @param scenario This is the board, upcoming Tets and score to start from.
+   */
+  loadScenario(scenario: TestScenario) {
+    this.reset(this.seed)
+    const totalRows = this.totalRows
+    this.allTets = scenario.tets.map((landed) => {
+      // Fragments are built the same way updateTet() builds them
+      const tet = new Tet(this, -1)
+      tet.type = Engine.TET_LETTERS.indexOf(landed.type as TetLetter)
+      tet.topLeft = {
+        row: totalRows - landed.row - landed.shape.length,
+        col: landed.col
+      }
+      tet.setShape(landed.shape.map((line) => line.slice()))
+      return tet
+    })
+    // Throw away the Tet the reset dealt; the scenario's come first
+    this.currTet = null
+    this.newTet = true
+    this.nextTets = scenario.next.map(
+      (letter) => new Tet(this, Engine.TET_LETTERS.indexOf(letter)))
+    this.score = scenario.score || 0
+    this.addLines(scenario.lines || 0)
+    this.updateLanded = true
+    this.createTet()
+  }
+
+  /**
+   * This method restarts the drop interval so that gravity acts a full
+   * dropInterval from now.
+   */
+  restartDropTimer() {
+    this.nextDropAt = this.time + this.dropInterval
+  }
+
+  /**
+   * This method lets the blocks above the rows the given Tet eliminated fall,
+   * the way the clear gravity of the game says. With 'naive' gravity they
+   * shift down at once, which can't fill any more rows; otherwise they start
+   * falling.
+   * @param tet This is the Tet that eliminated the rows.
+   * @param fullRows These are the rows that were eliminated, top to bottom.
+   */
+  dropAfterClear(tet: Tet, fullRows: number[]) {
+    if (this.clearGravity !== 'naive') {
+      this.startCascade(tet)
+      return
+    }
+    // Tets were split along the eliminated rows, so every Tet and fragment is
+    // either entirely above or entirely below each of them
+    const len = this.allTets.length
+    for (let i = 0; i < len; i++) {
+      const topLeft = this.allTets[i].topLeft
+      const below = fullRows.filter((row) => row > topLeft.row).length
+      this.allTets[i].topLeft = { row: topLeft.row + below, col: topLeft.col }
+    }
+    this.updateLanded = true
+  }
+
+  /**
+   * This method schedules the falling animation of the fragments left over
+   * after the given Tet eliminated rows.
+   * @param tet This is the Tet whose collided() method gets called again once
+   *     every fragment has settled.
+   */
+  startCascade(tet: Tet) {
+    this.cascades.push({ tet: tet, nextAt: this.time + Engine.FALL_INTERVAL })
+  }
+
+  /**
+   * This method checks if there are fragments which are still falling.
+   * @returns If any fragment is still falling, return true; else, false.
+   */
+  isCascading() {
+    return this.cascades.length > 0
+  }
+
+  /**
+   * This method generates a landed array from allTets to be used to check for
+   * Tet/fragment collisions.
+   * @param tet This parameter basically excludes the given Tet from allTets
+   *     which are used to generate the landed array.
+   */
+  getLanded(tet?: Tet) {
+    if (tet !== undefined) this.updateLanded = true
+    if (this.updateLanded) {
+      const totalRows = this.totalRows
+      for (let i = 0; i < totalRows; i++) {
+        this.landed[i] = new Array(this.cols).fill(0)
+      }
+      const aT = this.allTets
+      const len = aT.length
+      for (let i = 0; i < len; i++) {
+        if (aT[i] === this.currTet || aT[i] === tet) continue
+        const rLen = aT[i].shape.length
+        for (let row = 0; row < rLen; row++) {
+          const cLen = aT[i].shape[row].length
+          for (let col = 0; col < cLen; col++) {
+            if (aT[i].shape[row][col] !== 0) {
+              this.landed[row + aT[i].topLeft.row][col + aT[i].topLeft.col] = 1
+            }
+          }
+        }
+      }
+      // A landed array missing the given Tet mustn't be reused by anyone else
+      this.updateLanded = tet !== undefined
+    }
+
+    return this.landed
+  }
+
+  /**
+   * This method inserts all zeros into the rows of the shape array if they are
+   * going to be removed. Once we do this, we call the updateLanded method.
+   * @param fullRows This is the list of all rows that are to be removed from
+   *     the Tet shapes.
+   */
+  alterShapes(fullRows: number[]) {
+    const firstRow = fullRows[0]
+    const lastRow = fullRows[fullRows.length - 1]
+    const len = this.allTets.length
+    for (let tet = 0; tet < len; tet++) {
+      if (this.allTets[tet].topLeft.row <= firstRow - 4 ||
+        this.allTets[tet].topLeft.row > lastRow) {
+        continue
+      }
+      this.allTets[tet].alterShape(fullRows)
+    }
+    // this.tetsToRemove.sort(function(a,b){ return a - b }) // ensures indices
+    // are in numeric order
+    const len2 = this.tetsToRemove.length
+    for (let i = 0; i < len2; i++) {
+      this.allTets.splice(this.tetsToRemove[i] - i, 1)
+    }
+    this.tetsToRemove = []
+    this.updateLanded = true
+  }
+
+  /**
+   * This method tops up the queue of upcoming Tets from the randomizer.
+   */
+  private fillQueue() {
+    while (this.nextTets.length < this.previewCount) {
+      this.nextTets.push(new Tet(this, this.randomizer.next()))
+    }
+  }
+
+  /**
+   * This method puts the given Tet into play as the living Tet. This causes
+   * the game to end when it collides with the landed Tets right away.
+   * @param tet This is the Tet coming into play.
+   */
+  private spawnTet(tet: Tet) {
+    // Game Over
+    if (tet.doesTetCollideBot(tet.topLeft)) {
+      // Show the Tet that didn't fit at the front of the queue
+      this.nextTets.unshift(tet)
+      this.endGame('toppedOut')
+      this.newTet = true
+    } else {
+      this.allTets.push(tet)
+      this.lowestRow = tet.topLeft.row
+      this.lockResets = 0
+      this.lockLeft = this.lockDelay
+      this.lockAt = Infinity
+      this.updateLock(false)
+      // A DAS charged while the previous Tet was locking moves this one
+      // right away
+      if (this.isDasCharged()) {
+        if (this.arr === 0) this.autoShift()
+        else this.nextShiftAt = this.time
+      }
+    }
+  }
+
+  /**
+   * This method moves the engine clock forward, firing every gravity and
+   * falling-fragment event that happens along the way in chronological order.
+   * @param dt This is the amount of time to simulate, in milliseconds.
+   */
+  private advance(dt: number) {
+    const target = this.time + dt
+    while (true) {
+      // Find the earliest event that is due within this step (gravity wins
+      // ties so that a falling step always sees the Tet that just landed)
+      const active = !this.paused && !this.gameOver
+      let eventAt = active ? this.nextDropAt : Infinity
+      let event: 'drop' | 'fall' | 'shift' | 'softDrop' | 'lock' | 'timeUp' |
+        'garbage' = 'drop'
+      let due: Cascade | null = null
+      const len = this.cascades.length
+      for (let i = 0; i < len; i++) {
+        if (this.cascades[i].nextAt < eventAt) {
+          eventAt = this.cascades[i].nextAt
+          event = 'fall'
+          due = this.cascades[i]
+        }
+      }
+      if (active && this.nextShiftAt < eventAt) {
+        eventAt = this.nextShiftAt
+        event = 'shift'
+      }
+      if (active && this.nextSoftDropAt < eventAt) {
+        eventAt = this.nextSoftDropAt
+        event = 'softDrop'
+      }
+      if (active && this.lockAt < eventAt) {
+        eventAt = this.lockAt
+        event = 'lock'
+      }
+      const timeLeft = this.getTimeLeft()
+      if (active && timeLeft !== null && this.time + timeLeft < eventAt) {
+        eventAt = this.time + timeLeft
+        event = 'timeUp'
+      }
+      const garbageAt = this.time + this.nextGarbageAt - this.playTime
+      if (active && this.garbageLeft > 0 && garbageAt < eventAt) {
+        eventAt = garbageAt
+        event = 'garbage'
+      }
+      if (eventAt > target) break
+
+      if (active) this.playTime += eventAt - this.time
+      this.time = eventAt
+      if (event === 'timeUp') {
+        // Don't let rounding leave the timer a hair short of the limit
+        this.playTime = this.rules.timeLimit as number
+        this.endGame('timeUp')
+      } else if (event === 'garbage') {
+        this.playTime = this.nextGarbageAt
+        this.nextGarbageAt += this.rules.garbageInterval as number
+        this.raiseGarbage()
+      } else if (due !== null && event === 'fall') {
+        due.nextAt = this.time + Engine.FALL_INTERVAL
+        this.fallStep(due)
+      } else if (event === 'shift') {
+        this.autoShift()
+      } else if (event === 'softDrop') {
+        this.nextSoftDropAt = this.time + this.getSoftDropInterval()
+        this.softDrop()
+      } else if (event === 'lock') {
+        // Falling fragments may have left the Tet hanging in the meantime
+        if (this.currTet && this.currTet.isGrounded()) this.lock()
+        else this.lockAt = Infinity
+      } else {
+        this.nextDropAt = this.time + this.dropInterval
+        this.dropStep()
+      }
+    }
+    if (!this.paused && !this.gameOver) this.playTime += target - this.time
+    this.time = target
+  }
+
+  /**
+   * This method moves the living Tet 1 column sideways.
+   * @param dir This is the direction: -1 for left, 1 for right.
+   * @returns If the Tet moved, return true; else, false.
+   */
+  private shift(dir: number) {
+    if (this.canTetMove() !== true || !this.currTet) return false
+    return dir < 0 ? this.currTet.moveLeft() : this.currTet.moveRight()
+  }
+
+  /**
+   * This method is what happens when the held direction repeats: the Tet
+   * moves 1 column, or all the way to the wall if arr is 0. The DAS timer
+   * keeps running while there's no living Tet, so a charge carries over to
+   * the next Tet.
+   */
+  private autoShift() {
+    const dir = this.shiftDirs[this.shiftDirs.length - 1]
+    let moved = false
+    if (this.arr === 0) {
+      while (this.shift(dir)) moved = true
+      // The next Tet, or rotating this one, pushes it to the wall again
+      this.nextShiftAt = Infinity
+    } else {
+      moved = this.shift(dir)
+      this.nextShiftAt = this.time + this.arr
+    }
+    this.updateLock(moved)
+  }
+
+  /**
+   * This method checks if a direction was held long enough to repeat.
+   * @returns If DAS is charged, return true; else, false.
+   */
+  private isDasCharged() {
+    return this.shiftDirs.length > 0 && this.time >= this.dasChargedAt
+  }
+
+  /**
+   * This method starts moving the Tet in the given direction, which takes
+   * over any other direction held ("last pressed wins").
+   * @param dir This is the direction: -1 for left, 1 for right.
+   */
+  private pressShift(dir: number) {
+    this.shiftDirs = this.shiftDirs.filter((d) => d !== dir).concat(dir)
+    this.updateLock(this.shift(dir))
+    this.dasChargedAt = this.time + this.das
+    this.nextShiftAt = this.dasChargedAt
+  }
+
+  /**
+   * This method stops moving the Tet in the given direction. If the other
+   * direction is still held, it takes over after a fresh DAS.
+   * @param dir This is the direction: -1 for left, 1 for right.
+   */
+  private releaseShift(dir: number) {
+    const active = this.shiftDirs[this.shiftDirs.length - 1] === dir
+    this.shiftDirs = this.shiftDirs.filter((d) => d !== dir)
+    if (this.shiftDirs.length === 0) {
+      this.nextShiftAt = Infinity
+    } else if (active) {
+      this.dasChargedAt = this.time + this.das
+      this.nextShiftAt = this.dasChargedAt
+    }
+  }
+
+  /**
+   * This method moves the living Tet down 1 block on the player's behalf,
+   * giving out soft drop points.
+   */
+  private softDrop() {
+    if (this.canTetMove() === true && this.currTet) {
+      if (this.currTet.moveDown()) {
+        this.score += this.scoring.softDrop(1)
+      }
+      this.updateLock(false)
+      this.restartDropTimer()
+    }
+  }
+
+  /**
+   * This method keeps the lock delay of the living Tet up to date after it
+   * moved, or tried to: the delay runs while the Tet rests on something and
+   * starts over when it reaches a new row or, depending on lockReset, when
+   * the player moves or rotates it.
+   * @param moved This is whether the player just moved or rotated the Tet.
+   */
+  private updateLock(moved: boolean) {
+    const tet = this.currTet
+    if (this.newTet || !tet) return
+    if (tet.topLeft.row > this.lowestRow) {
+      this.lowestRow = tet.topLeft.row
+      this.lockResets = 0
+      this.lockLeft = this.lockDelay
+    } else if (moved && this.canResetLock() &&
+      (this.lockAt !== Infinity || this.lockLeft < this.lockDelay)) {
+      this.lockResets++
+      this.lockLeft = this.lockDelay
+    } else if (this.lockAt !== Infinity) {
+      this.lockLeft = Math.max(this.lockAt - this.time, 0)
+    }
+
+    if (!tet.isGrounded()) {
+      this.lockAt = Infinity
+    } else if (this.lockDelay === 0) {
+      this.lock()
+    } else {
+      this.lockAt = this.time + this.lockLeft
+    }
+  }
+
+  /**
+   * This method checks if moving or rotating the living Tet gives it more
+   * time before it locks.
+   * @returns If the lock delay can be reset, return true; else, false.
+   */
+  private canResetLock() {
+    switch (this.lockReset) {
+      case 'infinite':
+        return true
+      case 'move':
+        return this.lockResets < Engine.MAX_LOCK_RESETS
+      default:
+        return false
+    }
+  }
+
+  /**
+   * This method gets the time between two soft drops at the current level.
+   * @returns The interval, in milliseconds; never less than 1.
+   */
+  private getSoftDropInterval() {
+    return Math.max(this.dropInterval / this.softDropFactor, 1)
+  }
+
+  /**
+   * This method is what happens at each drop interval: either the next Tet
+   * comes into play or the living Tet moves down.
+   */
+  private dropStep() {
+    if (this.newTet) {
+      this.createTet()
+    } else if (!this.paused && this.currTet) {
+      this.currTet.moveDown()
+      this.updateLock(false)
+    }
+  }
+
+  /**
+   * This method moves every unsupported Tet and fragment down by 1 block. Once
+   * nothing moves anymore, the cascade ends and we check for newly filled
+   * rows.
+   * @param cascade This is the cascade we're performing a falling step for.
+   */
+  private fallStep(cascade: Cascade) {
+    const units = this.getFallingUnits()
+    const movingUnits: Tet[][] = []
+    let unitsMoved = true
+    while (unitsMoved) {
+      unitsMoved = false
+      const uLen = units.length
+      for (let i = 0; i < uLen; i++) {
+        if (movingUnits.indexOf(units[i], 0) > -1 || !this.canFall(units[i])) {
+          continue
+        }
+        units[i].forEach((tet) => {
+          tet.topLeft = { row: tet.topLeft.row + 1, col: tet.topLeft.col }
+        })
+        this.updateLanded = true
+        movingUnits.push(units[i])
+        unitsMoved = true
+      }
+    }
+    if (movingUnits.length === 0) {
+      this.cascades.splice(this.cascades.indexOf(cascade), 1)
+      cascade.tet.collided(true)
+    }
+  }
+
+  /**
+   * This method groups the landed Tets and fragments into the units that fall
+   * together: each one on its own with 'sticky' gravity, or every group of
+   * them touching each other sideways or up and down with 'cascade' gravity.
+   * @returns The units, each being the Tets and fragments it's made of.
+   */
+  private getFallingUnits(): Tet[][] {
+    const tets = this.allTets.filter(
+      (tet) => tet !== this.currTet || this.newTet === true)
+    if (this.clearGravity !== 'cascade') return tets.map((tet) => [tet])
+
+    // Find which Tet each block belongs to, then join the Tets whose blocks
+    // touch
+    const owners: number[][] = []
+    for (let row = 0; row < this.totalRows; row++) {
+      owners.push(new Array(this.cols).fill(-1))
+    }
+    tets.forEach((tet, i) => tet.shape.forEach((line, row) =>
+      line.forEach((block, col) => {
+        if (block === 0) return
+        owners[tet.topLeft.row + row][tet.topLeft.col + col] = i
+      })))
+    const parents: number[] = []
+    for (let i = 0; i < tets.length; i++) parents.push(i)
+    const find = (i: number): number =>
+      parents[i] === i ? i : (parents[i] = find(parents[i]))
+    for (let row = 0; row < this.totalRows; row++) {
+      for (let col = 0; col < this.cols; col++) {
+        const owner = owners[row][col]
+        if (owner === -1) continue
+        const right = col + 1 < this.cols ? owners[row][col + 1] : -1
+        const down = row + 1 < this.totalRows ? owners[row + 1][col] : -1
+        if (right !== -1) parents[find(right)] = find(owner)
+        if (down !== -1) parents[find(down)] = find(owner)
+      }
+    }
+    const units: { [root: number]: Tet[] } = {}
+    const roots: number[] = []
+    tets.forEach((tet, i) => {
+      const root = find(i)
+      if (!(root in units)) {
+        units[root] = []
+        roots.push(root)
+      }
+      units[root].push(tet)
+    })
+    return roots.map((root) => units[root])
+  }
+
+  /**
+   * This method checks if a falling unit can move down by 1 block, i.e. if
+   * every block below it is either empty or part of the unit itself.
+   * @param unit These are the Tets and fragments falling together.
+   * @returns If the unit can move down, return true; else, false.
+   */
+  private canFall(unit: Tet[]) {
+    const landed = this.getLanded()
+    const own: { [cell: string]: boolean } = {}
+    unit.forEach((tet) => tet.shape.forEach((line, row) =>
+      line.forEach((block, col) => {
+        if (block !== 0) {
+          own[(tet.topLeft.row + row) + ':' + (tet.topLeft.col + col)] = true
+        }
+      })))
+    return Object.keys(own).every((cell) => {
+      const pos = cell.split(':').map(Number)
+      const below = pos[0] + 1
+      return below < this.totalRows &&
+        (landed[below][pos[1]] === 0 || own[below + ':' + pos[1]] === true)
+    })
+  }
+
+  /**
+   * This method applies a single player action to the game.
+   * @param input This is the action the player performed.
+   */
+  private handleInput(input: EngineInput) {
+    switch (input) {
+      case 'hardDrop': // move living Tet all the way down
+        if (this.canTetMove() === true) {
+          let rows = 0
+          while (this.currTet && this.currTet.moveDown()) rows++
+          this.score += this.scoring.hardDrop(rows)
+          this.lock()
+          this.restartDropTimer()
+        }
+        break
+      case 'rotateCW':
+        if (this.canTetMove() === true && this.currTet) {
+          this.updateLock(this.currTet.rotate(1))
+        }
+        break
+      case 'rotateCCW':
+        if (this.canTetMove() === true && this.currTet) {
+          this.updateLock(this.currTet.rotate(-1))
+        }
+        break
+      case 'rotate180':
+        if (this.allow180 && this.canTetMove() === true && this.currTet) {
+          this.updateLock(this.currTet.rotate(2))
+        }
+        break
+      case 'moveLeft': // keeps moving left until released
+        this.pressShift(-1)
+        break
+      case 'moveRight': // keeps moving right until released
+        this.pressShift(1)
+        break
+      case 'releaseLeft':
+        this.releaseShift(-1)
+        break
+      case 'releaseRight':
+        this.releaseShift(1)
+        break
+      case 'moveDown': // keeps soft dropping until released
+        this.softDrop()
+        this.nextSoftDropAt = this.time + this.getSoftDropInterval()
+        break
+      case 'releaseDown':
+        this.nextSoftDropAt = Infinity
+        break
+      case 'hold':
+        this.hold()
+        break
+      case 'moveUp': // developer's control
+        if (this.devModeOn && this.currTet) {
+          if (this.currTet.topLeft.row > 0) {
+            this.currTet.topLeft.row--
+            this.updateLock(false)
+          }
+        }
+        break
+      case 'pause':
+        this.pause()
+        break
+      case 'resume':
+        this.resume()
+        break
+    }
+    // At an instant ARR, a charged direction keeps the Tet against the wall
+    // whatever else the player does
+    if (this.arr === 0 && this.isDasCharged()) this.autoShift()
+  }
+}
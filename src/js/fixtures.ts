@@ -0,0 +1,284 @@
+import { Engine } from './engine'
+import { REPLAY_INPUTS } from './replay'
+
+/**
+ * Board fixtures write a board as one string per row, from top to bottom,
+ * with the last string being the bottom row of the board, e.g.
+ *
+ *     ['.........O',
+ *      'IIII..ZZ.O']
+ *
+ * '.' is an empty cell, the letters I, J, L, O, S, T and Z are blocks of a
+ * Tet (or fragment) of that type and G is garbage. Blocks written with the
+ * very same letter which touch each other sideways or up and down make up a
+ * single Tet; when 2 Tets of the same type touch, one of them is written in
+ * lowercase to tell them apart. Garbage only ever spans a single row, so its
+ * blocks only make up a single fragment sideways: stacked garbage rows are
+ * written in uppercase.
+ */
+
+/** This is how an empty cell is written in a board fixture. */
+const EMPTY = '.'
+
+/** This is how garbage is written in a board fixture. */
+const GARBAGE = 'G'
+
+/** These are the offsets of the cells touching a cell. */
+const AROUND = [[-1, 0], [1, 0], [0, -1], [0, 1]]
+
+/** These are the offsets of the cells touching a cell in the same row. */
+const SIDEWAYS = [[0, -1], [0, 1]]
+
+/** These are the shorthands for tapping an input in an input script. */
+const TAPS: { [step: string]: EngineInput } = {
+  '<': 'moveLeft',
+  '>': 'moveRight',
+  'v': 'moveDown',
+  '^': 'moveUp',
+  'cw': 'rotateCW',
+  'ccw': 'rotateCCW',
+  '180': 'rotate180',
+  'hold': 'hold',
+  'drop': 'hardDrop'
+}
+
+/**
+ * This function reads a board fixture.
+ * @param board These are the rows of the board, from top to bottom.
+ * @returns The Tets and fragments on the board, as laid out in a scenario.
+ * @throws If the fixture holds anything but Tet letters and empty cells, or
+ *     blocks that can't make up a single Tet.
+ */
+export function parseBoard(board: string[]): ScenarioTet[] {
+  const height = board.length
+  const seen = board.map((line) => line.split('').map(() => false))
+  const tets: ScenarioTet[] = []
+  for (let row = 0; row < height; row++) {
+    const width = board[row].length
+    for (let col = 0; col < width; col++) {
+      const char = board[row][col]
+      if (char === EMPTY || seen[row][col]) continue
+      const type = char.toUpperCase() as TetLetter | 'G'
+      if (type !== GARBAGE && Engine.TET_LETTERS.indexOf(type) === -1) {
+        throw new Error('Unknown cell \'' + char + '\' at row ' + row +
+          ', column ' + col + ' of the board fixture')
+      }
+      // Flood fill the blocks written with the same letter, within the row
+      // for garbage
+      const around = type === GARBAGE ? SIDEWAYS : AROUND
+      const cells: Array<{ row: number, col: number }> = []
+      const stack = [{ row: row, col: col }]
+      seen[row][col] = true
+      while (stack.length > 0) {
+        const cell = stack.pop() as { row: number, col: number }
+        cells.push(cell)
+        around.forEach((offset) => {
+          const r = cell.row + offset[0]
+          const c = cell.col + offset[1]
+          if (r >= 0 && r < height && c >= 0 && c < board[r].length &&
+            !seen[r][c] && board[r][c] === char) {
+            seen[r][c] = true
+            stack.push({ row: r, col: c })
+          }
+        })
+      }
+      // Garbage comes in rows as wide as the board
+      if (cells.length > 4 && type !== GARBAGE) {
+        throw new Error('The ' + cells.length + ' blocks of \'' + char +
+          '\' around row ' + row + ', column ' + col + ' are too many for ' +
+          'a single Tet')
+      }
+      tets.push(toScenarioTet(type, cells, height))
+    }
+  }
+  return tets
+}
+
+/**
+ * This function writes the board of an engine as a board fixture. Rows above
+ * the highest block are left out.
+ *
+ * Two Tets of the same type can only be told apart by writing one of them in
+ * lowercase, so 3 of them touching each other can't be written back exactly.
+ * @param engine This is the engine whose board gets written.
+ * @param [includeLiving] If true, the living Tet is written too.
+ * @returns The rows of the board, from top to bottom.
+ */
+export function serializeBoard(engine: Engine, includeLiving = false) {
+  const grid: string[][] = []
+  for (let row = 0; row < engine.totalRows; row++) {
+    grid.push(new Array(engine.cols).fill(EMPTY))
+  }
+  engine.allTets.forEach((tet) => {
+    if (!includeLiving && !engine.newTet && tet === engine.currTet) return
+    const letter = letterOf(tet.type)
+    const cells: Array<{ row: number, col: number }> = []
+    tet.shape.forEach((line, row) => line.forEach((block, col) => {
+      if (block !== 0) {
+        cells.push({ row: tet.topLeft.row + row, col: tet.topLeft.col + col })
+      }
+    }))
+    // Fall back to lowercase when an uppercase Tet of the same type touches
+    // it the way parseBoard() would join them
+    const around = tet.type === -1 ? SIDEWAYS : AROUND
+    const touches = (char: string) => cells.some((cell) =>
+      around.some((offset) => {
+        const row = cell.row + offset[0]
+        return row >= 0 && row < grid.length &&
+          grid[row][cell.col + offset[1]] === char
+      }))
+    const char = touches(letter) && !touches(letter.toLowerCase())
+      ? letter.toLowerCase() : letter
+    cells.forEach((cell) => {
+      if (cell.row >= 0) grid[cell.row][cell.col] = char
+    })
+  })
+  const lines = grid.map((line) => line.join(''))
+  const emptyLine = new Array(engine.cols + 1).join(EMPTY)
+  while (lines.length > 0 && lines[0] === emptyLine) lines.shift()
+  return lines
+}
+
+/**
+ * This function starts a new game on the given board.
+ * @param engine This is the engine to set up.
+ * @param board These are the rows of the board, from top to bottom.
+ * @param [next] These are the Tets coming into play next, in order.
+ * @throws If the fixture can't be read or doesn't fit on the board.
+ */
+export function loadBoard(engine: Engine, board: string[],
+  next: TetLetter[] = []) {
+  if (board.length > engine.totalRows ||
+    board.some((line) => line.length > engine.cols)) {
+    throw new Error('The board fixture doesn\'t fit on a ' + engine.cols +
+      ' by ' + engine.totalRows + ' board')
+  }
+  engine.loadScenario({
+    name: 'Fixture',
+    description: '',
+    tets: parseBoard(board),
+    next: next
+  })
+  engine.allTets.forEach((tet) => {
+    // Unknown shapes have no perimeter to be drawn with
+    if (tet.perim.length === 0) {
+      throw new Error('The board fixture holds a ' +
+        letterOf(tet.type) + ' shaped ' + JSON.stringify(tet.shape) +
+        ', which no Tet can be split into')
+    }
+  })
+}
+
+/**
+ * This function feeds an input script to an engine. A script is a list of
+ * steps separated by whitespace, each one being:
+ *
+ * - an engine input, e.g. 'moveLeft', fed as is (so moves keep repeating
+ *   until they're released, e.g. by 'releaseLeft');
+ * - a tap: '<', '>', 'v' and '^' to move, 'cw', 'ccw' and '180' to rotate,
+ *   'hold', and 'drop' to hard drop;
+ * - a wait, e.g. '500ms', letting time move forward;
+ * - 'settle', letting time move forward until no fragment is falling.
+ * @param engine This is the engine to feed the inputs to.
+ * @param script This is the list of steps.
+ * @throws If a step can't be read.
+ */
+export function runScript(engine: Engine, script: string) {
+  const steps = script.split(/\s+/).filter((step) => step !== '')
+  steps.forEach((step) => {
+    const wait = /^(\d+)ms$/.exec(step)
+    if (wait !== null) {
+      engine.step([], Number(wait[1]))
+    } else if (step === 'settle') {
+      while (engine.isCascading()) engine.step([], Engine.FALL_INTERVAL)
+    } else if (step in TAPS) {
+      const input = TAPS[step]
+      engine.step([input], 0)
+      if (input in Engine.RELEASE_INPUTS) {
+        engine.step([Engine.RELEASE_INPUTS[input]], 0)
+      }
+    } else if (REPLAY_INPUTS.indexOf(step as EngineInput) !== -1) {
+      engine.step([step as EngineInput], 0)
+    } else {
+      throw new Error('Unknown step \'' + step + '\' in the input script')
+    }
+  })
+}
+
+/**
+ * This function checks that the board of an engine is the expected one. The
+ * case of the letters is only there to tell Tets apart, so it doesn't matter
+ * here.
+ * @param engine This is the engine whose board gets checked.
+ * @param expected These are the rows of the expected board, from top to
+ *     bottom.
+ * @param [includeLiving] If true, the living Tet is expected on the board too.
+ * @throws If the boards differ, showing both of them.
+ */
+export function assertBoard(engine: Engine, expected: string[],
+  includeLiving = false) {
+  const actual = serializeBoard(engine, includeLiving)
+  const normalize = (lines: string[]) => {
+    const upper = lines.map((line) => line.toUpperCase())
+    while (upper.length > 0 && /^\.*$/.test(upper[0])) upper.shift()
+    return upper
+  }
+  const want = normalize(expected)
+  const got = normalize(actual)
+  if (want.join('\n') === got.join('\n')) return
+  const height = Math.max(want.length, got.length)
+  const pad = (lines: string[]) => new Array(height - lines.length)
+    .fill(new Array(engine.cols + 1).join(EMPTY)).concat(lines)
+  const gotLines = pad(got)
+  throw new Error('The board isn\'t the expected one:\n' + pad(want).map(
+    (line, row) => line + (line === gotLines[row] ? '   ' : ' ≠ ') +
+      gotLines[row]).join('\n'))
+}
+
+/**
+ * This function checks the score, lines, level or state of an engine.
+ * @param engine This is the engine to check.
+ * @param expected These are the expected values; anything left undefined
+ *     isn't checked.
+ * @throws If any value isn't the expected one.
+ */
+export function assertState(engine: Engine, expected:
+  Partial<Pick<Engine, 'score' | 'lines' | 'level' | 'gameOver' | 'paused'>>) {
+  const keys = Object.keys(expected) as Array<keyof typeof expected>
+  const wrong = keys.filter((key) => engine[key] !== expected[key])
+  if (wrong.length === 0) return
+  throw new Error(wrong.map((key) => 'Expected ' + key + ' to be ' +
+    expected[key] + ', but it is ' + engine[key]).join('\n'))
+}
+
+/**
+ * This function gives the letter a Tet is written with in a board fixture.
+ * @param type This is the type of the Tet, -1 being garbage.
+ * @returns The letter of the Tet.
+ */
+function letterOf(type: number) {
+  return type === -1 ? GARBAGE : Engine.TET_LETTERS[type]
+}
+
+/**
+ * This function turns the blocks of a Tet in a board fixture into a scenario
+ * Tet.
+ * @param type This is the type of the Tet.
+ * @param cells These are the (row, column) of its blocks in the fixture.
+ * @param height This is the number of rows of the fixture.
+ * @returns The Tet, with its shape trimmed down to its blocks.
+ */
+function toScenarioTet(type: TetLetter | 'G',
+  cells: Array<{ row: number, col: number }>, height: number): ScenarioTet {
+  const top = Math.min(...cells.map((cell) => cell.row))
+  const bottom = Math.max(...cells.map((cell) => cell.row))
+  const left = Math.min(...cells.map((cell) => cell.col))
+  const shape: number[][] = []
+  for (let row = top; row <= bottom; row++) shape.push([])
+  cells.forEach((cell) => {
+    const line = shape[cell.row - top]
+    while (line.length <= cell.col - left) line.push(0)
+    line[cell.col - left] = 1
+  })
+  return { type: type, shape: shape, row: height - 1 - bottom, col: left }
+}
@@ -1,326 +1,1423 @@
+import { BOT_SPEEDS, BotPlayer } from './bot'
+import { emit, on } from './bridge'
+import { Engine } from './engine'
+import { serializeBoard } from './fixtures'
+import { findPadAction, Gamepads, normalizePadBindings } from './gamepads'
+import { CLEAR_GRAVITIES } from './gravity'
+import { HeuristicBot } from './heuristicBot'
+import { addHighScore } from './highScores'
+import { findAction, normalizeBindings,
+  normalizeVersusBindings } from './keyBindings'
+import { CONFIG_MIGRATIONS } from './migrations'
+import { formatPlayTime, GAME_MODES, isGameMode } from './modes'
+import { NetMatch } from './netMatch'
+import { ReplayPlayer, ReplayRecorder } from './replay'
+import { createBundle, exportBundle, importBundle, mergeConfig, mergeReplays,
+  validateBundle } from './saveBundle'
 import { Store } from './store'
-import { Tet } from './tet'
+import { TEST_CASES } from './testCases'
+import { getWinsNeeded, Versus } from './versus'
+
+const electron = require('electron')
+
+/**
+ * These are the HTML color codes of the Tets, in the order of their types:
+ * I, J, L, O, S, T, Z.
+ */
+const TET_COLORS = ['#3cc', '#0af', '#f90', '#ee0', '#0c0', '#c0c', '#c00']
+
+/** Garbage has no Tet type (-1), so it gets a gray of its own. */
+const GARBAGE_COLOR = '#888'
 
 /** Represents our game board and interface */
 export class Game {
   // Public Vars
+  /** This is how long, in milliseconds, an award label floats up the well. */
+  static readonly LABEL_DURATION: number = 1500
+  /** This is how many replays we keep; older ones are dropped first. */
+  static readonly MAX_REPLAYS: number = 50
+  /** Developer Mode (when enabled/true, test cases can be ran via keybinds) */
+  devModeOn: boolean
   /**
-   * Since the Tetris standard is to have 10 horizontal blocks by 16 vertical
-   * blocks, this is a constant set to 16.
+   * This is the DOM-free simulation which holds the rules of the game. While a
+   * replay is playing, this is the replay's engine; in a versus match, the
+   * first player's; in a network versus match, the user's; while the AI
+   * plays, the AI's.
    */
-  static readonly BOARD_ROW_NUM: number = 16
+  engine: Engine
   /**
-   * Since the Tetris standard is to have 10 horizontal blocks by 16 vertical
-   * blocks, this is a constant set to 10.
+   * This is the boolean we check to see if we should update our high score list
+   * or not.
    */
-  static readonly BOARD_COL_NUM: number = 10
-  /** Developer Mode (when enabled/true, test cases can be ran via keybinds) */
-  devModeOn: boolean
+  updateScore: boolean
+  /** This is the id of the animation frame request which drives our engine. */
+  loop: number
+
+  // Private vars
   /**
-   * If true, we want to create a new Tet at the beginning of the loop
-   * interval.
-   *
-   * Defaults as true since we always want to create a new Tet at the beginning
-   * of the game.
+   * This is the width of the well that we set. This width can be adjusted and
+   * our game will scale to it.
    */
-  newTet: boolean
+  private canvasWidth: number
+  /** This is the length of the side of each "block" on the game, in pixels. */
+  private blockS: number
   /**
-   * The Tet that's falling and being controlled by the player.
-   *
-   * Defaults as null since we don't start off with any Tets the moment the game
-   * gets intialized.
+   * This is the length of the side of each "block" of the Tets previewed in
+   * the next queue column, in pixels.
    */
-  currTet: Tet | null
+  private previewS: number
   /**
-   * The Tet that's going to come into play after the currTet lands.
-   *
-   * Defaults as null since we don't start off with any Tets the moment the game
-   * gets intialized.
+   * This is the length of the side of each "block" of the opponent's board
+   * in a network versus match, in pixels.
    */
-  nextTet: Tet | null
+  private miniS: number
+  /** This is the DOM element for which we are going to be drawing on. */
+  private canvas: HTMLCanvasElement
   /**
-   * If true, we should update our landed array to be used in collision
-   * detection.
+   * This is the height of the panel which houses our score, holdTet, and
+   * PAUSED/DEV text.
    */
-  updateLanded: boolean
-  /** This is the array of all Tets that are in the game. */
-  allTets: Tet[]
+  private panelHeight: number
   /**
-   * This is the array of all Tets that need to be removed before being drawn.
+   * This is the y coordinate of the top of the board, vanish zone included.
+   * The vanish zone sits behind the top panel, so only what reaches below it
+   * gets drawn.
    */
-  tetsToRemove: number[]
-  /** This is the score that we're going to use to display. */
-  score: number
+  private wellTop: number
   /**
-   * This is the boolean we check to see if we should update our high score list
-   * or not.
+   * This is the width of the column beside the well which houses the next
+   * queue.
    */
-  updateScore: boolean
-  /** TODO: Add comment */
-  loop: number
-  /** TODO: Add comment */
-  dropOnce: boolean
+  private sideWidth: number
+  /**
+   * This is the timestamp, in milliseconds, of the last time we stepped the
+   * engine.
+   */
+  private lastStepAt: number
+  /**
+   * This is the date of the high score entry the current game made it into
+   * the high scores with, if it did.
+   */
+  private newHighScoreDate: number | null
 
-  // Private vars
+  private store: Store
+  /** This is where the replays are saved, apart from the rest of the data. */
+  private replayStore: Store
+  /** These are the options every new game's engine is created with. */
+  private engineOpts: EngineOpts
+  /** This is the engine of the game the user plays. */
+  private liveEngine: Engine
   /**
-   * This is the interval, in milliseconds, for which our currTet is going to
-   * drop 1 block.
+   * This records the inputs of the current game. It's null once the game's
+   * replay was saved.
    */
-  private dropInterval: number
+  private recorder: ReplayRecorder | null
+  /** This plays a replay back instead of the live game, if not null. */
+  private player: ReplayPlayer | null
   /**
-   * The flag that indicates when the game is over. When true, we handle the
-   * "game over" events.
+   * This is the local versus match played instead of the live game, if not
+   * null. Its players' boards are shown side by side.
    */
-  private gameOver: boolean
+  private versus: Versus | null
   /**
-   * This is the width that we set. This width can be adjusted and our game will
-   * scale to it.
+   * This is the network versus match played instead of the live game, if not
+   * null. The opponent's board is shown in a miniature well beside the user's.
    */
-  private canvasWidth: number
-  /** This is the length of the side of each "block" on the game, in pixels. */
-  private blockS: number
-  /** This is the DOM element for which we are going to be drawing on. */
-  private canvas: HTMLCanvasElement
+  private net: NetMatch | null
   /**
-   * This is the height of the panel which houses our score, nextTet, and
-   * PAUSED/DEV text.
+   * This is the AI playing a game of its own in place of the live game, for
+   * the user to watch, if not null.
    */
-  private panelHeight: number
+  private bot: BotPlayer | null
+  /** This is how many moves per second the AI makes, as saved in the Store. */
+  private botSpeed: number
+  /**
+   * These are the awards floating up the well, along with the time at which
+   * they started being shown and the player whose board they belong to.
+   */
+  private labels: Array<{ award: Award, shownAt: number, player: number }>
+  /**
+   * This is the time at which the board was last copied as a board fixture
+   * in Developer Mode, to tell the developer it was.
+   */
+  private boardCopiedAt: number
+  /** These are the keys bound to each action, as saved in the Store. */
+  private keyBindings: KeyBindings
+  /** These are the keys bound to each action of each versus player. */
+  private versusBindings: KeyBindings[]
+  /** These are the connected controllers, which are polled every frame. */
+  private gamepads: Gamepads
+  /**
+   * If true, the settings panel is waiting for a controller button to bind,
+   * so presses are sent there instead of being acted on.
+   */
+  private padCapture: boolean
+  /**
+   * These are the keys and buttons holding down each of the moves that repeat,
+   * e.g. 'key:ArrowLeft' or 'pad:<Gamepad.index>:14', by player. A move is
+   * only released once nothing holds it anymore.
+   */
+  private heldSources: Array<{ [action: string]: string[] }>
+
+  /**
+   * Represents all of the functions which generate and control the game board.
+   * The rules themselves live in the {@link Engine}; this class renders it,
+   * feeds it the user's input and keeps track of high scores.
+   * @param canvasId This is the id of the canvas element within the document
+   *     from which this Game class was created.
+   * @param [devMode] This is the option to set the game to be initially in
+   *     Developer's Mode.
+   * @param [engineOpts] These are the options of the engine, e.g. its seed
+   *     and randomizer.
+   */
+  constructor(canvasId: string, devModeOn = false,
+    engineOpts: EngineOpts = {}) {
+    // Force instantiation
+    if (!(this instanceof Game)) {
+      return new Game(canvasId, devModeOn, engineOpts)
+    }
+
+    // TODO: Add ability to pass in {options}
+    this.devModeOn = devModeOn
+    this.store = new Store({
+      configName: 'config',
+      defaults: {
+        highScores: {}
+      },
+      migrations: CONFIG_MIGRATIONS
+    })
+    // The rules and handling the user saved win over the ones we were given
+    this.engineOpts = Object.assign({}, engineOpts, this.readSavedRules(),
+      this.store.get('handling'), { devModeOn })
+    this.engine = new Engine(this.engineOpts)
+    this.liveEngine = this.engine
+    this.recorder = new ReplayRecorder(this.engineOpts, this.engine.seed)
+    this.player = null
+    this.versus = null
+    this.net = null
+    this.bot = null
+    this.botSpeed = 10
+    this.readSavedBotSpeed()
+    this.updateScore = true
+
+    // Private vars
+    this.canvasWidth = 200
+    this.canvas = document.getElementById(canvasId) as HTMLCanvasElement
+    this.layout()
+
+    this.lastStepAt = performance.now()
+    this.labels = []
+    this.newHighScoreDate = null
+    this.boardCopiedAt = -Infinity
+
+    this.keyBindings = normalizeBindings(this.store.get('keyBindings'))
+    this.versusBindings =
+      normalizeVersusBindings(this.store.get('versusBindings'))
+    this.gamepads = new Gamepads(this.store.get('padBindings') || {})
+    this.padCapture = false
+    this.heldSources = []
+    for (let i = 0; i < Versus.PLAYERS; i++) {
+      this.heldSources.push({ moveLeft: [], moveRight: [], moveDown: [] })
+    }
+    this.replayStore = new Store({
+      configName: 'replays',
+      defaults: {
+        replays: []
+      }
+    })
+
+    // Init functions
+    this.emitHighScores()
+    this.emitStoreRecoveries()
+    this.handleEvents()
+    this.handleBridgeEvents()
+    this.emitReplays()
+    this.emitSuspendedGame()
+    this.emitGameMode()
+    this.emitClearGravity()
+    this.emitRules()
+    this.emitVersusState()
+    this.emitNetState()
+    this.emitBotState()
+    this.emitKeyBindings()
+    this.emitVersusBindings()
+    this.emitGamepads()
+    this.emitHandling()
+    this.startLoop()
+  }
+
+  /**
+   * This method advances the engine by the time that has passed since the last
+   * step, applies the given inputs and redraws the canvas. While a replay is
+   * playing, the replay moves forward instead and the inputs are ignored. In
+   * a versus match, both players' engines move forward; in a network versus
+   * match, the user's engine does, telling the opponent about it. While the
+   * AI plays, its moves are applied along with the user's inputs.
+   * @param inputs These are the actions the user just performed.
+   * @param [player] This is the versus player who performed them.
+   */
+  step(inputs: EngineInput[] = [], player = 0) {
+    const now = performance.now()
+    // Only simulate whole milliseconds so that the times we record can be
+    // replayed exactly
+    const dt = Math.floor(now - this.lastStepAt)
+    this.lastStepAt += dt
+    if (this.player !== null) {
+      this.player.advance(dt)
+      if (this.player.isFinished()) this.player.paused = true
+      this.engine = this.player.engine
+      this.emitReplayState()
+    } else if (this.versus !== null) {
+      const inputsByPlayer: EngineInput[][] = []
+      inputsByPlayer[player] = inputs
+      if (this.versus.step(inputsByPlayer, dt)) this.emitVersusState()
+    } else if (this.net !== null) {
+      this.net.step(inputs, dt)
+    } else if (this.bot !== null) {
+      this.engine.step(inputs.concat(this.bot.getInputs(this.engine, dt)), dt)
+    } else {
+      this.engine.step(inputs, dt)
+      if (this.recorder !== null) {
+        const len = inputs.length
+        for (let i = 0; i < len; i++) {
+          this.recorder.record(this.engine.time, inputs[i])
+        }
+      }
+      if (this.engine.gameOver) this.saveReplay()
+    }
+    // Start floating the new awards up the well of the board they were given
+    // out on
+    const engines = this.versus !== null ? this.versus.engines : [this.engine]
+    engines.forEach((engine, p) => {
+      const awards = engine.awards.splice(0)
+      const len = awards.length
+      for (let i = 0; i < len; i++) {
+        this.labels.push({ award: awards[i], shownAt: now, player: p })
+      }
+    })
+    this.draw()
+  }
+
+  /**
+   * This method starts a new game, saving the replay of the current one first
+   * so it isn't lost.
+   */
+  reset() {
+    this.saveReplay()
+    this.engine.setHandling(this.engineOpts)
+    this.engine.reset()
+    this.recorder = new ReplayRecorder(this.engineOpts, this.engine.seed)
+    this.updateScore = true
+    this.newHighScoreDate = null
+    this.step()
+  }
+
+  /**
+   * This method reads the game mode, clear gravity and rules the user last
+   * picked from the Store.
+   * @returns The engine options saved; the ones never saved are left out.
+   */
+  readSavedRules(): EngineOpts {
+    const opts: EngineOpts = Object.assign({}, this.store.get('rules'))
+    const mode = this.store.get('mode')
+    if (isGameMode(mode)) opts.mode = mode
+    const clearGravity = this.store.get('clearGravity')
+    if (CLEAR_GRAVITIES.indexOf(clearGravity) !== -1) {
+      opts.clearGravity = clearGravity
+    }
+    return opts
+  }
+
+  /**
+   * This method reads how fast the AI plays from the Store, unless it was
+   * never saved.
+   */
+  readSavedBotSpeed() {
+    const botSpeed = this.store.get('botSpeed')
+    if (BOT_SPEEDS.indexOf(botSpeed) === -1) return
+    this.botSpeed = botSpeed
+    if (this.bot !== null) this.bot.speed = botSpeed
+  }
+
+  /**
+   * This method starts a new game in the given game mode, which new games
+   * keep being played in from then on.
+   * @param mode This is the game mode to play.
+   */
+  setGameMode(mode: GameMode) {
+    if (!isGameMode(mode)) return
+    this.store.set('mode', mode)
+    this.changeRules({ mode })
+  }
+
+  /**
+   * This method starts a new game with the given clear gravity, which new
+   * games keep being played with from then on.
+   * @param clearGravity This is how the blocks above eliminated rows fall.
+   */
+  setClearGravity(clearGravity: ClearGravity) {
+    if (CLEAR_GRAVITIES.indexOf(clearGravity) === -1) return
+    this.store.set('clearGravity', clearGravity)
+    this.changeRules({ clearGravity })
+  }
+
+  /**
+   * This method starts a new game with some of the rules a player picks
+   * changed, which new games keep being played with from then on.
+   * @param rules These are the rules to change.
+   */
+  setRules(rules: Partial<RuleOpts>) {
+    const normalized =
+      Engine.normalizeRules(Object.assign({}, this.engineOpts, rules))
+    this.store.set('rules', normalized)
+    this.changeRules(normalized)
+  }
+
+  /**
+   * This method starts a new game with some of the rules changed, saving the
+   * replay of the current one first. This also ends the versus match, local
+   * or over the network, if one is played, and the game the AI plays.
+   * @param rules These are the engine options to change.
+   */
+  changeRules(rules: EngineOpts) {
+    this.closeNet()
+    this.stopReplay()
+    this.saveReplay()
+    this.releaseAll()
+    this.engineOpts = Object.assign({}, this.engineOpts, rules)
+    // The rules of an engine can't change, so the new game gets a new one
+    this.engine = new Engine(this.engineOpts)
+    this.liveEngine = this.engine
+    this.recorder = new ReplayRecorder(this.engineOpts, this.engine.seed)
+    this.versus = null
+    this.bot = null
+    this.labels = []
+    this.updateScore = true
+    this.newHighScoreDate = null
+    this.layout()
+    this.emitGameMode()
+    this.emitClearGravity()
+    this.emitRules()
+    this.emitVersusState()
+    this.emitNetState()
+    this.emitBotState()
+    this.emitHighScores()
+    this.step()
+  }
+
+  /**
+   * This method starts a local versus match in place of the live game, whose
+   * replay gets saved first. Rounds are played in Marathon with the rest of
+   * the rules new games are played with. Versus rounds aren't recorded: the
+   * garbage each player gets depends on the other.
+   * @param bestOf This is the number of rounds the match is the best of.
+   */
+  startVersus(bestOf: number) {
+    this.leaveNet()
+    this.stopBot()
+    this.stopReplay()
+    this.saveReplay()
+    this.releaseAll()
+    const rules: EngineOpts = { mode: 'marathon', devModeOn: false }
+    this.versus =
+      new Versus(Object.assign({}, this.engineOpts, rules), bestOf)
+    this.engine = this.versus.engines[0]
+    this.labels = []
+    this.layout()
+    this.emitVersusState()
+    this.step()
+  }
+
+  /**
+   * This method ends the versus match being played, if any, and starts a new
+   * game in its place.
+   */
+  stopVersus() {
+    if (this.versus === null) return
+    this.changeRules({})
+  }
+
+  /**
+   * This method pauses or resumes the round of the versus match for both
+   * players. Once the round is over, this starts the next one instead, or a
+   * new match once the match was won.
+   */
+  pauseVersus() {
+    const versus = this.versus
+    if (versus === null) return
+    // Catch both engines up before pausing them
+    this.step()
+    if (versus.roundWinner !== null) {
+      this.releaseAll()
+      versus.next()
+      versus.setPaused(false)
+      this.engine = versus.engines[0]
+      this.labels = []
+      this.emitVersusState()
+    } else {
+      versus.setPaused(!versus.isPaused())
+    }
+    this.draw()
+  }
+
+  /**
+   * This method hosts a network versus match from the main process, in place
+   * of the live game, then joins it as its first player. Like local versus
+   * rounds, network ones are played in Marathon and aren't recorded.
+   * @param port This is the port to host the match on.
+   * @param bestOf This is the number of rounds the match is the best of.
+   */
+  hostNet(port: number, bestOf: number) {
+    const net = this.startNet(bestOf)
+    if (Math.floor(port) !== port || port < 1 || port > 65535) {
+      net.fail('The port must be a number from 1 to 65535.')
+      return
+    }
+    electron.ipcRenderer.once('netHosted',
+      (_event: any, hosted: { error: string | null, addresses: string[] }) => {
+        // The user may have left the match in the meantime
+        if (this.net !== net) return
+        if (hosted.error !== null) {
+          net.fail('Couldn\'t host: ' + hosted.error)
+          return
+        }
+        net.addresses = hosted.addresses
+        net.connect('localhost:' + port)
+      })
+    electron.ipcRenderer.send('hostNet', port)
+  }
+
+  /**
+   * This method joins the network versus match hosted at an address, in
+   * place of the live game.
+   * @param address This is the host:port the match is hosted at.
+   */
+  joinNet(address: string) {
+    // The host picks how many rounds the match is the best of
+    this.startNet(3).connect(address.trim())
+  }
+
+  /**
+   * This method leaves the network versus match being played, if any, and
+   * starts a new game in its place.
+   */
+  leaveNet() {
+    if (this.net === null) return
+    this.changeRules({})
+  }
+
+  /**
+   * This method sets up a network versus match in place of the live game,
+   * whose replay gets saved first, and of the match played before.
+   * @param bestOf This is the number of rounds the match is the best of.
+   * @returns The match, which has yet to connect to its host.
+   */
+  startNet(bestOf: number) {
+    this.closeNet()
+    this.stopVersus()
+    this.stopBot()
+    this.stopReplay()
+    this.saveReplay()
+    this.releaseAll()
+    const rules: EngineOpts = { mode: 'marathon', devModeOn: false }
+    const net: NetMatch = new NetMatch(
+      Object.assign({}, this.engineOpts, rules), bestOf, () => {
+        // Each round is played on an engine of its own
+        if (this.engine !== net.engine) {
+          this.releaseAll()
+          this.engine = net.engine
+          this.labels = []
+        }
+        this.emitNetState()
+      })
+    this.net = net
+    this.engine = net.engine
+    this.labels = []
+    this.layout()
+    this.emitNetState()
+    this.step()
+    return net
+  }
+
+  /**
+   * This method disconnects from the network versus match being played, if
+   * any, and stops hosting it. Hosting a match that isn't played anymore
+   * would only keep its port taken.
+   */
+  closeNet() {
+    if (this.net === null) return
+    this.net.close()
+    this.net = null
+    electron.ipcRenderer.send('stopHostingNet')
+  }
+
+  /**
+   * This method starts a game played by the AI in place of the live game,
+   * whose replay gets saved first, for the user to watch. The AI plays by
+   * the rules new games are played with; its games aren't recorded and don't
+   * make it into the high scores.
+   */
+  watchBot() {
+    this.leaveNet()
+    this.stopVersus()
+    this.stopReplay()
+    this.saveReplay()
+    this.releaseAll()
+    const rules: EngineOpts = { devModeOn: false }
+    this.engine = new Engine(Object.assign({}, this.engineOpts, rules))
+    this.engine.step(['resume'], 0)
+    this.bot = new BotPlayer(new HeuristicBot(), this.botSpeed)
+    this.labels = []
+    this.layout()
+    this.emitBotState()
+    this.step()
+  }
+
+  /**
+   * This method stops the game the AI plays, if any, and starts a new game in
+   * its place.
+   */
+  stopBot() {
+    if (this.bot === null) return
+    this.changeRules({})
+  }
+
+  /**
+   * This method changes how fast the AI plays and saves it.
+   * @param speed This is the number of moves the AI makes per second.
+   */
+  setBotSpeed(speed: number) {
+    if (BOT_SPEEDS.indexOf(speed) === -1) return
+    this.botSpeed = speed
+    this.store.set('botSpeed', speed)
+    if (this.bot !== null) this.bot.speed = speed
+    this.emitBotState()
+  }
+
+  /**
+   * This method saves the replay of the current game, unless it was already
+   * saved, nothing was played, or it was tampered with in Developer Mode.
+   */
+  saveReplay() {
+    const recorder = this.recorder
+    if (recorder === null) return
+    this.recorder = null
+    if (this.devModeOn || !recorder.hasMoves()) return
+
+    this.keepReplay(recorder.finish(this.engine))
+  }
+
+  /**
+   * This method adds a replay to the saved ones, dropping the oldest ones
+   * beyond {@link Game.MAX_REPLAYS}.
+   * @param replay This is the replay to save.
+   */
+  keepReplay(replay: Replay) {
+    const replays = this.getReplays()
+    replays.unshift(replay)
+    replays.sort((a, b) => b.recordedAt - a.recordedAt)
+    replays.splice(Game.MAX_REPLAYS)
+    this.replayStore.set('replays', replays)
+    this.emitReplays()
+  }
+
+  /**
+   * This method saves the live game so it can be resumed the next time the
+   * app starts. It's stored as a snapshot of the engine, with the very same
+   * board, fragments, queue, score and timers, along with its replay so far.
+   * Games which are over, untouched or tampered with in Developer Mode aren't
+   * worth resuming.
+   */
+  suspend() {
+    this.releaseAll()
+    const engine = this.liveEngine
+    const recorder = this.recorder
+    let suspended: SuspendedGame | null = null
+    if (recorder !== null && recorder.hasMoves() && !engine.gameOver &&
+      !this.devModeOn) {
+      // The game is resumed paused, so it's suspended paused too
+      if (!engine.paused) {
+        engine.step(['pause'], 0)
+        recorder.record(engine.time, 'pause')
+      }
+      suspended = {
+        snapshot: engine.getSnapshot(),
+        replay: recorder.finish(engine)
+      }
+    }
+    this.replayStore.set('suspended', suspended)
+    // The Store flushed itself before we were told the window is closing
+    this.replayStore.flush()
+  }
+
+  /**
+   * This method resumes the game that was suspended when the app was last
+   * closed, in place of the current one whose replay gets saved first. The
+   * engine is rebuilt from its snapshot, paused, and the recording of its
+   * replay goes on.
+   */
+  resumeGame() {
+    const suspended: SuspendedGame | null = this.replayStore.get('suspended')
+    if (!suspended) return
+    this.replayStore.set('suspended', null)
+    this.stopReplay()
+    this.saveReplay()
+
+    // The game goes on with the handling it was recorded with, like any game
+    // the handling changed in the middle of, or its replay would go astray
+    const engine = Engine.fromSnapshot(suspended.snapshot, Object.assign({},
+      this.engineOpts, Engine.normalizeHandling(suspended.replay.settings)))
+    this.recorder = ReplayRecorder.resume(suspended.replay)
+    this.closeNet()
+    this.engine = engine
+    this.liveEngine = engine
+    this.versus = null
+    this.bot = null
+    // New games go on with the rules of the resumed one
+    const rules = engine.getRules()
+    this.engineOpts = Object.assign({}, this.engineOpts, rules,
+      { mode: engine.mode, clearGravity: engine.clearGravity })
+    this.store.set('mode', engine.mode)
+    this.store.set('clearGravity', engine.clearGravity)
+    this.store.set('rules', rules)
+    this.releaseAll()
+    this.labels = []
+    this.updateScore = true
+    this.newHighScoreDate = null
+    this.layout()
+    this.emitSuspendedGame()
+    this.emitGameMode()
+    this.emitClearGravity()
+    this.emitRules()
+    this.emitVersusState()
+    this.emitNetState()
+    this.emitBotState()
+    this.emitHighScores()
+    this.step()
+  }
+
+  /**
+   * This method gives up on the game that was suspended when the app was last
+   * closed. Like any unfinished game, its replay is kept.
+   */
+  discardGame() {
+    const suspended: SuspendedGame | null = this.replayStore.get('suspended')
+    if (!suspended) return
+    this.replayStore.set('suspended', null)
+    this.keepReplay(suspended.replay)
+    this.emitSuspendedGame()
+  }
+
+  /**
+   * This method plays a saved replay in place of the live game, which gets
+   * paused until the replay is stopped.
+   * @param recordedAt This identifies the replay to play.
+   */
+  playReplay(recordedAt: number) {
+    const replay = this.getReplays().filter(
+      (r) => r.recordedAt === recordedAt)[0]
+    if (!replay) return
+    this.stopVersus()
+    this.leaveNet()
+    this.stopBot()
+    if (this.player === null) {
+      this.releaseAll()
+      if (!this.engine.paused) this.step(['pause'])
+    }
+    this.player = new ReplayPlayer(replay)
+    this.engine = this.player.engine
+    this.labels = []
+    this.layout()
+    this.step()
+  }
+
+  /**
+   * This method pauses, changes the speed of or seeks the replay playing.
+   * @param control These are the changes to make; anything left undefined
+   *     stays as is.
+   */
+  controlReplay(control: BridgeEvents['controlReplay']) {
+    const player = this.player
+    if (player === null) return
+    if (control.speed !== undefined) player.setSpeed(control.speed)
+    if (control.seekTo !== undefined) {
+      player.seek(control.seekTo)
+      // Don't float up every award given out along the way
+      player.engine.awards = []
+      this.labels = []
+    }
+    if (control.paused !== undefined) {
+      // Playing a finished replay starts it over
+      if (!control.paused && player.isFinished()) player.seek(0)
+      player.paused = control.paused
+    }
+    this.step()
+  }
+
+  /**
+   * This method stops the replay playing and goes back to the live game, which
+   * is left paused.
+   */
+  stopReplay() {
+    if (this.player === null) return
+    this.player = null
+    this.engine = this.liveEngine
+    this.labels = []
+    this.layout()
+    this.emitReplayState()
+    this.step()
+  }
+
+  /**
+   * This method creates a requestAnimationFrame loop which keeps stepping our
+   * engine, so gravity and falling fragments happen in real time. Controllers
+   * are polled at the same pace.
+   */
+  startLoop() {
+    // safe guard to prevent multiple loops from spawning before cancelling it
+    // first
+    window.cancelAnimationFrame(this.loop)
+
+    const frame = () => {
+      this.pollGamepads()
+      this.step()
+      this.loop = window.requestAnimationFrame(frame)
+    }
+    this.loop = window.requestAnimationFrame(frame)
+  }
+
+  /**
+   * This method sizes the canvas and its panels around the well. Everything is
+   * derived from canvasWidth and the dimensions of the board of the engine
+   * shown, so it needs to be called again whenever another engine is shown.
+   * A versus match shows a board per player, and no side panels to make room
+   * for them; a network versus match shows the opponent's board in a
+   * miniature well, half the size of the user's.
+   */
+  layout() {
+    // Assume block width and height will always be the same:
+    this.blockS = this.canvasWidth / this.engine.cols
+    this.previewS = Math.round(this.blockS * 0.6)
+
+    // The top panel fits a line of text above a held Tet, which is at most 2
+    // blocks tall
+    this.panelHeight = 4 * this.blockS
+    this.wellTop = this.panelHeight - this.engine.hiddenRows * this.blockS
+    // The next queue column fits the widest Tet (I) with a block of margin
+    this.sideWidth = 6 * this.previewS
+
+    this.miniS = this.blockS / 2
+
+    const boards = this.versus !== null ? this.versus.engines.length : 1
+    this.canvas.width = boards * (this.canvasWidth + this.sideWidth)
+    if (this.net !== null) {
+      // The miniature well has a block of margin on either side
+      this.canvas.width += (this.engine.cols + 2) * this.miniS
+    }
+    document.body.classList.toggle('versus',
+      this.versus !== null || this.net !== null)
+    this.canvas.height =
+      this.panelHeight + this.engine.rows * this.blockS
+  }
+
+  /**
+   * This method creates 3 event listeners (2 for the window and 1 for the
+   * document). The 2 events for the window are onblur and onfocus. These will
+   * pause the game when you leave the game window and resume it when you come
+   * back. The event for the document listens for onkeydown events. These
+   * basically allow the user to interact with the game.
+   */
+  handleEvents() {
+    const that = this
+    // Pause if we lose focus of the game. Resume once we get focus back. We
+    // don't need the Page Visibility API because we don't have a resource
+    // intensive game while it's idle
+    let pausedBeforeBlur = true
+    window.onblur = () => {
+      // We won't hear about keys being let go of while we're not focused
+      that.releaseAll()
+      // The opponent of a network versus match plays on regardless
+      if (that.net !== null) return
+      if (that.versus !== null) {
+        // Once the round is over, pausing would start the next one instead
+        pausedBeforeBlur = that.versus.isPaused()
+        if (!pausedBeforeBlur && that.versus.roundWinner === null) {
+          that.pauseVersus()
+        }
+      } else if (that.player === null && that.engine.gameOver === false) {
+        pausedBeforeBlur = that.engine.paused
+        that.step(['pause'])
+      }
+    }
+    window.onfocus = () => {
+      this.canvas.focus()
+      this.canvas.blur()
+      if (that.net !== null) return
+      if (that.versus !== null) {
+        if (!pausedBeforeBlur && that.versus.roundWinner === null &&
+          that.versus.isPaused()) {
+          that.pauseVersus()
+        }
+      } else if (that.player === null && !pausedBeforeBlur &&
+        that.engine.gameOver === false) {
+        that.step(['resume'])
+      }
+    }
+    // Keep the game that's being played to be resumed next time
+    window.addEventListener('beforeunload', () => that.suspend())
+
+    // Handle key events
+    // For keycodes: http://www.javascripter.net/faq/keycodes.htm
+    // The actions are looked up in the user's key bindings; the developer's
+    // controls are fixed
+    document.onkeydown = (e) => {
+      // Leave the keys typed into the UI's fields alone
+      if (e.target instanceof HTMLInputElement ||
+        e.target instanceof HTMLSelectElement) {
+        return
+      }
+      const bound = that.findKeyAction(e.code)
+      // Escape goes back to the live game from a replay
+      if (that.player !== null && e.keyCode === 27) {
+        that.stopReplay()
+        return
+      }
+      if (bound !== null) {
+        // Holding a key down repeats its move by the game's own rules, not
+        // the operating system's
+        if (!e.repeat) {
+          that.pressAction(bound.action, 'key:' + e.code, bound.player)
+        }
+        return
+      }
+      if (that.player !== null || that.versus !== null || that.net !== null ||
+        that.bot !== null) {
+        return
+      }
+      const engine = that.engine
+      switch (e.keyCode) {
+        // Developer's Controls
+        case 35: // end key to move Tet up
+          that.step(['moveUp'])
+          break
+        case 48: case 49: case 50: case 51: case 52: // test cases found in testCases.ts
+        case 53: case 54: case 55: case 56: case 57: // number keys 0 to 9 (not numpad)
+          if (that.devModeOn) {
+            engine.loadScenario(TEST_CASES[e.keyCode - 48])
+            that.updateScore = true
+            that.labels = []
+            that.step()
+          }
+          break
+        case 66: // b to copy the board as a fixture, e.g. for bug reports
+          if (that.devModeOn) {
+            electron.clipboard.writeText(
+              JSON.stringify(serializeBoard(engine), null, 2))
+            that.boardCopiedAt = performance.now()
+            that.draw()
+          }
+          break
+        case 71: // g for game over
+          if (that.devModeOn) {
+            engine.endGame('toppedOut')
+            // engine.score = 1939999955999999 // near max
+            engine.score = Math.random() * 100000
+            that.updateScore = true
+            that.draw()
+          }
+          break
+        case 72: // h to reset high score to zero
+          if (that.devModeOn) {
+            that.setHighScores({})
+            that.emitHighScores()
+            that.draw()
+          }
+          break
+        case 192: // tilde key to toggle dev mode
+          that.devModeOn = that.devModeOn
+          engine.devModeOn = that.devModeOn
+          that.draw()
+          break
+        default:
+          console.log('unrecognized key: ' + e.code)
+      }
+    }
+    document.onkeyup = (e) => {
+      that.releaseAction('key:' + e.code)
+    }
+  }
+
+  /**
+   * This method finds which action a key is bound to, and for which player:
+   * in a versus match, each player has keys of their own.
+   * @param code This is the key, as given by KeyboardEvent.code.
+   * @returns The action and the player, or null if the key isn't bound.
+   */
+  findKeyAction(code: string) {
+    if (this.versus === null) {
+      const action = findAction(this.keyBindings, code)
+      return action !== null ? { action, player: 0 } : null
+    }
+    const len = this.versusBindings.length
+    for (let player = 0; player < len; player++) {
+      const action = findAction(this.versusBindings[player], code)
+      if (action !== null) return { action, player }
+    }
+    return null
+  }
+
+  /**
+   * This method handles a key or button being pressed down.
+   * @param action This is the action bound to the key or button.
+   * @param source This identifies the key or button, e.g. 'key:ArrowLeft'.
+   * @param [player] This is the versus player the key or button belongs to.
+   */
+  pressAction(action: GameAction, source: string, player = 0) {
+    const held = this.heldSources[player]
+    if (action in held) {
+      const sources = held[action]
+      if (sources.indexOf(source) > -1) return
+      sources.push(source)
+      // The move is already held down by another key or button
+      if (sources.length > 1) return
+    }
+    this.performAction(action, player)
+  }
+
+  /**
+   * This method handles a key or button being let go of, releasing the move
+   * it was holding down, if any.
+   * @param source This identifies the key or button, e.g. 'key:ArrowLeft'.
+   */
+  releaseAction(source: string) {
+    this.heldSources.forEach((held, player) => {
+      Object.keys(held).forEach((action) => {
+        const sources = held[action]
+        const i = sources.indexOf(source)
+        if (i === -1) return
+        sources.splice(i, 1)
+        if (sources.length === 0 && this.player === null) {
+          this.step([Engine.RELEASE_INPUTS[action]], player)
+        }
+      })
+    })
+  }
+
+  /**
+   * This method releases every move held down, as if every key and button
+   * were let go of.
+   */
+  releaseAll() {
+    this.heldSources.forEach((held) => {
+      Object.keys(held).forEach((action) => {
+        held[action].slice().forEach((source) => this.releaseAction(source))
+      })
+    })
+  }
+
+  /**
+   * This method does what the user asked for by pressing a key or a
+   * controller button. In a network versus match, pausing goes for both
+   * players, and the host starts every round by pausing.
+   * @param action This is the action bound to the key or button.
+   * @param [player] This is the versus player who asked for it.
+   */
+  performAction(action: GameAction, player = 0) {
+    // In a versus match, pausing goes for both players, and restarting is
+    // only possible by ending the match
+    if (this.versus !== null) {
+      if (action === 'pause') this.pauseVersus()
+      else if (action !== 'reset') this.step([action], player)
+    } else if (this.net !== null) {
+      if (action === 'pause') {
+        // Catch the engine up before pausing it
+        this.step()
+        this.net.pause()
+        this.draw()
+      } else if (action !== 'reset') {
+        this.step([action])
+      }
+    } else if (this.bot !== null) {
+      // While the AI plays, the user can only pause its game, or have it play
+      // another one
+      if (action === 'reset' || (action === 'pause' && this.engine.gameOver)) {
+        this.watchBot()
+      } else if (action === 'pause') {
+        this.step([this.engine.paused ? 'resume' : 'pause'])
+      }
+    } else if (this.player !== null) {
+      // While a replay is playing, only the replay can be controlled
+      if (action === 'pause') {
+        this.controlReplay({ paused: !this.player.paused })
+      }
+    } else if (action === 'pause') {
+      this.step([this.engine.paused ? 'resume' : 'pause'])
+    } else if (action === 'reset') {
+      this.reset()
+    } else {
+      this.step([action])
+    }
+  }
+
+  /**
+   * This method reads the controllers and acts on their buttons, or sends the
+   * buttons pressed to the settings panel when it's waiting for one. In a
+   * versus match, the first controller connected is the first player's and
+   * the second one the second player's.
+   */
+  pollGamepads() {
+    const poll = this.gamepads.poll()
+    if (poll.plugged) this.emitGamepads()
+    poll.released.forEach((pressed) =>
+      this.releaseAction('pad:' + pressed.index + ':' + pressed.button))
+    poll.pressed.forEach((pressed) => {
+      if (this.padCapture) {
+        emit('gamepadButton', pressed)
+        return
+      }
+      const player = this.versus !== null
+        ? this.gamepads.getPosition(pressed.index) : 0
+      if (player >= Versus.PLAYERS) return
+      const bindings = this.gamepads.getBindings(pressed.id)
+      const action = findPadAction(bindings, pressed.button)
+      if (action !== null) {
+        this.pressAction(action,
+          'pad:' + pressed.index + ':' + pressed.button, player)
+      }
+    })
+  }
+
+  /**
+   * This method changes the buttons bound to each action of a controller and
+   * saves them.
+   * @param id This is the Gamepad.id of the controller.
+   * @param bindings These are the new button bindings.
+   */
+  setPadBindings(id: string, bindings: PadBindings) {
+    this.gamepads.bindings[id] = normalizePadBindings(bindings)
+    this.store.set('padBindings', this.gamepads.bindings)
+    this.emitGamepads()
+  }
+
+  /**
+   * This method changes how held movement keys repeat and saves it. Since a
+   * replay can only have one handling, this applies from the next game on
+   * unless the current one hasn't started yet.
+   * @param handling This is the new handling.
+   */
+  setHandling(handling: HandlingOpts) {
+    const normalized = Engine.normalizeHandling(handling)
+    this.engineOpts = Object.assign({}, this.engineOpts, normalized)
+    this.store.set('handling', normalized)
+    if (this.recorder === null || !this.recorder.hasMoves()) {
+      this.liveEngine.setHandling(this.engineOpts)
+      if (this.recorder !== null) {
+        this.recorder =
+          new ReplayRecorder(this.engineOpts, this.liveEngine.seed)
+      }
+    }
+    this.emitHandling()
+  }
+
+  /**
+   * This method changes the keys bound to each action and saves them.
+   * @param bindings These are the new key bindings.
+   */
+  setKeyBindings(bindings: KeyBindings) {
+    this.keyBindings = normalizeBindings(bindings)
+    this.store.set('keyBindings', this.keyBindings)
+    this.emitKeyBindings()
+  }
+
+  /**
+   * This method changes the keys bound to each action of each versus player
+   * and saves them.
+   * @param bindings These are the new key bindings, by player.
+   */
+  setVersusBindings(bindings: KeyBindings[]) {
+    this.releaseAll()
+    this.versusBindings = normalizeVersusBindings(bindings)
+    this.store.set('versusBindings', this.versusBindings)
+    this.emitVersusBindings()
+  }
+
+  /**
+   * This method exports all of the saved data to a file the user picks.
+   */
+  exportData() {
+    try {
+      const filePath = exportBundle(
+        createBundle(this.store.snapshot(), this.replayStore.snapshot()))
+      if (filePath !== null) {
+        emit('dataTransfer', { ok: true, message: 'Exported to ' + filePath })
+      }
+    } catch (error) {
+      emit('dataTransfer', {
+        ok: false,
+        message: 'Couldn\'t export: ' + error.message
+      })
+    }
+  }
+
+  /**
+   * This method imports the saved data of a file the user picks, then puts
+   * the imported settings to use right away: a new game starts if the
+   * imported rules aren't the ones being played.
+   * @param mode This is whether to merge the imported data with the data
+   *     already saved or to replace it.
+   */
+  importData(mode: ImportMode) {
+    let config: any
+    let replays: any
+    try {
+      const bundle = importBundle()
+      if (bundle === null) return
+      const problems = validateBundle(bundle)
+      if (problems.length > 0) {
+        emit('dataTransfer', { ok: false, message: problems.join(' ') })
+        return
+      }
+      config = this.store.upgrade(bundle.config)
+      replays = this.replayStore.upgrade(bundle.replays)
+      if (mode === 'merge') {
+        config = mergeConfig(this.store.snapshot().data, config)
+        replays = mergeReplays(this.replayStore.snapshot().data, replays,
+          Game.MAX_REPLAYS)
+      }
+    } catch (error) {
+      emit('dataTransfer', {
+        ok: false,
+        message: 'Couldn\'t import: ' + error.message
+      })
+      return
+    }
+    this.store.replace(config)
+    this.replayStore.replace(replays)
+
+    this.keyBindings = normalizeBindings(this.store.get('keyBindings'))
+    this.versusBindings =
+      normalizeVersusBindings(this.store.get('versusBindings'))
+    this.gamepads.bindings = this.store.get('padBindings') || {}
+    this.setHandling(this.store.get('handling') || {})
+    this.readSavedBotSpeed()
+    // New games are played by the imported rules, starting with one right
+    // away if they differ from the rules being played
+    const engineOpts = Object.assign({}, this.engineOpts, this.readSavedRules())
+    const live = this.liveEngine
+    if ((engineOpts.mode || 'marathon') !== live.mode ||
+      (engineOpts.clearGravity || 'sticky') !== live.clearGravity ||
+      JSON.stringify(Engine.normalizeRules(engineOpts)) !==
+      JSON.stringify(live.getRules())) {
+      this.changeRules(engineOpts)
+    } else {
+      this.engineOpts = engineOpts
+    }
+    this.emitGameMode()
+    this.emitClearGravity()
+    this.emitRules()
+    this.emitBotState()
+    this.emitKeyBindings()
+    this.emitVersusBindings()
+    this.emitGamepads()
+    this.emitHighScores()
+    this.emitReplays()
+    this.emitSuspendedGame()
+    emit('dataTransfer', {
+      ok: true,
+      message: mode === 'merge' ? 'Imported and merged.' : 'Imported.'
+    })
+  }
+
+  /**
+   * This method listens to what the React UI asks of the game through the
+   * bridge.
+   */
+  handleBridgeEvents() {
+    on('requestKeyBindings', () => this.emitKeyBindings())
+    on('setKeyBindings', (bindings) => this.setKeyBindings(bindings))
+    on('requestVersusBindings', () => this.emitVersusBindings())
+    on('setVersusBindings', (bindings) => this.setVersusBindings(bindings))
+    on('requestHandling', () => this.emitHandling())
+    on('setHandling', (handling) => this.setHandling(handling))
+    on('requestGamepads', () => this.emitGamepads())
+    on('setPadBindings', (pad) => this.setPadBindings(pad.id, pad.bindings))
+    on('captureGamepad', (capture) => { this.padCapture = capture })
+    on('requestReplays', () => this.emitReplays())
+    on('playReplay', (recordedAt) => this.playReplay(recordedAt))
+    on('controlReplay', (control) => this.controlReplay(control))
+    on('stopReplay', () => this.stopReplay())
+    on('requestHighScores', () => this.emitHighScores())
+    on('requestStoreRecoveries', () => this.emitStoreRecoveries())
+    on('requestSuspendedGame', () => this.emitSuspendedGame())
+    on('resumeGame', () => this.resumeGame())
+    on('discardGame', () => this.discardGame())
+    on('requestGameMode', () => this.emitGameMode())
+    on('setGameMode', (mode) => this.setGameMode(mode))
+    on('requestClearGravity', () => this.emitClearGravity())
+    on('setClearGravity', (clearGravity) => this.setClearGravity(clearGravity))
+    on('requestRules', () => this.emitRules())
+    on('setRules', (rules) => this.setRules(rules))
+    on('requestVersusState', () => this.emitVersusState())
+    on('startVersus', (bestOf) => this.startVersus(bestOf))
+    on('stopVersus', () => this.stopVersus())
+    on('requestNetState', () => this.emitNetState())
+    on('hostNet', (host) => this.hostNet(host.port, host.bestOf))
+    on('joinNet', (address) => this.joinNet(address))
+    on('leaveNet', () => this.leaveNet())
+    on('requestBotState', () => this.emitBotState())
+    on('watchBot', () => this.watchBot())
+    on('stopBot', () => this.stopBot())
+    on('setBotSpeed', (speed) => this.setBotSpeed(speed))
+    on('exportData', () => this.exportData())
+    on('importData', (mode) => this.importData(mode))
+    on('nameHighScore', (entry) =>
+      this.nameHighScore(entry.mode, entry.date, entry.name))
+  }
+
+  /**
+   * This method sends the keys bound to each action to the React UI.
+   */
+  emitKeyBindings() {
+    emit('keyBindings', this.keyBindings)
+  }
+
+  /**
+   * This method sends the keys bound to each action of each versus player to
+   * the React UI.
+   */
+  emitVersusBindings() {
+    emit('versusBindings', this.versusBindings)
+  }
+
+  /**
+   * This method sends how held movement keys repeat to the React UI.
+   */
+  emitHandling() {
+    emit('handling', Engine.normalizeHandling(this.engineOpts))
+  }
+
+  /**
+   * This method sends the connected controllers to the React UI.
+   */
+  emitGamepads() {
+    emit('gamepads', this.gamepads.getConnected())
+  }
+
   /**
-   * This is the array of array of numbers which we are going to populate with
-   * our allTets to be able to detect Tet collision.
+   * This method sends the summaries of the saved replays to the React UI.
    */
-  private landed: number[][]
-  /** TODO: Add comment */
-  private paused: boolean
+  emitReplays() {
+    emit('replays', this.getReplays().map((r) => this.summarizeReplay(r)))
+  }
+
   /**
-   * This is the name of the high score list DOM element for which we are going
-   * to show our user their past high scores.
+   * This method tells the React UI about the game suspended when the app was
+   * last closed, if any, so it can offer to resume it.
    */
-  private highScoresListId: string
-
-  private store: Store
+  emitSuspendedGame() {
+    const suspended: SuspendedGame | null = this.replayStore.get('suspended')
+    emit('suspendedGame',
+      suspended ? this.summarizeReplay(suspended.replay) : null)
+  }
 
   /**
-   * Represents all of the functions which generate and control the game board.
-   * We use the {@link Tet} class to manipulate our Tets.
-   * @param canvasId This is the id of the canvas element within the document
-   *     from which this Game class was created.
-   * @param highScoresListId This is the id of the list for which we are going
-   *     to list out the user's past high scores.
-   * @param [devMode] This is the option to set the game to be initially in
-   *     Developer's Mode.
+   * This method tells the React UI which game mode is being played.
    */
-  constructor(canvasId: string, highScoresListId: string, devModeOn = false) {
-    // Force instantiation
-    if (!(this instanceof Game)) {
-      return new Game(canvasId, highScoresListId, devModeOn)
-    }
-
-    // TODO: Add ability to pass in {options}
-    this.devModeOn = devModeOn
-    this.newTet = true
-    this.currTet = null
-    this.nextTet = null
-    this.updateLanded = true
-    this.allTets = []
-    this.tetsToRemove = []
-    this.score = 0
-    this.updateScore = true
+  emitGameMode() {
+    emit('gameMode', this.liveEngine.mode)
+  }
 
-    // Private vars
-    this.dropInterval = 750 // 750
-    this.gameOver = false
-    this.canvasWidth = 200
+  /**
+   * This method tells the React UI how the blocks above eliminated rows fall
+   * in the game being played.
+   */
+  emitClearGravity() {
+    emit('clearGravity', this.liveEngine.clearGravity)
+  }
 
-    // Assume block width and height will always be the same:
-    this.blockS = this.canvasWidth / 10
+  /**
+   * This method tells the React UI the rules a player picks of the game being
+   * played.
+   */
+  emitRules() {
+    emit('rules', this.liveEngine.getRules())
+  }
 
-    this.canvas = document.getElementById(canvasId) as HTMLCanvasElement
-    this.canvas.width = this.canvasWidth
-    this.canvas.height = 2 * this.canvasWidth
+  /**
+   * This method tells the React UI how the versus match is going, if one is
+   * played.
+   */
+  emitVersusState() {
+    emit('versusState', this.versus !== null ? this.versus.getState() : null)
+  }
 
-    this.panelHeight =
-      Math.round((2 - Game.BOARD_ROW_NUM / Game.BOARD_COL_NUM) *
-        this.canvasWidth)
+  /**
+   * This method tells the React UI how the network versus match is going, if
+   * one is played.
+   */
+  emitNetState() {
+    emit('netState', this.net !== null ? this.net.getState() : null)
+  }
 
-    this.landed = []
-    this.paused = true
-    this.highScoresListId = highScoresListId
+  /**
+   * This method tells the React UI whether the AI is playing, and how fast it
+   * plays.
+   */
+  emitBotState() {
+    emit('botState', { watching: this.bot !== null, speed: this.botSpeed })
+  }
 
-    this.store = new Store({
-      configName: 'config',
-      defaults: {
-        highScores: [this.score, 0, 0, 0, 0, 0, 0, 0, 0, 0]
-      }
+  /**
+   * This method sends the high score tables to the React UI.
+   */
+  emitHighScores() {
+    emit('highScores', {
+      mode: this.liveEngine.mode,
+      tables: this.getHighScores()
     })
-
-    // Init functions
-    this.displayHighScores()
-    this.createTet()
-    this.handleEvents()
   }
 
   /**
-   * This method creates 3 event listeners (2 for the window and 1 for the
-   * document). The 2 events for the window are onblur and onfocus. These will
-   * pause the game when you leave the game window and resume it when you come
-   * back. The event for the document listens for onkeydown events. These
-   * basically allow the user to interact with the game.
+   * This method tells the React UI which saved data couldn't be read, and
+   * where it was put aside.
    */
-  handleEvents() {
-    const that = this
-    // Pause if we lose focus of the game. Resume once we get focus back. We
-    // don't need the Page Visibility API because we don't have a resource
-    // intensive game while it's idle
-    let pausedBeforeBlur = true
-    window.onblur = () => {
-      if (that.gameOver === false) {
-        pausedBeforeBlur = that.paused
-        clearInterval(that.loop)
-        that.paused = true
-        that.draw()
-      }
-    }
-    window.onfocus = () => {
-      this.canvas.focus()
-      this.canvas.blur()
-      if (!pausedBeforeBlur && that.gameOver === false) {
-        if (!that.gameOver) {
-          that.tetDownLoop()
-        }
-        that.paused = false
-        that.draw()
-      }
+  emitStoreRecoveries() {
+    const recoveries: StoreRecovery[] = []
+    if (this.store.recovery !== null) recoveries.push(this.store.recovery)
+    if (this.replayStore.recovery !== null) {
+      recoveries.push(this.replayStore.recovery)
     }
+    emit('storeRecoveries', recoveries)
+  }
 
-    // Handle key events
-    // For keycodes: http://www.javascripter.net/faq/keycodes.htm
-    document.onkeydown = (e) => {
-      switch (e.keyCode) {
-        case 32: // space to move living Tet all the way down
-          if (that.canTetMove() === true) {
-            while (!that.newTet && that.currTet) {
-              that.currTet.moveDown()
-            }
-            that.draw()
-            that.tetDownLoop()
-          }
-          break
-        case 38: // up arrow to rotate Tet clockwise
-          if (that.canTetMove() === true && that.currTet) {
-            that.currTet.rotate()
-            that.draw()
-          }
-          break
-        case 37: // left arrow to move Tet left
-          if (that.canTetMove() === true && that.currTet) {
-            that.currTet.moveLeft()
-            that.draw()
-          }
-          break
-        case 39: // right arrow to move Tet right
-          if (that.canTetMove() === true && that.currTet) {
-            that.currTet.moveRight()
-            that.draw()
-          }
-          break
-        case 40: // down arrow to move Tet down
-          if (that.canTetMove() === true && that.currTet) {
-            let skip = false
-            if (that.newTet) skip = true
-            if (!skip) clearInterval(that.loop)
-            that.currTet.moveDown()
-            that.draw()
-            if (!skip && !that.paused) that.tetDownLoop()
-          }
-          break
-        case 80: case 83: // p for pause, s for stop (they do same thing)
-          if (that.gameOver === false) {
-            if (!that.paused) {
-              clearInterval(that.loop)
-              that.paused = true
-              that.draw()
-            } else {
-              if (that.gameOver === false) {
-                that.tetDownLoop()
-                that.dropOnce = false
-              }
-              that.paused = false
-              that.draw()
-            }
-          }
-          break
-        case 82: // r for reset
-          that.allTets = []
-          clearInterval(that.loop)
-          that.currTet = null
-          that.gameOver = false
-          that.newTet = true
-          that.nextTet = null
-          that.paused = true
-          that.score = 0
-          that.updateScore = true
-          that.createTet()
-          break
-        // Developer's Controls
-        case 35: // end key to move Tet up
-          if (that.devModeOn && that.currTet) {
-            if (that.currTet.topLeft.row > 0) {
-              that.currTet.topLeft.row--
-            }
-            that.draw()
-          }
-          break
-        case 48: case 49: case 50: case 51: case 52: // test cases found in TestCase.js
-        case 53: case 54: case 55: case 56: case 57: // number keys 0 to 9 (not numpad)
-          if (that.devModeOn) {
-            that.allTets = []
-            that.gameOver = false
-            that.score = 0
-            that.updateScore = true
-            that.testCase(e.keyCode - 48)
-            that.createTet()
-            that.tetDownLoop()
-          }
-          break
-        case 71: // g for game over
-          if (that.devModeOn) {
-            that.gameOver = true
-            clearInterval(that.loop)
-            // that.score = 1939999955999999 // near max
-            that.score = Math.random() * 100000
-            that.updateScore = true
-            that.draw()
-          }
-          break
-        case 72: // h to reset high score to zero
-          if (that.devModeOn) {
-            that.setHighScores([0, 0, 0, 0, 0, 0, 0, 0, 0, 0])
-            that.displayHighScores()
-            that.draw()
-          }
-          break
-        case 192: // tilde key to toggle dev mode
-          that.devModeOn = that.devModeOn
-          that.draw()
-          break
-        default:
-          console.log('unrecognized key: ' + e.keyCode)
-      }
+  /**
+   * This method sums up a replay for the React UI, leaving its inputs out.
+   * @param replay This is the replay to sum up.
+   * @returns The summary of the replay.
+   */
+  summarizeReplay(replay: Replay): ReplaySummary {
+    return {
+      recordedAt: replay.recordedAt,
+      duration: replay.duration,
+      score: replay.score,
+      lines: replay.lines,
+      level: replay.level,
+      seed: replay.settings.seed as number
     }
   }
 
   /**
-   * This method is exclusively used in the handleEvents method. We call it
-   * every time we want to check if our Tet can be moved with the space bar and
-   * up/right/left/down arrow keys.
-   * @returns If the Tet can move, based on the conditions within the function,
-   *     then return true.
+   * This method sends how the replay playback is going to the React UI.
    */
-  canTetMove() {
-    return ((this.newTet === false && this.paused === false) ||
-      this.devModeOn === true) && this.gameOver === false
+  emitReplayState() {
+    const player = this.player
+    emit('replayState', {
+      recordedAt: player !== null ? player.replay.recordedAt : null,
+      paused: player !== null ? player.paused : false,
+      speed: player !== null ? player.speed : 1,
+      time: player !== null ? player.engine.time : 0,
+      duration: player !== null ? player.replay.duration : 0
+    })
   }
 
   /**
@@ -347,82 +1444,122 @@ export class Game {
   }
 
   /**
-   * This method updates the high score list that is displayed on the web page.
+   * This method draws everything to the canvas: the board of the game shown,
+   * or the boards of both players side by side in a versus match, local or
+   * over the network.
    */
-  displayHighScores() {
-    const highScores = this.getHighScores()
-    let html = ''
-    const len = highScores.length
-    for (let i = 0; i < len; i++) {
-      html += '<li>' + this.commaSeparateNumber(highScores[i]) + '</li>'
-    }
-    // TODO: Figure out of this is the best implementation of this
-    let elem: any = document.getElementById(this.highScoresListId) || false
-    if (elem) elem.innerHTML = html
-  }
-
-  /** This method draws everything to the canvas. */
   draw() {
-    // Keys, in order, reflect the HTML color code of Tets: I, J, L, O, S, T, Z
-    const tetColor = ['#3cc', '#0af', '#f90', '#ee0', '#0c0', '#c0c', '#c00']
-
     const c = this.canvas.getContext('2d')
+    if (!c) return
+
+    c.clearRect(0, 0, this.canvas.width, this.canvas.height) // clear canvas
+    const now = performance.now()
+    this.labels = this.labels.filter(
+      (label) => now - label.shownAt < Game.LABEL_DURATION)
+
+    const net = this.net
+    if (net !== null) {
+      this.drawBoard(c, this.engine, 0)
+      this.drawNetResults(c, net)
+      c.save()
+      c.translate(this.canvasWidth + this.sideWidth, 0)
+      this.drawOpponent(c, net)
+      c.restore()
+      return
+    }
+    const versus = this.versus
+    if (versus === null) {
+      this.drawBoard(c, this.engine, 0)
+      return
+    }
+    const boardWidth = this.canvasWidth + this.sideWidth
+    versus.engines.forEach((engine, player) => {
+      c.save()
+      c.translate(player * boardWidth, 0)
+      this.drawBoard(c, engine, player)
+      if (versus.roundWinner !== null) {
+        this.drawVersusResults(c, versus.getState(), player,
+          versus.getMatchWinner() !== null ? 'Pause for a new match'
+            : 'Pause for the next round')
+      }
+      c.restore()
+      // the boards are set apart by a line
+      if (player > 0) {
+        c.beginPath()
+        c.moveTo(player * boardWidth, 0)
+        c.lineTo(player * boardWidth, this.canvas.height)
+        c.lineWidth = 4
+        c.strokeStyle = '#000'
+        c.stroke()
+      }
+    })
+  }
 
+  /**
+   * This method draws the board of an engine, along with its top panel and
+   * next queue column, at the top left of the canvas.
+   * @param c This is the context of the canvas we're drawing on.
+   * @param engine This is the engine whose board to draw.
+   * @param player This is the versus player the board belongs to, whose
+   *     award labels float up its well.
+   */
+  drawBoard(c: CanvasRenderingContext2D, engine: Engine, player: number) {
     // TODO: Figure out a more graceful way of doing this
-    if (!c || !this.nextTet) return
+    if (!engine.nextTet) return
 
-    c.clearRect(0, 0, this.canvas.width, 2 * this.canvas.width) // clear canvas
+    const blockS = this.blockS
+    const wellWidth = this.canvasWidth
+    const margin = blockS / 5
+    // The hold box is notched into the separator line, 4 blocks wide and just
+    // tall enough for a Tet 2 blocks tall
+    const boxLeft = 4 * blockS - 3
+    const boxRight = 8 * blockS + 3
+    const boxTop = this.panelHeight - 2 * blockS - 6
 
     // Draw top panel
     // paused
-    if (this.paused) {
+    if (engine.paused) {
       c.fillStyle = '#f00'
       c.font = '16px Arial'
-      c.fillText('PAUSED', 5, 74)
+      c.fillText('PAUSED', margin + 1, this.panelHeight - 6)
     }
     // score
     c.fillStyle = '#000'
     c.font = '16px Arial'
     // 16 numbers max, or 14 with commas. If beyond, switch to scientific
     // notation:
-    c.fillText('Score: ' + this.commaSeparateNumber(this.score), 4, 17)
-    // next Tet
+    c.fillText('Score: ' + this.commaSeparateNumber(engine.score),
+      margin, blockS - 3)
+    // held Tet (faded out once hold was already used on the living Tet)
     c.font = '16px Arial'
-    c.fillText('Next:', 35, 50)
-    c.beginPath()
-    c.moveTo(
-      (this.nextTet.topLeft.col + this.nextTet.perim[0][0]) *
-      this.blockS,
-      (this.nextTet.topLeft.row + this.nextTet.perim[0][1]) *
-      this.blockS + 37)
-    const len = this.nextTet.perim.length
-    for (let row = 1; row < len; row++) {
-      c.lineTo(
-        (this.nextTet.topLeft.col + this.nextTet.perim[row][0]) *
-        this.blockS,
-        (this.nextTet.topLeft.row + this.nextTet.perim[row][1]) *
-        this.blockS + 37)
+    c.textAlign = 'right'
+    c.fillText('Hold:', boxLeft - margin, boxTop + 16)
+    c.textAlign = 'left'
+    if (engine.holdTet) {
+      this.tracePerim(c, engine.holdTet.perim, boxLeft + 3, boxTop + 3,
+        blockS)
+      c.lineWidth = 2
+      c.globalAlpha = engine.canHold ? 1 : 0.4
+      c.fillStyle = TET_COLORS[engine.holdTet.type]
+      c.fill()
+      c.strokeStyle = '#000'
+      c.stroke()
+      c.globalAlpha = 1
     }
-    c.closePath()
-    c.lineWidth = 2
-    c.fillStyle = tetColor[this.nextTet.type]
-    c.fill()
-    c.strokeStyle = '#000'
-    c.stroke()
     // separator line
     c.beginPath()
     c.moveTo(0, this.panelHeight)
-    c.lineTo(this.canvasWidth, this.panelHeight)
+    c.lineTo(wellWidth, this.panelHeight)
     c.lineWidth = 2
     c.strokeStyle = '#eee'
     c.stroke()
     c.beginPath()
     c.moveTo(0, this.panelHeight)
-    c.lineTo(4 * this.blockS - 3, this.panelHeight)
-    c.lineTo(4 * this.blockS - 3, 2 * this.blockS - 6)
-    c.lineTo(2 * 4 * this.blockS + 3, 2 * this.blockS - 6)
-    c.lineTo(2 * 4 * this.blockS + 3, this.panelHeight)
-    c.lineTo(this.canvasWidth, this.panelHeight)
+    c.lineTo(boxLeft, this.panelHeight)
+    c.lineTo(boxLeft, boxTop)
+    c.lineTo(boxRight, boxTop)
+    c.lineTo(boxRight, this.panelHeight)
+    c.lineTo(wellWidth, this.panelHeight)
     c.lineWidth = 2
     c.strokeStyle = '#000'
     c.stroke()
@@ -430,37 +1567,152 @@ export class Game {
     if (this.devModeOn) {
       c.fillStyle = '#0a0'
       c.font = '15px Arial'
-      c.fillText('DEV', 166, 74)
+      c.textAlign = 'right'
+      const copied = performance.now() - this.boardCopiedAt < 2000
+      c.fillText(copied ? 'BOARD COPIED · DEV' : 'DEV', wellWidth - margin,
+        this.panelHeight - 6)
+      c.textAlign = 'left'
+    }
+
+    // Draw next queue column
+    c.beginPath()
+    c.moveTo(wellWidth + 1, 0)
+    c.lineTo(wellWidth + 1, this.canvas.height)
+    c.lineWidth = 2
+    c.strokeStyle = '#000'
+    c.stroke()
+    c.fillStyle = '#000'
+    c.font = '16px Arial'
+    c.fillText('Next:', wellWidth + margin + 2, blockS - 3)
+    // Each Tet gets a slot 3 preview blocks tall, centered horizontally
+    const slotHeight = 3 * this.previewS
+    const count = Math.min(engine.previewCount,
+      engine.nextTets.length)
+    for (let i = 0; i < count; i++) {
+      const tet = engine.nextTets[i]
+      let tetWidth = 0
+      const rLen = tet.shape.length
+      for (let row = 0; row < rLen; row++) {
+        tetWidth = Math.max(tetWidth, tet.shape[row].length)
+      }
+      this.tracePerim(c, tet.perim,
+        wellWidth + (this.sideWidth - tetWidth * this.previewS) / 2,
+        blockS + this.previewS + i * slotHeight, this.previewS)
+      c.lineWidth = 2
+      c.fillStyle = TET_COLORS[tet.type]
+      c.fill()
+      c.strokeStyle = '#000'
+      c.stroke()
+    }
+    // level and lines, at the bottom of the next queue column
+    const lineHeight = blockS
+    const hudTop = this.canvas.height - 4 * lineHeight
+    c.fillStyle = '#000'
+    c.font = '14px Arial'
+    c.fillText('Level:', wellWidth + margin + 2, hudTop)
+    // the garbage rows left show instead of the lines when there's garbage
+    const hasGarbage = GAME_MODES[engine.mode].garbageTotal !== undefined
+    c.fillText(hasGarbage ? 'Garbage:' : 'Lines:', wellWidth + margin + 2,
+      hudTop + 2 * lineHeight)
+    c.font = 'bold 16px Arial'
+    c.fillText(String(engine.level), wellWidth + margin + 2,
+      hudTop + lineHeight)
+    // the rows left to eliminate show when the game mode has a goal
+    const goal = GAME_MODES[engine.mode].goalLines
+    c.fillText(hasGarbage ? String(engine.getGarbageLines())
+      : engine.lines + (goal !== undefined ? '/' + goal : ''),
+      wellWidth + margin + 2, hudTop + 3 * lineHeight)
+    // timer, above the level and lines, counting down when the game mode has
+    // a time limit
+    const timeLeft = engine.getTimeLeft()
+    c.font = '14px Arial'
+    c.fillText(timeLeft !== null ? 'Time left:' : 'Time:',
+      wellWidth + margin + 2, hudTop - 2 * lineHeight)
+    c.font = 'bold 14px Arial'
+    c.fillText(formatPlayTime(timeLeft !== null ? timeLeft
+      : engine.playTime), wellWidth + margin + 2, hudTop - lineHeight)
+    // chain multiplier, above the timer, once falling fragments clear rows
+    if (engine.chain > 1) {
+      c.fillStyle = '#c0c'
+      c.font = '14px Arial'
+      c.fillText('Chain:', wellWidth + margin + 2, hudTop - 4 * lineHeight)
+      c.font = 'bold 16px Arial'
+      c.fillText('\u00d7' + engine.chain, wellWidth + margin + 2,
+        hudTop - 3 * lineHeight)
+    }
+    // versus player and the rounds they won, above the chain
+    if (this.versus !== null) {
+      c.fillStyle = '#00f'
+      c.font = 'bold 14px Arial'
+      c.fillText('PLAYER ' + (player + 1), wellWidth + margin + 2,
+        hudTop - 6 * lineHeight)
+      c.font = '14px Arial'
+      c.fillText('Wins: ' + this.versus.wins[player] + '/' +
+        this.versus.winsNeeded, wellWidth + margin + 2, hudTop - 5 * lineHeight)
+    } else if (this.net !== null && this.net.seat !== null) {
+      c.fillStyle = '#00f'
+      c.font = 'bold 14px Arial'
+      c.fillText('YOU', wellWidth + margin + 2, hudTop - 6 * lineHeight)
+      c.font = '14px Arial'
+      c.fillText('Wins: ' + this.net.wins[this.net.seat] + '/' +
+        getWinsNeeded(this.net.bestOf), wellWidth + margin + 2,
+        hudTop - 5 * lineHeight)
     }
+    // AI indicator and speed, above the chain
+    if (this.bot !== null) {
+      c.fillStyle = '#00f'
+      c.font = 'bold 14px Arial'
+      c.fillText('AI', wellWidth + margin + 2, hudTop - 6 * lineHeight)
+      c.font = '14px Arial'
+      c.fillText(this.bot.speed + ' moves/s', wellWidth + margin + 2,
+        hudTop - 5 * lineHeight)
+    }
+    // replay indicator, above the chain
+    if (this.player !== null) {
+      c.fillStyle = '#00f'
+      c.font = 'bold 14px Arial'
+      c.fillText('REPLAY', wellWidth + margin + 2, hudTop - 6 * lineHeight)
+      c.font = '14px Arial'
+      c.fillText(this.player.paused ? 'paused' : this.player.speed + 'x',
+        wellWidth + margin + 2, hudTop - 5 * lineHeight)
+    }
+
+    // Keep the board from spilling out of the well: Tets in the vanish zone
+    // only show once they reach the visible field
+    c.save()
+    c.beginPath()
+    c.rect(0, this.panelHeight, wellWidth, engine.rows * blockS)
+    c.clip()
 
     // Draw living Tet "shadow" at bottom and rotation
-    if (!this.newTet) {
+    if (!engine.newTet) {
       // TODO: Figure out a more graceful way of doing this
-      if (!this.currTet) {
+      if (!engine.currTet) {
+        c.restore()
         return
       }
 
       const tmpPotTopLeft = {
-        row: this.currTet.topLeft.row + 1,
-        col: this.currTet.topLeft.col
+        row: engine.currTet.topLeft.row + 1,
+        col: engine.currTet.topLeft.col
       }
-      while (!this.currTet.doesTetCollideBot(tmpPotTopLeft)) {
+      while (!engine.currTet.doesTetCollideBot(tmpPotTopLeft)) {
         tmpPotTopLeft.row++
       }
       tmpPotTopLeft.row--
       c.beginPath()
       c.moveTo(
-        (tmpPotTopLeft.col + this.currTet.perim[0][0]) *
+        (tmpPotTopLeft.col + engine.currTet.perim[0][0]) *
         this.blockS,
-        (tmpPotTopLeft.row + this.currTet.perim[0][1]) *
-        this.blockS + this.panelHeight)
-      const len = this.currTet.perim.length
+        (tmpPotTopLeft.row + engine.currTet.perim[0][1]) *
+        this.blockS + this.wellTop)
+      const len = engine.currTet.perim.length
       for (let row = 1; row < len; row++) {
         c.lineTo(
-          (tmpPotTopLeft.col + this.currTet.perim[row][0]) *
+          (tmpPotTopLeft.col + engine.currTet.perim[row][0]) *
           this.blockS,
-          (tmpPotTopLeft.row + this.currTet.perim[row][1]) *
-          this.blockS + this.panelHeight)
+          (tmpPotTopLeft.row + engine.currTet.perim[row][1]) *
+          this.blockS + this.wellTop)
       }
       c.closePath()
       c.lineWidth = 2
@@ -469,275 +1721,457 @@ export class Game {
       c.strokeStyle = '#ddd'
       c.stroke()
 
-      // draw pivot shadow
-      if (this.currTet.pivot > 0) {
-        const potPerim = this.currTet.doesNotTetPivotCollide()
-        if (potPerim !== false) {
-          c.beginPath()
-          c.moveTo(
-            (this.currTet.topLeft.col + potPerim[0][0] + this.currTet.pivot) *
-            this.blockS,
-            (this.currTet.topLeft.row + potPerim[0][1]) *
-            this.blockS + this.panelHeight)
-          const len = this.currTet.perim.length
-          for (let row = 1; row < len; row++) {
-            c.lineTo(
-              (this.currTet.topLeft.col + potPerim[row][0] +
-                this.currTet.pivot) * this.blockS,
-              (this.currTet.topLeft.row + potPerim[row][1]) *
-              this.blockS + this.panelHeight)
-          }
-          c.closePath()
-          c.lineWidth = 2
-          c.globalAlpha = 0.5
-          c.fillStyle = '#eee'
-          c.fill()
-          c.strokeStyle = '#ddd'
-          c.stroke()
-          c.globalAlpha = 1
-        }
+      // draw rotation shadow when rotating clockwise needs a wall or floor
+      // kick, so the player can see where the Tet is going to end up
+      const potRot = engine.currTet.getRotated(1)
+      if (potRot !== null && potRot.kick > 0) {
+        this.tracePerim(c, potRot.perim, potRot.topLeft.col * this.blockS,
+          potRot.topLeft.row * this.blockS + this.wellTop, this.blockS)
+        c.lineWidth = 2
+        c.globalAlpha = 0.5
+        c.fillStyle = '#eee'
+        c.fill()
+        c.strokeStyle = '#ddd'
+        c.stroke()
+        c.globalAlpha = 1
       }
     }
 
     // Draw all Tets
-    const aTLen = this.allTets.length
+    const aTLen = engine.allTets.length
     for (let tet = 0; tet < aTLen; tet++) {
-      const currTet = this.allTets[tet]
+      const currTet = engine.allTets[tet]
       c.beginPath()
       c.moveTo(
         (currTet.topLeft.col + currTet.perim[0][0]) * this.blockS,
         (currTet.topLeft.row + currTet.perim[0][1]) * this.blockS +
-        this.panelHeight)
+        this.wellTop)
       const len = currTet.perim.length
       for (let row = 1; row < len; row++) {
         c.lineTo(
           (currTet.topLeft.col + currTet.perim[row][0]) * this.blockS,
           (currTet.topLeft.row + currTet.perim[row][1]) * this.blockS +
-          this.panelHeight)
+          this.wellTop)
       }
       c.closePath()
       c.lineWidth = 2
-      c.fillStyle = tetColor[currTet.type]
+      c.fillStyle =
+        currTet.type === -1 ? GARBAGE_COLOR : TET_COLORS[currTet.type]
       c.fill()
       c.strokeStyle = '#000'
       c.stroke()
+      // the living Tet whitens as it gets closer to locking
+      if (currTet === engine.currTet && !engine.newTet) {
+        c.globalAlpha = 0.6 * engine.getLockProgress()
+        c.fillStyle = '#fff'
+        c.fill()
+        c.globalAlpha = 1
+      }
     }
+    c.restore()
 
-    // Draw Game Over text if game is over
-    if (this.gameOver) {
-      // gray tint
-      c.globalAlpha = 0.8
-      c.fillStyle = '#333'
-      c.fillRect(0, 0, this.canvas.width, 2 * this.canvas.width)
-      c.globalAlpha = 1
-      // game over text
-      c.fillStyle = '#f00'
-      c.font = 'bold 32px Arial'
-      c.fillText('GAME OVER', 3, 180)
-      c.strokeStyle = '#000'
-      c.lineWidth = 1
-      c.strokeText('GAME OVER', 3, 180)
-      // your score
-      c.fillStyle = '#fff'
-      c.font = 'bold 18px Arial'
-      c.fillText('Your Score:', 5, 220)
-      c.fillStyle = '#f00'
-      c.font = 'bold 19px Arial'
-      c.fillText(this.commaSeparateNumber(this.score), 14, 240)
-      c.globalAlpha = 0.5
-      c.strokeStyle = '#000'
-      c.lineWidth = 1
-      c.font = 'bold 18px Arial'
-      c.strokeText('Your Score:', 5, 220)
-      c.font = 'bold 19px Arial'
-      c.strokeText(this.commaSeparateNumber(this.score), 14, 240)
-      c.globalAlpha = 1
-      // personal highest score
-      const highscores = this.checkHighScore()
-      c.fillStyle = '#fff'
-      c.font = 'bold 17px Arial'
-      c.fillText('Personal Highest Score:', 5, 270)
+    // Draw the garbage sent by the opponent, waiting to push up, as a bar
+    // rising along the right side of the well
+    if (engine.garbageQueued > 0) {
+      const height = Math.min(engine.garbageQueued, engine.rows) * blockS
       c.fillStyle = '#f00'
-      c.font = 'bold 19px Arial'
-      c.fillText(this.commaSeparateNumber(highscores[0]), 14, 290)
-      c.globalAlpha = 0.3
-      c.strokeStyle = '#000'
-      c.lineWidth = 1
-      c.font = 'bold 17px Arial'
-      c.strokeText('Personal Highest Score:', 5, 270)
-      c.font = 'bold 19px Arial'
-      c.strokeText(this.commaSeparateNumber(highscores[0]), 14, 290)
-      c.globalAlpha = 1
-      this.displayHighScores()
+      c.fillRect(wellWidth - 4, this.canvas.height - height, 4, height)
+    }
+
+    // Draw the awards as labels floating up from where they were given out,
+    // fading out over LABEL_DURATION
+    const now = performance.now()
+    const labels = this.labels.filter((label) => label.player === player)
+    c.font = 'bold 14px Arial'
+    c.textAlign = 'center'
+    c.lineWidth = 3
+    const lLen = labels.length
+    for (let i = 0; i < lLen; i++) {
+      const award = labels[i].award
+      const progress = (now - labels[i].shownAt) / Game.LABEL_DURATION
+      // Awards given out at the same time are stacked
+      let stack = 0
+      for (let j = 0; j < i; j++) {
+        if (labels[j].shownAt === labels[i].shownAt) stack++
+      }
+      const text = award.label + ' +' + this.commaSeparateNumber(award.points)
+      const y = this.wellTop + ((award.row || 0) + 1 + stack) * blockS -
+        progress * 2 * blockS
+      c.globalAlpha = 1 - progress
+      c.strokeStyle = '#fff'
+      c.strokeText(text, wellWidth / 2, y)
+      c.fillStyle = '#000'
+      c.fillText(text, wellWidth / 2, y)
+    }
+    c.globalAlpha = 1
+    c.textAlign = 'left'
+
+    // Draw the results over the board once the game is over; versus rounds
+    // and the AI's games have results of their own
+    if (engine.gameOver && this.bot !== null) {
+      this.drawBotResults(c)
+    } else if (engine.gameOver && this.versus === null && this.net === null) {
+      this.drawResults(c)
     }
   }
 
   /**
-   * This method creates Tets. This also causes the Game Over screen to appear
-   * when we cannot create a new Tet.
+   * This method draws the results of the game that ended: how it ended, and
+   * how it did next to the user's personal best in its game mode, which is
+   * the fastest time or the highest score depending on the mode.
+   * @param c This is the context of the canvas we're drawing on.
    */
-  createTet() {
-    // Make sure first Tet is not an S or Z
-    if (this.nextTet === null) {
-      let t: number = Math.floor(Math.random() * 7)
-      // TODO: Instead of doing this, keep randomly generating a number until
-      // it's not a 4 or 6. This way there isn't a higher likelihood of starting
-      // off with a 3 or 5 (should be as fairly random as possible) - plus there
-      // isn't a performance issue to worry about since this gets generated
-      // before the game even starts.
-      if (t === 4 || t === 6) {
-        t--
+  drawResults(c: CanvasRenderingContext2D) {
+    const engine = this.engine
+    const rules = GAME_MODES[engine.mode]
+    // personal best (replays don't count towards it)
+    const highScores =
+      this.player !== null ? this.getHighScores() : this.checkHighScore()
+    const table = highScores[engine.mode] || []
+    let title = 'GAME OVER'
+    let titleColor = '#f00'
+    let results: Array<{ label: string, value: string }>
+    if (rules.rankBy === 'time') {
+      const best = table.length > 0 ? formatPlayTime(table[0].duration) : '—'
+      if (engine.outcome === 'finished') {
+        title = 'FINISHED'
+        titleColor = '#0c0'
+        results = [
+          { label: 'Your Time:', value: formatPlayTime(engine.playTime) },
+          { label: 'Personal Best Time:', value: best }
+        ]
+      } else {
+        // how far the game got towards the goal of its mode
+        const progress = rules.garbageTotal !== undefined
+          ? { label: 'Garbage Left:', value: String(engine.getGarbageLines()) }
+          : { label: 'Lines:', value: engine.lines + ' / ' + rules.goalLines }
+        results = [progress, { label: 'Personal Best Time:', value: best }]
       }
-      this.nextTet = new Tet(this, t)
+    } else {
+      const best = table.length > 0 ? table[0].score : 0
+      if (engine.outcome === 'timeUp') {
+        title = 'TIME UP'
+        titleColor = '#fc0'
+      }
+      results = [
+        { label: 'Your Score:', value: this.commaSeparateNumber(engine.score) },
+        { label: 'Personal Highest Score:',
+          value: this.commaSeparateNumber(best) }
+      ]
     }
 
-    // Build first Tet and next Tet
-    if (this.newTet) {
-      this.currTet = this.nextTet
-      this.nextTet = new Tet(this)
-    }
-    this.newTet = false
+    // seed, so the same piece sequence can be played again
+    this.drawOverlay(c, title, titleColor, results, 'Seed: ' + engine.seed)
+  }
 
-    // TODO: Figure out how to make this check unnecessary since ideally this
-    // would never be null.
-    if (!this.currTet) {
-      this.currTet = this.nextTet
+  /**
+   * This method draws the results of the game the AI played, which don't
+   * count towards the user's personal best.
+   * @param c This is the context of the canvas we're drawing on.
+   */
+  drawBotResults(c: CanvasRenderingContext2D) {
+    const engine = this.engine
+    let title = 'GAME OVER'
+    let titleColor = '#f00'
+    if (engine.outcome === 'finished') {
+      title = 'FINISHED'
+      titleColor = '#0c0'
+    } else if (engine.outcome === 'timeUp') {
+      title = 'TIME UP'
+      titleColor = '#fc0'
     }
+    this.drawOverlay(c, title, titleColor, [
+      { label: 'AI Score:', value: this.commaSeparateNumber(engine.score) },
+      { label: 'Lines:', value: String(engine.lines) }
+    ], 'Pause to watch another game')
+  }
 
-    // Display Game Over
-    if (this.currTet.doesTetCollideBot(this.currTet.topLeft)) {
-      this.nextTet = this.currTet
-      this.gameOver = true
-      this.newTet = true
-      clearInterval(this.loop)
-      return
-    } else {
-      this.allTets.push(this.currTet)
+  /**
+   * This method draws the results of the versus round that ended over a
+   * player's board: whether they won the round, or the match, and the rounds
+   * each player won so far.
+   * @param c This is the context of the canvas we're drawing on.
+   * @param versus This is the state of the match.
+   * @param player This is the player whose board it is.
+   * @param note This is what comes next, e.g. 'Pause for the next round'.
+   */
+  drawVersusResults(c: CanvasRenderingContext2D, versus: VersusState,
+    player: number, note: string) {
+    if (versus.roundWinner === null) return
+    const matchOver = versus.matchWinner !== null
+    let title = 'DRAW'
+    let titleColor = '#fc0'
+    if (versus.roundWinner !== -1) {
+      const won = versus.roundWinner === player
+      title = (matchOver ? 'MATCH ' : 'ROUND ') + (won ? 'WON' : 'LOST')
+      titleColor = won ? '#0c0' : '#f00'
     }
-
-    this.draw()
+    const opponent = (player + 1) % versus.wins.length
+    this.drawOverlay(c, title, titleColor, [
+      { label: 'Rounds Won:',
+        value: versus.wins[player] + ' \u2013 ' + versus.wins[opponent] },
+      { label: 'Best of:', value: String(versus.bestOf) }
+    ], note)
   }
 
   /**
-   * This method creates a setInterval loop which moves our currTet down at
-   * each interval.
+   * This method draws over the user's board how the network versus match is
+   * going when no round is being played: the results of the round that
+   * ended, or what the match is waiting for.
+   * @param c This is the context of the canvas we're drawing on.
+   * @param net This is the match.
    */
-  tetDownLoop() {
-    // safe guard to prevent multiple loops from spawning before clearing it out
-    // first
-    clearInterval(this.loop)
-
-    const that = this
-    this.loop = window.setInterval(() => {
-      if (that.dropOnce && that.newTet) clearInterval(that.loop)
-      if (that.newTet) that.createTet()
-      else if (!that.paused && that.currTet) that.currTet.moveDown()
-      that.draw()
-    }, that.dropInterval)
+  drawNetResults(c: CanvasRenderingContext2D, net: NetMatch) {
+    if (net.status === 'playing') return
+    // The whole story is told in the network play panel
+    const notes: { [status: string]: string } = {
+      connecting: 'Connecting to the host',
+      waiting: 'Waiting for an opponent',
+      ready: net.seat !== 0 ? 'Waiting for the host'
+        : net.getMatchWinner() !== null ? 'Pause for a new match'
+        : net.round > 0 ? 'Pause for the next round' : 'Pause to start',
+      closed: 'Leave the match to play on'
+    }
+    if (net.status === 'ready' && net.roundWinner !== null &&
+      net.seat !== null) {
+      this.drawVersusResults(c, net.getState().match, net.seat, notes.ready)
+      return
+    }
+    const titles: { [status: string]: string } = {
+      connecting: 'CONNECTING',
+      waiting: 'WAITING',
+      ready: 'READY',
+      closed: 'DISCONNECTED'
+    }
+    this.drawOverlay(c, titles[net.status],
+      net.status === 'closed' ? '#f00' : '#fc0', [], notes[net.status])
   }
 
   /**
-   * This method generates a landed array from allTets to be used to check for
-   * Tet/fragment collisions.
-   * @param tet This parameter basically excludes the given Tet from allTets
-   *     which are used to generate the landed array.
+   * This method draws the board the opponent of a network versus match sent
+   * last in a miniature well, along with their score, the rounds they won and
+   * the garbage waiting to push up on their board, at the top left of the
+   * canvas.
+   * @param c This is the context of the canvas we're drawing on.
+   * @param net This is the match.
    */
-  getLanded(tet?: Tet) {
-    if (tet !== undefined) this.updateLanded = true
-    if (this.updateLanded) {
-      for (let i = 0; i < Game.BOARD_ROW_NUM; i++) {
-        this.landed[i] = [0, 0, 0, 0, 0, 0, 0, 0, 0, 0]
-      }
-      const aT = this.allTets
-      const len = aT.length
-      for (let i = 0; i < len; i++) {
-        if (aT[i] === this.currTet || aT[i] === tet) continue
-        const rLen = aT[i].shape.length
-        for (let row = 0; row < rLen; row++) {
-          const cLen = aT[i].shape[row].length
-          for (let col = 0; col < cLen; col++) {
-            if (aT[i].shape[row][col] !== 0) {
-              this.landed[row + aT[i].topLeft.row][col + aT[i].topLeft.col] = 1
-            }
-          }
+  drawOpponent(c: CanvasRenderingContext2D, net: NetMatch) {
+    const miniS = this.miniS
+    const wellWidth = this.engine.cols * miniS
+    const wellHeight = this.engine.rows * miniS
+    const wellTop = this.canvas.height - wellHeight - miniS
+    const board = net.opponent
+
+    // the boards are set apart by a line
+    c.beginPath()
+    c.moveTo(0, 0)
+    c.lineTo(0, this.canvas.height)
+    c.lineWidth = 4
+    c.strokeStyle = '#000'
+    c.stroke()
+
+    // who they are and how they're doing
+    c.fillStyle = '#00f'
+    c.font = 'bold 14px Arial'
+    c.fillText('OPPONENT', miniS, this.blockS - 3)
+    if (net.seat !== null) {
+      c.font = '14px Arial'
+      c.fillText('Wins: ' + net.wins[1 - net.seat] + '/' +
+        getWinsNeeded(net.bestOf), miniS, 2 * this.blockS - 3)
+    }
+    if (board !== null) {
+      c.fillStyle = '#000'
+      c.font = '14px Arial'
+      c.fillText('Score:', miniS, 4 * this.blockS - 3)
+      c.fillText('Lines:', miniS, 6 * this.blockS - 3)
+      c.font = 'bold 16px Arial'
+      c.fillText(this.commaSeparateNumber(board.score), miniS,
+        5 * this.blockS - 3)
+      c.fillText(String(board.lines), miniS, 7 * this.blockS - 3)
+    }
+
+    // the miniature well, its rows lined up with its bottom
+    c.fillStyle = '#f8f8f8'
+    c.fillRect(miniS, wellTop, wellWidth, wellHeight)
+    c.lineWidth = 1
+    c.strokeStyle = '#000'
+    c.strokeRect(miniS, wellTop, wellWidth, wellHeight)
+    if (board === null) return
+    const rows = board.rows.slice(-this.engine.rows)
+    const bottom = wellTop + wellHeight
+    rows.forEach((line, row) => {
+      const y = bottom - (rows.length - row) * miniS
+      const len = Math.min(line.length, this.engine.cols)
+      for (let col = 0; col < len; col++) {
+        const letter = line[col].toUpperCase()
+        const type = Engine.TET_LETTERS.indexOf(letter as TetLetter)
+        if (letter === 'G') {
+          c.fillStyle = GARBAGE_COLOR
+        } else if (type !== -1) {
+          c.fillStyle = TET_COLORS[type]
+        } else {
+          continue
         }
+        c.fillRect(miniS + col * miniS, y, miniS, miniS)
+        c.strokeRect(miniS + col * miniS, y, miniS, miniS)
       }
-      this.updateLanded = false
+    })
+    // the garbage sent to them, waiting to push up
+    if (board.garbageQueued > 0) {
+      const height = Math.min(board.garbageQueued, this.engine.rows) * miniS
+      c.fillStyle = '#f00'
+      c.fillRect(miniS + wellWidth - 3, bottom - height, 3, height)
     }
+  }
 
-    return this.landed
+  /**
+   * This method tints the board gray and draws the results of a game over
+   * it.
+   * @param c This is the context of the canvas we're drawing on.
+   * @param title This is how the game ended, e.g. 'GAME OVER'.
+   * @param titleColor This is the color of the title and of the values.
+   * @param results These are the labelled values to show under the title.
+   * @param note This is a line of smaller text to show at the bottom.
+   */
+  drawOverlay(c: CanvasRenderingContext2D, title: string,
+    titleColor: string, results: Array<{ label: string, value: string }>,
+    note: string) {
+    // gray tint
+    c.globalAlpha = 0.8
+    c.fillStyle = '#333'
+    c.fillRect(0, 0, this.canvasWidth + this.sideWidth, this.canvas.height)
+    c.globalAlpha = 1
+    // how the game ended
+    c.fillStyle = titleColor
+    c.font = 'bold 32px Arial'
+    c.fillText(title, 3, 180)
+    c.strokeStyle = '#000'
+    c.lineWidth = 1
+    c.strokeText(title, 3, 180)
+    // how it did
+    results.forEach((result, i) => {
+      const y = 220 + i * 50
+      c.fillStyle = '#fff'
+      c.font = 'bold 17px Arial'
+      c.fillText(result.label, 5, y)
+      c.fillStyle = titleColor
+      c.font = 'bold 19px Arial'
+      c.fillText(result.value, 14, y + 20)
+      c.globalAlpha = 0.4
+      c.strokeStyle = '#000'
+      c.font = 'bold 17px Arial'
+      c.strokeText(result.label, 5, y)
+      c.font = 'bold 19px Arial'
+      c.strokeText(result.value, 14, y + 20)
+      c.globalAlpha = 1
+    })
+    c.fillStyle = '#fff'
+    c.font = 'bold 14px Arial'
+    c.fillText(note, 5, 320)
   }
 
   /**
-   * This method inserts all zeros into the rows of the shape array if they are
-   * going to be removed. Once we do this, we call the updateLanded method.
-   * @param fullRows This is the list of all rows that are to be removed from
-   *     the Tet shapes.
+   * This method builds a closed path out of a Tet's perimeter so that it can be
+   * filled and stroked.
+   * @param c This is the context of the canvas we're drawing on.
+   * @param perim This is the perimeter of the Tet, as given by Tet.perim.
+   * @param x This is the horizontal position of the Tet's top left corner, in
+   *     pixels.
+   * @param y This is the vertical position of the Tet's top left corner, in
+   *     pixels.
+   * @param size This is the length of the side of each block, in pixels.
    */
-  alterShapes(fullRows: number[]) {
-    const firstRow = fullRows[0]
-    const lastRow = fullRows[fullRows.length - 1]
-    const len = this.allTets.length
-    for (let tet = 0; tet < len; tet++) {
-      if (this.allTets[tet].topLeft.row <= firstRow - 4 ||
-        this.allTets[tet].topLeft.row > lastRow) {
-        continue
-      }
-      this.allTets[tet].alterShape(fullRows)
-    }
-    // this.tetsToRemove.sort(function(a,b){ return a - b }) // ensures indices
-    // are in numeric order
-    const len2 = this.tetsToRemove.length
-    for (let i = 0; i < len2; i++) {
-      this.allTets.splice(this.tetsToRemove[i] - i, 1)
+  tracePerim(c: CanvasRenderingContext2D, perim: number[][], x: number,
+    y: number, size: number) {
+    c.beginPath()
+    c.moveTo(x + perim[0][0] * size, y + perim[0][1] * size)
+    const len = perim.length
+    for (let row = 1; row < len; row++) {
+      c.lineTo(x + perim[row][0] * size, y + perim[row][1] * size)
     }
-    this.tetsToRemove = []
-    this.updateLanded = true
+    c.closePath()
   }
 
   /**
    * This method gets the user's high scores from their cookie.
-   * @returns This is the list of the high scores of the user.
+   * @returns These are the high score tables of the user, by game mode.
    */
-  getHighScores() {
+  getHighScores(): HighScoreTables {
     return this.store.get('highScores')
   }
 
   /**
    * This method saves the user's high scores into the cookie.
-   * @param v This is the list of the high scores we're going to save in the
+   * @param v These are the high score tables we're going to save in the
    *     cookie.
    */
-  setHighScores(v: number[]) {
+  setHighScores(v: HighScoreTables) {
     // console.log('setting high scores', v) // debug
     this.store.set('highScores', v)
   }
 
   /**
-   * This method basically adjusts the user's high scores if they made a higher
-   * score than before.
-   * @returns This is the list of the high scores of the user.
+   * This method basically adds the game that just ended to the high scores of
+   * its mode if it ranks above one of them, by score or by time depending on
+   * the mode. The user then gets
+   * to enter their name, which starts out as the last one they entered.
+   * @returns These are the high score tables of the user.
    */
   checkHighScore() {
     const highScores = this.getHighScores()
     if (this.updateScore === true) {
-      const hsLen = highScores.length
-      for (let i = 0; i < hsLen; i++) {
-        if (this.score > highScores[i]) {
-          highScores.splice(i, 0, this.score.toFixed(2))
-          break
-        }
-      }
-      if (highScores.length > hsLen) highScores.pop()
-      this.setHighScores(highScores)
       this.updateScore = false
+      // Only finished games have a time worth ranking
+      if (GAME_MODES[this.engine.mode].rankBy === 'time' &&
+        this.engine.outcome !== 'finished') {
+        return highScores
+      }
+      const entry: HighScore = {
+        name: this.store.get('playerName') || 'Player',
+        score: this.engine.score,
+        lines: this.engine.lines,
+        level: this.engine.level,
+        duration: this.engine.playTime,
+        mode: this.engine.mode,
+        seed: this.engine.seed,
+        date: Date.now()
+      }
+      if (addHighScore(highScores, entry) !== -1) {
+        this.setHighScores(highScores)
+        this.newHighScoreDate = entry.date
+        this.emitHighScores()
+        emit('newHighScore', entry)
+      }
     }
 
     return highScores
   }
 
-  // TODO: This is from TestCase.js
-  testCase(n: number) {
-    console.warn('Test cases not enabled yet.' + n)
+  /**
+   * This method names a high score entry, remembering the name for the next
+   * ones. Only the entry of the game that just ended can be named.
+   * @param mode This is the game mode of the entry.
+   * @param date This is when the game of the entry ended.
+   * @param name This is the name the user entered.
+   */
+  nameHighScore(mode: GameMode, date: number, name: string) {
+    if (date !== this.newHighScoreDate) return
+    const trimmed = name.trim().substr(0, 16)
+    if (trimmed === '') return
+    const highScores = this.getHighScores()
+    const entry = (highScores[mode] || []).filter((hs) => hs.date === date)[0]
+    if (!entry) return
+    entry.name = trimmed
+    this.setHighScores(highScores)
+    this.store.set('playerName', trimmed)
+    this.emitHighScores()
+  }
+
+  /**
+   * This method gets the saved replays, most recent first.
+   * @returns This is the list of the replays.
+   */
+  getReplays(): Replay[] {
+    return this.replayStore.get('replays')
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,164 @@
+import { ACTIONS, normalizeActionMap } from './keyBindings'
+
+/** These are the buttons bound to each action until the user rebinds them. */
+export const DEFAULT_PAD_BINDINGS: PadBindings = {
+  rotateCW: [0],
+  rotateCCW: [1],
+  rotate180: [3],
+  moveLeft: [14],
+  moveRight: [15],
+  moveDown: [13],
+  hardDrop: [12],
+  hold: [2, 4, 5],
+  pause: [9],
+  reset: [8]
+}
+
+/** These are the names of the buttons of a controller with standard mapping. */
+const BUTTON_NAMES = [
+  'A', 'B', 'X', 'Y', 'LB', 'RB', 'LT', 'RT', 'Back', 'Start', 'Left Stick',
+  'Right Stick', 'D-pad Up', 'D-pad Down', 'D-pad Left', 'D-pad Right', 'Home'
+]
+
+/**
+ * This function gives the name of a button as shown to the user.
+ * @param button This is the index of the button in Gamepad.buttons.
+ * @returns The name of the button, e.g. 'A' for 0.
+ */
+export function buttonName(button: number) {
+  return button < BUTTON_NAMES.length ? BUTTON_NAMES[button]
+    : 'Button ' + button
+}
+
+/**
+ * This function finds which action a button is bound to.
+ * @param bindings These are the button bindings to look through.
+ * @param button This is the index of the button in Gamepad.buttons.
+ * @returns The action, or null if the button isn't bound.
+ */
+export function findPadAction(bindings: PadBindings, button: number) {
+  const len = ACTIONS.length
+  for (let i = 0; i < len; i++) {
+    if (bindings[ACTIONS[i]].indexOf(button) > -1) return ACTIONS[i]
+  }
+  return null
+}
+
+/**
+ * This function makes sure saved button bindings are usable: buttons bound
+ * twice are dropped and missing actions get their default buttons.
+ * @param saved These are the button bindings as they were saved.
+ * @returns Button bindings with every action in them and no conflicts.
+ */
+export function normalizePadBindings(saved: any): PadBindings {
+  return normalizeActionMap(saved, DEFAULT_PAD_BINDINGS, 'number')
+}
+
+/**
+ * Keeps track of the connected controllers. The Gamepad API doesn't fire
+ * events for button presses, so the controllers have to be polled every
+ * frame, which is also how we notice them being plugged in or out.
+ */
+export class Gamepads {
+  /** These are the button bindings of each controller ever bound, by id. */
+  bindings: { [id: string]: PadBindings }
+  /**
+   * These are the connected controllers, by Gamepad.index, along with which
+   * of their buttons were pressed at the last poll.
+   */
+  private pads: Array<{ id: string, pressed: boolean[] } | undefined>
+
+  /**
+   * @param bindings These are the saved button bindings of each controller.
+   */
+  constructor(bindings: { [id: string]: PadBindings }) {
+    // Force instantiation
+    if (!(this instanceof Gamepads)) {
+      return new Gamepads(bindings)
+    }
+
+    this.bindings = {}
+    for (const id in bindings) {
+      this.bindings[id] = normalizePadBindings(bindings[id])
+    }
+    this.pads = []
+  }
+
+  /**
+   * This method gets the button bindings of a controller.
+   * @param id This is the Gamepad.id of the controller.
+   * @returns Its bindings, or the default ones if it was never rebound.
+   */
+  getBindings(id: string) {
+    return this.bindings[id] || DEFAULT_PAD_BINDINGS
+  }
+
+  /**
+   * This method lists the connected controllers.
+   * @returns The controllers, in the order they were connected.
+   */
+  getConnected(): ConnectedPad[] {
+    const connected: ConnectedPad[] = []
+    this.pads.forEach((pad) => {
+      if (pad !== undefined) {
+        connected.push({ id: pad.id, bindings: this.getBindings(pad.id) })
+      }
+    })
+    return connected
+  }
+
+  /**
+   * This method tells how many of the connected controllers were connected
+   * before the given one, e.g. to hand out controllers to players in order.
+   * @param index This is the Gamepad.index of the controller.
+   * @returns The position of the controller, starting at 0.
+   */
+  getPosition(index: number) {
+    let position = 0
+    for (let i = 0; i < index; i++) {
+      if (this.pads[i] !== undefined) position++
+    }
+    return position
+  }
+
+  /**
+   * This method reads the state of every controller. Holding a button down is
+   * reported as a press and, later, a release; repeating is up to the engine.
+   * @returns The buttons pressed and released since the last poll.
+   */
+  poll(): PadPoll {
+    const result: PadPoll = { pressed: [], released: [], plugged: false }
+    const gamepads = navigator.getGamepads ? navigator.getGamepads() : []
+    const len = Math.max(gamepads.length, this.pads.length)
+    for (let i = 0; i < len; i++) {
+      const gamepad = gamepads[i]
+      let pad = this.pads[i]
+      if (pad !== undefined && (!gamepad || pad.id !== gamepad.id ||
+        !gamepad.connected)) {
+        // Let go of everything that was held on the unplugged controller
+        const id = pad.id
+        pad.pressed.forEach((pressed, button) => {
+          if (pressed) result.released.push({ id, index: i, button })
+        })
+        pad = this.pads[i] = undefined
+        result.plugged = true
+      }
+      if (!gamepad || !gamepad.connected) continue
+      if (pad === undefined) {
+        pad = this.pads[i] = { id: gamepad.id, pressed: [] }
+        result.plugged = true
+      }
+      const bLen = gamepad.buttons.length
+      for (let b = 0; b < bLen; b++) {
+        const pressed = gamepad.buttons[b].pressed
+        if (pressed && !pad.pressed[b]) {
+          result.pressed.push({ id: pad.id, index: i, button: b })
+        } else if (!pressed && pad.pressed[b]) {
+          result.released.push({ id: pad.id, index: i, button: b })
+        }
+        pad.pressed[b] = pressed
+      }
+    }
+    return result
+  }
+}
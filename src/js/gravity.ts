@@ -0,0 +1,87 @@
+/**
+ * This is the length of an NES frame in milliseconds (the NTSC NES runs at
+ * about 60.0988 frames per second).
+ */
+const NES_FRAME = 1000 / 60.0988
+
+/**
+ * This is the number of frames it takes a Tet to drop 1 block on the NTSC NES,
+ * for levels 0 to 29. Level 29 and above are the "kill screen" speed.
+ */
+const NES_FRAMES_PER_ROW = [
+  48, 43, 38, 33, 28, 23, 18, 13, 8, 6,
+  5, 5, 5, 4, 4, 4, 3, 3, 3, 2,
+  2, 2, 2, 2, 2, 2, 2, 2, 2, 1
+]
+
+/**
+ * This function gives the time it takes the living Tet to drop 1 block at the
+ * given level.
+ * @param curve This is the name of the gravity curve to follow:
+ *
+ *     guideline - Tetris Guideline: (0.8 - (level - 1) * 0.007) ^ (level - 1)
+ *     seconds per row, starting at 1 second on level 1.
+ *
+ *     nes - NES Tetris frame table, starting at 48 frames on level 0.
+ *
+ *     custom - The given list of intervals, one per level starting at level 1.
+ *     The last interval keeps being used past the end of the list.
+ * @param level This is the level the game is at.
+ * @param [custom] These are the intervals, in milliseconds, of the custom
+ *     curve.
+ * @returns The drop interval in milliseconds.
+ */
+export function getDropInterval(curve: GravityCurveName, level: number,
+  custom: number[] = []): number {
+  switch (curve) {
+    case 'nes': {
+      const i = Math.min(Math.max(level, 0), NES_FRAMES_PER_ROW.length - 1)
+      return NES_FRAMES_PER_ROW[i] * NES_FRAME
+    }
+    case 'custom':
+      if (custom.length > 0) {
+        return custom[Math.min(Math.max(level, 1), custom.length) - 1]
+      }
+      // Fall back on the guideline curve if there isn't any interval given
+      return getDropInterval('guideline', level)
+    default: {
+      // The curve is only defined up to level 20 or so, after which Tets drop
+      // several blocks per frame
+      const l = Math.min(Math.max(level, 1), 20)
+      return Math.pow(0.8 - (l - 1) * 0.007, l - 1) * 1000
+    }
+  }
+}
+
+/** These are the gravity curves, in the order they're offered to the user. */
+export const GRAVITY_CURVES: GravityCurveName[] = ['guideline', 'nes', 'custom']
+
+/** These are the names of the gravity curves. */
+export const GRAVITY_CURVE_LABELS: { [C in GravityCurveName]: string } = {
+  guideline: 'Guideline',
+  nes: 'NES',
+  custom: 'Custom'
+}
+
+/** These are the clear gravities, in the order they're offered to the user. */
+export const CLEAR_GRAVITIES: ClearGravity[] = ['naive', 'sticky', 'cascade']
+
+/** These are the names and descriptions of the clear gravities. */
+export const CLEAR_GRAVITY_LABELS: {
+  [G in ClearGravity]: { label: string, description: string }
+} = {
+  naive: {
+    label: 'Naive',
+    description: 'Rows above a clear shift down; overhangs stay put.'
+  },
+  sticky: {
+    label: 'Sticky fragments',
+    description: 'Each Tet and fragment falls on its own, which can chain ' +
+      'more clears.'
+  },
+  cascade: {
+    label: 'Cascade',
+    description: 'Blocks touching each other fall together, which can ' +
+      'chain more clears.'
+  }
+}
@@ -0,0 +1,318 @@
+/**
+ * These are the weights the heuristic bot scores a board with once a Tet
+ * landed on it, as tuned by Yiyuan Lee's genetic algorithm for a plain
+ * Tetris board. Everything but the rows eliminated counts against the board.
+ */
+const DEFAULT_WEIGHTS: HeuristicWeights = {
+  height: -0.510066,
+  lines: 0.760666,
+  holes: -0.35663,
+  bumpiness: -0.184483
+}
+
+/**
+ * A bot which tries every rotation and column of the living Tet, and of the
+ * next one on each of the boards that leaves, then keeps the move leading to
+ * the best board by a weighted sum of its aggregate height, holes, bumpiness
+ * and the rows eliminated getting there.
+ *
+ * Rows are eliminated the way the engine does it, clear gravity included:
+ * with 'sticky' or 'cascade' gravity, the blocks left hanging fall and may
+ * fill more rows, which the bot counts in.
+ */
+export class HeuristicBot implements Bot {
+  readonly name: string = 'Heuristic'
+  /** These are the weights of each feature of a board in its score. */
+  weights: HeuristicWeights
+
+  /**
+   * @param [weights] These are the weights to score boards with; the ones
+   *     left undefined are the default ones.
+   */
+  constructor(weights: Partial<HeuristicWeights> = {}) {
+    // Force instantiation
+    if (!(this instanceof HeuristicBot)) {
+      return new HeuristicBot(weights)
+    }
+
+    this.weights = Object.assign({}, DEFAULT_WEIGHTS, weights)
+  }
+
+  /**
+   * This method picks where the living Tet goes, looking 1 Tet ahead.
+   * @param view This is what the bot sees of the game.
+   * @returns The move, or null if the Tet fits nowhere.
+   */
+  decide(view: BotView): BotMove | null {
+    const gravity = view.clearGravity
+    const next = view.next.length > 0 ? view.next[0] : null
+    let best: BotMove | null = null
+    let bestScore = -Infinity
+    getPlacements(view.owners, view.current.shape).forEach((placement) => {
+      const board = placement.board
+      const lines = resolveClears(board, gravity)
+      let score = -Infinity
+      if (next === null) {
+        score = this.evaluate(board, lines)
+      } else {
+        // The board is only as good as the best the next Tet can do on it
+        getPlacements(board, next.shape).forEach((after) => {
+          const total = lines + resolveClears(after.board, gravity)
+          score = Math.max(score, this.evaluate(after.board, total))
+        })
+      }
+      if (score > bestScore) {
+        bestScore = score
+        best = placement.move
+      }
+    })
+    return best
+  }
+
+  /**
+   * This method scores a board a Tet landed on.
+   * @param board This is the board, as owners of each cell.
+   * @param lines This is the number of rows eliminated on the way there.
+   * @returns The score; the higher the better.
+   */
+  evaluate(board: number[][], lines: number) {
+    const rows = board.length
+    const cols = rows > 0 ? board[0].length : 0
+    const heights: number[] = []
+    let holes = 0
+    for (let col = 0; col < cols; col++) {
+      let top = rows
+      for (let row = 0; row < rows; row++) {
+        if (board[row][col] === 0) {
+          if (top < row) holes++
+        } else if (top === rows) {
+          top = row
+        }
+      }
+      heights.push(rows - top)
+    }
+    let height = 0
+    let bumpiness = 0
+    for (let col = 0; col < cols; col++) {
+      height += heights[col]
+      if (col > 0) bumpiness += Math.abs(heights[col] - heights[col - 1])
+    }
+    const w = this.weights
+    return w.height * height + w.lines * lines + w.holes * holes +
+      w.bumpiness * bumpiness
+  }
+}
+
+/**
+ * This function turns a shape a quarter turn clockwise.
+ * @param shape This is the shape, whose rows may leave out trailing zeros.
+ * @returns The turned shape, every row of it as long as the shape is wide.
+ */
+function rotateShape(shape: number[][]) {
+  const width = Math.max(...shape.map((line) => line.length))
+  const rotated: number[][] = []
+  for (let col = 0; col < width; col++) {
+    const line: number[] = []
+    for (let row = shape.length - 1; row >= 0; row--) {
+      line.push(shape[row][col] || 0)
+    }
+    rotated.push(line)
+  }
+  return rotated
+}
+
+/**
+ * This function lists every board a Tet can land on by being turned, moved
+ * sideways at the top of the board, then dropped. Rotations which turn out
+ * the same shape are only tried once.
+ * @param board This is the board, as owners of each cell.
+ * @param spawnShape This is the shape of the Tet in its spawn rotation.
+ * @returns The moves, along with the board each one leaves, the Tet's blocks
+ *     belonging to a new owner and no row eliminated yet.
+ */
+function getPlacements(board: number[][], spawnShape: number[][]) {
+  const placements: Array<{ move: BotMove, board: number[][] }> = []
+  const rows = board.length
+  const cols = rows > 0 ? board[0].length : 0
+  let owner = 0
+  board.forEach((line) => line.forEach((cell) => {
+    owner = Math.max(owner, cell)
+  }))
+  owner++
+  const seen: string[] = []
+  let shape = spawnShape
+  for (let rotation = 0; rotation < 4; rotation++) {
+    if (rotation > 0) shape = rotateShape(shape)
+    const key = JSON.stringify(shape.map((line) => line.join('')
+      .replace(/0+$/, '')))
+    if (seen.indexOf(key) !== -1) continue
+    seen.push(key)
+    const width = Math.max(...shape.map((line) => line.length))
+    for (let col = 0; col + width <= cols; col++) {
+      if (collides(board, shape, 0, col)) continue
+      let row = 0
+      while (!collides(board, shape, row + 1, col)) row++
+      const landed = board.map((line) => line.slice())
+      shape.forEach((line, r) => line.forEach((block, c) => {
+        if (block !== 0) landed[row + r][col + c] = owner
+      }))
+      placements.push({ move: { rotation, col }, board: landed })
+    }
+  }
+  return placements
+}
+
+/**
+ * This function checks if a shape overlaps the blocks of the board or goes
+ * past its bottom.
+ * @param board This is the board, as owners of each cell.
+ * @param shape This is the shape.
+ * @param row This is the row of the shape's top left corner.
+ * @param col This is the column of the shape's top left corner.
+ * @returns If the shape collides, return true; else, false.
+ */
+function collides(board: number[][], shape: number[][], row: number,
+  col: number) {
+  return shape.some((line, r) => line.some((block, c) => block !== 0 &&
+    (row + r >= board.length || board[row + r][col + c] !== 0)))
+}
+
+/**
+ * This function eliminates the full rows of a board and lets the blocks above
+ * them fall the way the engine does it. With 'naive' gravity, the rows above
+ * shift down and that's it. Otherwise, each Tet is split into fragments along
+ * the eliminated rows, then every fragment, or every group of them touching
+ * each other with 'cascade' gravity, falls as far as it can, which may fill
+ * more rows.
+ * @param board This is the board, as owners of each cell; it gets changed.
+ * @param gravity This is how the blocks above eliminated rows fall.
+ * @returns The number of rows eliminated.
+ */
+export function resolveClears(board: number[][], gravity: ClearGravity) {
+  const cols = board.length > 0 ? board[0].length : 0
+  let lines = 0
+  while (true) {
+    const fullRows: number[] = []
+    board.forEach((line, row) => {
+      if (line.every((cell) => cell !== 0)) fullRows.push(row)
+    })
+    if (fullRows.length === 0) return lines
+    lines += fullRows.length
+    if (gravity === 'naive') {
+      fullRows.forEach((row) => {
+        board.splice(row, 1)
+        board.unshift(new Array(cols).fill(0))
+      })
+      return lines
+    }
+    fullRows.forEach((row) => board[row].fill(0))
+    splitFragments(board)
+    settle(board, gravity)
+  }
+}
+
+/**
+ * This function gives the blocks of each Tet above and below an eliminated
+ * row owners of their own, as the engine splits Tets into fragments along
+ * the rows that are all zeros in their shape.
+ * @param board This is the board, as owners of each cell; it gets changed.
+ */
+function splitFragments(board: number[][]) {
+  let owner = 0
+  board.forEach((line) => line.forEach((cell) => {
+    owner = Math.max(owner, cell)
+  }))
+  // The owner each owner of the row above goes on as in this row
+  let renamed: { [owner: number]: number } = {}
+  board.forEach((line) => {
+    const next: { [owner: number]: number } = {}
+    line.forEach((cell, col) => {
+      if (cell === 0) return
+      if (!(cell in next)) next[cell] = cell in renamed ? renamed[cell] : ++owner
+      line[col] = next[cell]
+    })
+    renamed = next
+  })
+}
+
+/**
+ * This function lets every fragment, or every group of touching fragments
+ * with 'cascade' gravity, fall 1 row at a time until nothing moves anymore,
+ * the way the engine's falling steps do.
+ * @param board This is the board, as owners of each cell; it gets changed.
+ * @param gravity This is how the blocks above eliminated rows fall.
+ */
+function settle(board: number[][], gravity: ClearGravity) {
+  while (true) {
+    const units = getUnits(board, gravity)
+    const moved: number[] = []
+    let unitsMoved = true
+    while (unitsMoved) {
+      unitsMoved = false
+      units.forEach((unit, i) => {
+        if (moved.indexOf(i) !== -1 || !canFall(board, unit)) return
+        // Move the lowest blocks first so none overwrites another
+        const cells = unit.slice().sort((a, b) => b.row - a.row)
+        cells.forEach((cell) => {
+          board[cell.row + 1][cell.col] = board[cell.row][cell.col]
+          board[cell.row][cell.col] = 0
+          cell.row++
+        })
+        moved.push(i)
+        unitsMoved = true
+      })
+    }
+    if (moved.length === 0) return
+  }
+}
+
+/**
+ * This function groups the blocks of a board into the units that fall
+ * together: each owner on its own with 'sticky' gravity, or every group of
+ * owners touching each other sideways or up and down with 'cascade' gravity.
+ * @param board This is the board, as owners of each cell.
+ * @param gravity This is how the blocks above eliminated rows fall.
+ * @returns The units, each being the cells of its blocks.
+ */
+function getUnits(board: number[][], gravity: ClearGravity) {
+  const parents: { [owner: number]: number } = {}
+  const find = (owner: number): number =>
+    parents[owner] === owner ? owner : (parents[owner] = find(parents[owner]))
+  board.forEach((line) => line.forEach((cell) => {
+    if (cell !== 0) parents[cell] = cell
+  }))
+  if (gravity === 'cascade') {
+    board.forEach((line, row) => line.forEach((cell, col) => {
+      if (cell === 0) return
+      const right = col + 1 < line.length ? line[col + 1] : 0
+      const down = row + 1 < board.length ? board[row + 1][col] : 0
+      if (right !== 0) parents[find(right)] = find(cell)
+      if (down !== 0) parents[find(down)] = find(cell)
+    }))
+  }
+  const units: { [root: number]: Array<{ row: number, col: number }> } = {}
+  board.forEach((line, row) => line.forEach((cell, col) => {
+    if (cell === 0) return
+    const root = find(cell)
+    if (!(root in units)) units[root] = []
+    units[root].push({ row, col })
+  }))
+  return Object.keys(units).map((root) => units[Number(root)])
+}
+
+/**
+ * This function checks if a unit can move down by 1 row, i.e. if every block
+ * below it is either empty or part of the unit itself.
+ * @param board This is the board, as owners of each cell.
+ * @param unit These are the cells of the unit's blocks.
+ * @returns If the unit can move down, return true; else, false.
+ */
+function canFall(board: number[][], unit: Array<{ row: number, col: number }>) {
+  const own: { [cell: string]: boolean } = {}
+  unit.forEach((cell) => { own[cell.row + ':' + cell.col] = true })
+  return unit.every((cell) => {
+    const below = cell.row + 1
+    return below < board.length && (board[below][cell.col] === 0 ||
+      own[below + ':' + cell.col] === true)
+  })
+}
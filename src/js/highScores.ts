@@ -0,0 +1,36 @@
+import { GAME_MODES } from './modes'
+
+/** This is how many entries each high score table keeps. */
+export const MAX_HIGH_SCORES = 10
+
+/**
+ * This function checks if the first high score entry ranks above the second
+ * one, by what the rules of their mode rank games by.
+ * @param a This is the first entry.
+ * @param b This is the second entry, of the same mode.
+ * @returns If the first entry is at least as good, return true; else, false.
+ */
+function ranksAbove(a: HighScore, b: HighScore) {
+  return GAME_MODES[a.mode].rankBy === 'time'
+    ? a.duration <= b.duration : a.score >= b.score
+}
+
+/**
+ * This function puts an entry into the high score table of its mode, if it's
+ * good enough to make it in.
+ * @param tables These are the high score tables; the entry's gets changed.
+ * @param entry This is the entry to put in.
+ * @returns The rank [0..MAX_HIGH_SCORES - 1] the entry made it to, or -1 if it
+ *     didn't make it.
+ */
+export function addHighScore(tables: HighScoreTables, entry: HighScore) {
+  if (GAME_MODES[entry.mode].rankBy === 'score' && entry.score <= 0) return -1
+  const table = tables[entry.mode] || []
+  let rank = 0
+  while (rank < table.length && ranksAbove(table[rank], entry)) rank++
+  if (rank >= MAX_HIGH_SCORES) return -1
+  table.splice(rank, 0, entry)
+  table.splice(MAX_HIGH_SCORES)
+  tables[entry.mode] = table
+  return rank
+}
@@ -0,0 +1,175 @@
+/** These are the actions keys can be bound to, in the order they're listed. */
+export const ACTIONS: GameAction[] = [
+  'rotateCW', 'rotateCCW', 'rotate180', 'moveLeft', 'moveRight', 'moveDown',
+  'hardDrop', 'hold', 'pause', 'reset'
+]
+
+/** These are the names of the actions shown to the user. */
+export const ACTION_LABELS: { [A in GameAction]: string } = {
+  rotateCW: 'Rotate',
+  rotateCCW: 'Rotate Back',
+  rotate180: 'Rotate 180°',
+  moveLeft: 'Move Left',
+  moveRight: 'Move Right',
+  moveDown: 'Move Down',
+  hardDrop: 'Instantly Move Down',
+  hold: 'Hold',
+  pause: 'Pause Game',
+  reset: 'Restart Game'
+}
+
+/** These are the keys bound to each action until the user rebinds them. */
+export const DEFAULT_BINDINGS: KeyBindings = {
+  rotateCW: ['ArrowUp', 'KeyX'],
+  rotateCCW: ['ControlLeft', 'ControlRight', 'KeyZ'],
+  rotate180: ['KeyA'],
+  moveLeft: ['ArrowLeft'],
+  moveRight: ['ArrowRight'],
+  moveDown: ['ArrowDown'],
+  hardDrop: ['Space'],
+  hold: ['ShiftLeft', 'ShiftRight', 'KeyC'],
+  pause: ['KeyP', 'KeyS'],
+  reset: ['KeyR']
+}
+
+/**
+ * These are the keys bound to each action of the 2 players of a versus match
+ * until the user rebinds them: the left hand side of the keyboard for the
+ * player on the left and the arrows for the one on the right. Pausing and
+ * restarting are left to the first player.
+ */
+export const DEFAULT_VERSUS_BINDINGS: KeyBindings[] = [
+  {
+    rotateCW: ['KeyW'],
+    rotateCCW: ['KeyQ'],
+    rotate180: ['KeyE'],
+    moveLeft: ['KeyA'],
+    moveRight: ['KeyD'],
+    moveDown: ['KeyS'],
+    hardDrop: ['Space'],
+    hold: ['ShiftLeft'],
+    pause: ['KeyP'],
+    reset: []
+  },
+  {
+    rotateCW: ['ArrowUp'],
+    rotateCCW: ['Slash'],
+    rotate180: ['Period'],
+    moveLeft: ['ArrowLeft'],
+    moveRight: ['ArrowRight'],
+    moveDown: ['ArrowDown'],
+    hardDrop: ['Enter'],
+    hold: ['ShiftRight'],
+    pause: [],
+    reset: []
+  }
+]
+
+/**
+ * This function finds which action a key is bound to.
+ * @param bindings These are the key bindings to look through.
+ * @param code This is the key, as given by KeyboardEvent.code.
+ * @returns The action, or null if the key isn't bound.
+ */
+export function findAction(bindings: KeyBindings, code: string) {
+  const len = ACTIONS.length
+  for (let i = 0; i < len; i++) {
+    if (bindings[ACTIONS[i]].indexOf(code) > -1) return ACTIONS[i]
+  }
+  return null
+}
+
+/**
+ * This function makes sure saved key bindings are usable: unknown actions and
+ * keys bound twice are dropped, and actions saved before they existed get
+ * their default keys.
+ * @param saved These are the key bindings as they were saved.
+ * @returns Key bindings with every action in them and no conflicts.
+ */
+export function normalizeBindings(saved: any): KeyBindings {
+  return normalizeActionMap(saved, DEFAULT_BINDINGS, 'string')
+}
+
+/**
+ * This function makes sure saved versus key bindings are usable, like
+ * normalizeBindings does. A key can't be bound for both players either; the
+ * first player keeps it.
+ * @param saved These are the key bindings of each player as they were saved.
+ * @returns Key bindings for each player with no conflicts.
+ */
+export function normalizeVersusBindings(saved: any): KeyBindings[] {
+  if (!Array.isArray(saved)) saved = []
+  const taken: string[] = []
+  return DEFAULT_VERSUS_BINDINGS.map((defaults, player) => {
+    const bindings = normalizeActionMap(saved[player], defaults, 'string')
+    const len = ACTIONS.length
+    for (let i = 0; i < len; i++) {
+      bindings[ACTIONS[i]] = bindings[ACTIONS[i]].filter(
+        (code) => taken.indexOf(code) === -1)
+    }
+    for (let i = 0; i < len; i++) {
+      taken.push.apply(taken, bindings[ACTIONS[i]])
+    }
+    return bindings
+  })
+}
+
+/**
+ * This function does the work of normalizeBindings for any kind of input
+ * bound to actions, be it keys or controller buttons.
+ * @param saved These are the bindings as they were saved.
+ * @param defaults These are the default bindings.
+ * @param type This is what typeof gives for a valid input.
+ * @returns Bindings with every action in them and no conflicts.
+ */
+export function normalizeActionMap<T>(saved: any,
+  defaults: { [A in GameAction]: T[] }, type: string) {
+  if (typeof saved !== 'object' || saved === null) saved = {}
+  const bindings = Object.assign({}, defaults)
+  const seen: T[] = []
+  const keep = (input: any) => {
+    if (typeof input !== type || seen.indexOf(input) > -1) return false
+    seen.push(input)
+    return true
+  }
+  const missing = ACTIONS.filter((action) => !Array.isArray(saved[action]))
+  const len = ACTIONS.length
+  for (let i = 0; i < len; i++) {
+    if (missing.indexOf(ACTIONS[i]) === -1) {
+      bindings[ACTIONS[i]] = saved[ACTIONS[i]].filter(keep)
+    }
+  }
+  // Only give new actions the default inputs which are still free
+  const mLen = missing.length
+  for (let i = 0; i < mLen; i++) {
+    bindings[missing[i]] = defaults[missing[i]].filter(keep)
+  }
+  return bindings
+}
+
+/**
+ * This function gives the name of a key as shown to the user.
+ * @param code This is the key, as given by KeyboardEvent.code.
+ * @returns The name of the key, e.g. 'Up Arrow' for 'ArrowUp'.
+ */
+export function keyName(code: string) {
+  const names: { [code: string]: string } = {
+    Space: 'Space Bar',
+    ControlLeft: 'Left Ctrl',
+    ControlRight: 'Right Ctrl',
+    ShiftLeft: 'Left Shift',
+    ShiftRight: 'Right Shift',
+    AltLeft: 'Left Alt',
+    AltRight: 'Right Alt',
+    MetaLeft: 'Left Meta',
+    MetaRight: 'Right Meta'
+  }
+  if (code in names) return names[code]
+  let match = /^Arrow(.+)$/.exec(code)
+  if (match) return match[1] + ' Arrow'
+  match = /^(?:Key|Digit)(.)$/.exec(code)
+  if (match) return match[1]
+  match = /^Numpad(.+)$/.exec(code)
+  if (match) return 'Numpad ' + match[1]
+  return code
+}
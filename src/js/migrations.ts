@@ -0,0 +1,29 @@
+/**
+ * These are the upgrades of the data saved in the config store, as the
+ * migrations of {@link StoreOpts}: the one at index i takes data saved at
+ * schema version i to version i + 1. New ones must only ever be appended.
+ */
+export const CONFIG_MIGRATIONS: StoreMigration[] = [
+  // 0 to 1: high scores used to be a single list of bare scores (sometimes as
+  // strings), then of { score, level } entries; they're now tables of full
+  // entries by game mode, where the old ones all count as Marathon games
+  (data) => {
+    if (!Array.isArray(data.highScores)) return data
+    const marathon: HighScore[] = data.highScores.map((hs: any) =>
+      typeof hs === 'object' && hs !== null ? hs : { score: Number(hs) })
+      .filter((hs: any) => hs.score > 0)
+      .map((hs: any): HighScore => ({
+        name: '',
+        score: Number(hs.score),
+        lines: 0,
+        level: hs.level || 0,
+        duration: 0,
+        mode: 'marathon',
+        seed: 0,
+        date: 0
+      }))
+    return Object.assign({}, data, {
+      highScores: marathon.length > 0 ? { marathon: marathon } : {}
+    })
+  }
+]
@@ -0,0 +1,20 @@
+/**
+ * Used in Engine to represent the dimensions of a game board
+ */
+interface BoardPreset {
+  /** Number of columns */
+  cols: number
+  /** Number of visible rows */
+  rows: number
+  /**
+   * Number of rows of the vanish zone above the visible ones, where Tets come
+   * into play
+   */
+  hiddenRows: number
+}
+
+/**
+ * Used in EngineOpts to name a board preset: 'electris' is the original 10×16
+ * board and 'standard' the 10×20 board of the Tetris Guideline
+ */
+type BoardPresetName = 'electris' | 'standard'
@@ -0,0 +1,62 @@
+/** Used in Bot to tell a Tet which is about to be played */
+interface BotPiece {
+  /** Type of the Tet, from 0 to 6: I, J, L, O, S, T, Z */
+  type: number
+  /** Shape of the Tet in its spawn rotation, as in Tet.shape */
+  shape: number[][]
+}
+
+/** Used in Bot: what a bot gets to see of the game to decide on a move */
+interface BotView {
+  /**
+   * Board occupancy, vanish zone included, as given by Engine.getLanded(): 1
+   * for a block, 0 for an empty cell
+   */
+  landed: number[][]
+  /**
+   * Tet or fragment each block of landed belongs to, numbered from 1; 0 for
+   * an empty cell. Blocks of the same Tet or fragment fall together whatever
+   * the clear gravity
+   */
+  owners: number[][]
+  /** How the blocks above eliminated rows fall */
+  clearGravity: ClearGravity
+  /** The living Tet, in its spawn rotation */
+  current: BotPiece
+  /** The upcoming Tets, the first one to come first */
+  next: BotPiece[]
+}
+
+/** Used in Bot: where a bot wants the living Tet to land */
+interface BotMove {
+  /** Clockwise quarter turns from the spawn rotation, from 0 to 3 */
+  rotation: number
+  /** Column of the left edge of the rotated Tet */
+  col: number
+}
+
+/**
+ * A computer player: something that picks where each Tet goes. Bots only
+ * decide; BotPlayer carries their moves out on the engine
+ */
+interface Bot {
+  /** Name of the bot, for the UI */
+  name: string
+  /**
+   * Picks where the living Tet lands, or null to drop it where it is, e.g.
+   * when it fits nowhere
+   */
+  decide(view: BotView): BotMove | null
+}
+
+/** Used in HeuristicBot: the weight of each feature of a board in its score */
+interface HeuristicWeights {
+  /** Per block of the heights of all of the columns added up */
+  height: number
+  /** Per row eliminated, falling fragments' chains included */
+  lines: number
+  /** Per empty cell with a block somewhere above it */
+  holes: number
+  /** Per block of height difference between each pair of neighbor columns */
+  bumpiness: number
+}
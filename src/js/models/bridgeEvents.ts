@@ -0,0 +1,121 @@
+/**
+ * Used in bridge to map the name of each event sent between the React UI and
+ * the Game to what it carries
+ */
+interface BridgeEvents {
+  /** Game to UI: the replays which were saved */
+  replays: ReplaySummary[]
+  /** Game to UI: the state of the replay being played */
+  replayState: ReplayState
+  /** UI to Game: ask for the saved replays */
+  requestReplays: null
+  /** UI to Game: start playing the replay recorded at the given time */
+  playReplay: number
+  /** UI to Game: pause, change the speed of or seek the replay playing */
+  controlReplay: { paused?: boolean, speed?: number, seekTo?: number }
+  /** UI to Game: go back to the live game */
+  stopReplay: null
+  /** Game to UI: the keys bound to each action */
+  keyBindings: KeyBindings
+  /** UI to Game: ask for the keys bound to each action */
+  requestKeyBindings: null
+  /** UI to Game: bind these keys to each action from now on */
+  setKeyBindings: KeyBindings
+  /** Game to UI: the keys bound to each action of each versus player */
+  versusBindings: KeyBindings[]
+  /** UI to Game: ask for the keys bound for each versus player */
+  requestVersusBindings: null
+  /** UI to Game: bind these keys for each versus player from now on */
+  setVersusBindings: KeyBindings[]
+  /** Game to UI: how held movement keys repeat */
+  handling: HandlingOpts
+  /** UI to Game: ask for how held movement keys repeat */
+  requestHandling: null
+  /** UI to Game: make held movement keys repeat this way from now on */
+  setHandling: HandlingOpts
+  /** Game to UI: the connected controllers */
+  gamepads: ConnectedPad[]
+  /** UI to Game: ask for the connected controllers */
+  requestGamepads: null
+  /** UI to Game: bind these buttons to each action of a controller */
+  setPadBindings: ConnectedPad
+  /**
+   * UI to Game: if true, send controller buttons as gamepadButton instead of
+   * acting on them
+   */
+  captureGamepad: boolean
+  /** Game to UI: a controller button was pressed while captured */
+  gamepadButton: PadButton
+  /** Game to UI: the game mode being played */
+  gameMode: GameMode
+  /** UI to Game: ask for the game mode being played */
+  requestGameMode: null
+  /** UI to Game: start a new game in this game mode */
+  setGameMode: GameMode
+  /** Game to UI: how blocks fall after a clear in the game being played */
+  clearGravity: ClearGravity
+  /** UI to Game: ask how blocks fall after a clear */
+  requestClearGravity: null
+  /** UI to Game: start a new game where blocks fall this way after a clear */
+  setClearGravity: ClearGravity
+  /** Game to UI: the other rules picked for the game being played */
+  rules: RuleOpts
+  /** UI to Game: ask for the other rules picked */
+  requestRules: null
+  /** UI to Game: start a new game with these rules changed */
+  setRules: Partial<RuleOpts>
+  /** Game to UI: how the versus match is going, or null if none is played */
+  versusState: VersusState | null
+  /** UI to Game: ask how the versus match is going */
+  requestVersusState: null
+  /** UI to Game: start a versus match which is the best of this many rounds */
+  startVersus: number
+  /** UI to Game: end the versus match and go back to a game of one's own */
+  stopVersus: null
+  /** Game to UI: how the network versus match is going, if one is played */
+  netState: NetState | null
+  /** UI to Game: ask for how the network versus match is going */
+  requestNetState: null
+  /** UI to Game: host a network versus match on this port, and join it */
+  hostNet: { port: number, bestOf: number }
+  /** UI to Game: join the network versus match hosted at this host:port */
+  joinNet: string
+  /** UI to Game: leave the network versus match and go back to a game */
+  leaveNet: null
+  /** Game to UI: whether the AI is playing, and its moves per second */
+  botState: { watching: boolean, speed: number }
+  /** UI to Game: ask whether the AI is playing, and how fast */
+  requestBotState: null
+  /** UI to Game: have the AI play a game of its own, to be watched */
+  watchBot: null
+  /** UI to Game: stop the AI's game and go back to a game of one's own */
+  stopBot: null
+  /** UI to Game: have the AI make this many moves per second from now on */
+  setBotSpeed: number
+  /** Game to UI: the high score tables, and the mode being played */
+  highScores: { mode: GameMode, tables: HighScoreTables }
+  /** UI to Game: ask for the high score tables */
+  requestHighScores: null
+  /** Game to UI: the game that just ended made it into its high scores */
+  newHighScore: HighScore
+  /** UI to Game: name the high score of the game that ended at this date */
+  nameHighScore: { mode: GameMode, date: number, name: string }
+  /** Game to UI: the saved data which couldn't be read and was put aside */
+  storeRecoveries: StoreRecovery[]
+  /** UI to Game: ask for the saved data which couldn't be read */
+  requestStoreRecoveries: null
+  /** Game to UI: the game suspended when the app was last closed, if any */
+  suspendedGame: ReplaySummary | null
+  /** UI to Game: ask for the game suspended when the app was last closed */
+  requestSuspendedGame: null
+  /** UI to Game: resume the suspended game in place of the current one */
+  resumeGame: null
+  /** UI to Game: give up on the suspended game, keeping its replay */
+  discardGame: null
+  /** UI to Game: export all of the saved data to a file the user picks */
+  exportData: null
+  /** UI to Game: import the saved data of a file the user picks */
+  importData: ImportMode
+  /** Game to UI: how exporting or importing the saved data went */
+  dataTransfer: { ok: boolean, message: string }
+}
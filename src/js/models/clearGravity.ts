@@ -0,0 +1,8 @@
+/**
+ * Used in Engine to name what happens to the blocks above eliminated rows:
+ * they shift down by the rows eliminated below them, leaving overhangs where
+ * they are ('naive'); each Tet and fragment falls on its own as far as it can
+ * ('sticky', Electris's own); or blocks touching each other fall together as
+ * one ('cascade'). Falling blocks can fill more rows, which makes chains.
+ */
+type ClearGravity = 'naive' | 'sticky' | 'cascade'
@@ -0,0 +1,9 @@
+/**
+ * Used in Engine to represent a single player action fed through step().
+ * moveLeft, moveRight and moveDown are presses: they repeat until the matching
+ * release input
+ */
+type EngineInput =
+  'moveLeft' | 'moveRight' | 'moveDown' | 'moveUp' | 'hardDrop' |
+  'rotateCW' | 'rotateCCW' | 'rotate180' | 'hold' | 'pause' | 'resume' |
+  'releaseLeft' | 'releaseRight' | 'releaseDown'
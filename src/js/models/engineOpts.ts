@@ -0,0 +1,47 @@
+/**
+ * Used in Engine to represent its options
+ */
+interface EngineOpts {
+  devModeOn?: boolean
+  /** Defaults to 'marathon' */
+  mode?: GameMode
+  /** Seed for the piece sequence; a random one is picked if undefined */
+  seed?: number
+  /** Defaults to 'random' */
+  randomizer?: RandomizerName
+  /** Defaults to 'classic' */
+  scoring?: ScoringName
+  /** Number [1..6] of upcoming Tets shown; defaults to 3 */
+  previewCount?: number
+  /** Level [0..29] the game starts at; defaults to 1 */
+  startLevel?: number
+  /** Defaults to 'guideline' */
+  gravityCurve?: GravityCurveName
+  /** Drop intervals, in milliseconds, of the 'custom' gravity curve */
+  customGravity?: number[]
+  /** Whether the Tet can be rotated 180 degrees at once; defaults to false */
+  allow180?: boolean
+  /** Delayed Auto Shift, in milliseconds; defaults to 170 */
+  das?: number
+  /** Auto Repeat Rate, in milliseconds, 0 being instant; defaults to 50 */
+  arr?: number
+  /** Soft drop speed, as a multiple of gravity; defaults to 20 */
+  softDropFactor?: number
+  /**
+   * Time [0..5000], in milliseconds, a Tet resting on something takes to
+   * lock; defaults to 500
+   */
+  lockDelay?: number
+  /** Defaults to 'move' */
+  lockReset?: LockReset
+  /** Defaults to 'sticky' */
+  clearGravity?: ClearGravity
+  /** Board dimensions to start from; defaults to 'electris' */
+  board?: BoardPresetName
+  /** Number of columns; overrides the board preset's */
+  cols?: number
+  /** Number of visible rows; overrides the board preset's */
+  rows?: number
+  /** Number of vanish zone rows; overrides the board preset's */
+  hiddenRows?: number
+}
@@ -0,0 +1,81 @@
+/**
+ * Used in Engine to save everything about a game in progress, so that it can
+ * be resumed later exactly where it was left. It's plain JSON: times which
+ * never come (Infinity) are saved as null.
+ */
+interface EngineSnapshot {
+  /**
+   * Options to create the engine with: the game mode, the rules, the clear
+   * gravity, the randomizer and the board dimensions
+   */
+  settings: EngineOpts
+  seed: number
+  randomizer: RandomizerState
+  scoring: ScoringState
+  /** Every Tet and fragment in play, as Engine.allTets */
+  tets: TetSnapshot[]
+  /** Index of the living Tet in tets, or -1 if there's none */
+  currTet: number
+  nextTets: TetSnapshot[]
+  holdTet: TetSnapshot | null
+  canHold: boolean
+  newTet: boolean
+  score: number
+  lines: number
+  chain: number
+  level: number
+  gameOver: boolean
+  outcome: GameOutcome | null
+  paused: boolean
+  time: number
+  playTime: number
+  garbageLeft: number
+  garbageQueued: number
+  /** Internal state of the Prng deciding the holes of garbage rows */
+  garbagePrng: number
+  tetsLocked: number
+  cascades: CascadeSnapshot[]
+  /** Horizontal directions being held, as Engine's shiftDirs */
+  shiftDirs: number[]
+  nextDropAt: number | null
+  nextGarbageAt: number | null
+  dasChargedAt: number | null
+  nextShiftAt: number | null
+  nextSoftDropAt: number | null
+  lockAt: number | null
+  lockLeft: number
+  lockResets: number
+  lowestRow: number
+}
+
+/**
+ * Used in EngineSnapshot to save a Tet or fragment
+ */
+interface TetSnapshot {
+  /** Type [0..6] of the Tet, or -1 for garbage */
+  type: number
+  /** SRS rotation state [0..3] of the Tet */
+  rotation: number
+  topLeft: { row: number, col: number }
+  shape: number[][]
+  lastMoveWasRotation: boolean
+  lastKick: number
+}
+
+/**
+ * Used in EngineSnapshot to save a row elimination whose fragments are still
+ * falling
+ */
+interface CascadeSnapshot {
+  /**
+   * Index in EngineSnapshot.tets of the Tet that started the cascade, or -1 if
+   * every one of its rows was eliminated
+   */
+  tet: number
+  /**
+   * The Tet that started the cascade if every one of its rows was eliminated,
+   * else null
+   */
+  eliminated: TetSnapshot | null
+  nextAt: number
+}
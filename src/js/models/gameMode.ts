@@ -0,0 +1,39 @@
+/**
+ * The game modes that can be played; each keeps its own high scores
+ */
+type GameMode = 'marathon' | 'sprint' | 'ultra' | 'dig'
+
+/**
+ * Used in GAME_MODES to describe when a game mode ends and how its games are
+ * ranked
+ */
+interface ModeRules {
+  /** Name of the mode shown to the user */
+  label: string
+  /** Number of rows to eliminate to finish the game, if any */
+  goalLines?: number
+  /** Play time, in milliseconds, after which the game ends, if any */
+  timeLimit?: number
+  /**
+   * Number of garbage rows to dig through, if any; the game is finished once
+   * they're all eliminated
+   */
+  garbageTotal?: number
+  /** Number of those garbage rows the board starts with */
+  garbageRows?: number
+  /** Number of Tets to lock for the next garbage row to push up, if any */
+  garbagePieces?: number
+  /** Play time, in milliseconds, between garbage rows pushing up, if any */
+  garbageInterval?: number
+  /**
+   * What makes a game better than another: a higher score, or finishing in a
+   * shorter play time
+   */
+  rankBy: 'score' | 'time'
+}
+
+/**
+ * How a game came to an end: the board filled up, the goal of the mode was
+ * reached, or its time ran out
+ */
+type GameOutcome = 'toppedOut' | 'finished' | 'timeUp'
@@ -0,0 +1,40 @@
+/**
+ * Used in Gamepads and the settings panel to map each action to the buttons
+ * bound to it, as indexes in Gamepad.buttons
+ */
+type PadBindings = { [A in GameAction]: number[] }
+
+/**
+ * Used in the UI to show a connected controller
+ */
+interface ConnectedPad {
+  /** Gamepad.id, which also identifies the controller's bindings */
+  id: string
+  bindings: PadBindings
+}
+
+/**
+ * Used in Gamepads to report a button that was just pressed or let go of
+ */
+interface PadButton {
+  /** Gamepad.id of the controller the button is on */
+  id: string
+  /**
+   * Gamepad.index of the controller, which tells apart 2 controllers of the
+   * same model
+   */
+  index: number
+  button: number
+}
+
+/**
+ * Used in Gamepads to report what happened since the last poll
+ */
+interface PadPoll {
+  /** Buttons which were just pressed */
+  pressed: PadButton[]
+  /** Buttons which were just let go of, or whose controller was unplugged */
+  released: PadButton[]
+  /** If true, a controller was connected or disconnected */
+  plugged: boolean
+}
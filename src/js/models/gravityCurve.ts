@@ -0,0 +1,4 @@
+/**
+ * The curves which can decide how fast Tets fall at each level
+ */
+type GravityCurveName = 'guideline' | 'nes' | 'custom'
@@ -0,0 +1,12 @@
+/**
+ * Used in Engine and the settings panel to represent how held movement keys
+ * repeat
+ */
+interface HandlingOpts {
+  /** Delayed Auto Shift: how long left or right is held before it repeats */
+  das: number
+  /** Auto Repeat Rate: time between repeats once DAS is charged; 0 is instant */
+  arr: number
+  /** How many times faster than gravity the Tet falls while down is held */
+  softDropFactor: number
+}
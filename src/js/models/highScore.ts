@@ -0,0 +1,26 @@
+/**
+ * Used in Game to represent an entry of a high score table
+ */
+interface HighScore {
+  /** Name the player entered */
+  name: string
+  score: number
+  lines: number
+  /** Level the game ended on */
+  level: number
+  /** How long the game was played, in milliseconds, pauses left out */
+  duration: number
+  mode: GameMode
+  /** Seed of the game's piece sequence */
+  seed: number
+  /**
+   * When the game ended, in milliseconds since the epoch; this also tells
+   * entries apart
+   */
+  date: number
+}
+
+/**
+ * Used in Game to keep a high score table, best first, for each game mode
+ */
+type HighScoreTables = { [M in GameMode]?: HighScore[] }
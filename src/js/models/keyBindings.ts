@@ -0,0 +1,12 @@
+/**
+ * Used in Game and the settings panel to name what the user can do with a key
+ */
+type GameAction =
+  'moveLeft' | 'moveRight' | 'moveDown' | 'hardDrop' | 'rotateCW' |
+  'rotateCCW' | 'rotate180' | 'hold' | 'pause' | 'reset'
+
+/**
+ * Used in Game and the settings panel to map each action to the keys bound to
+ * it, as given by KeyboardEvent.code (e.g. 'ArrowLeft' or 'KeyX')
+ */
+type KeyBindings = { [A in GameAction]: string[] }
@@ -0,0 +1,6 @@
+/**
+ * Used in Engine to name what gives a Tet resting on something more time
+ * before it locks: only moving down a row ('step'), any move or rotation up to
+ * a limit ('move'), or any move or rotation at all ('infinite')
+ */
+type LockReset = 'step' | 'move' | 'infinite'
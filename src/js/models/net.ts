@@ -0,0 +1,75 @@
+/**
+ * Used in NetMatch to send a player's board to their opponent, who shows it
+ * in a miniature well
+ */
+interface NetBoard {
+  /**
+   * Rows of the board, top to bottom, the living Tet included, as written by
+   * serializeBoard
+   */
+  rows: string[]
+  score: number
+  lines: number
+  /** Garbage rows sent to the player which didn't push up yet */
+  garbageQueued: number
+}
+
+/**
+ * Used in NetHost and NetMatch: the messages of the network versus protocol,
+ * sent as JSON text over WebSocket. The host relays every message of a player
+ * to the other one, except the ones it answers itself
+ */
+type NetMessage =
+  /** Player to host, once connected: the protocol version they speak */
+  { type: 'hello', version: number } |
+  /** Host to player: the seat they got, 0 or 1 */
+  { type: 'welcome', seat: number } |
+  /** Host to player, who then gets disconnected: both seats are taken */
+  { type: 'full' } |
+  /** Host to player: the player couldn't be let in, and why */
+  { type: 'error', message: string } |
+  /** Host to player: an opponent took the other seat */
+  { type: 'joined' } |
+  /** Host to player: the opponent disconnected */
+  { type: 'left' } |
+  /**
+   * Seat 0 to seat 1: a round starts now, on boards sharing this seed. The
+   * match score comes along so both sides agree on it
+   */
+  { type: 'start', seed: number, round: number, bestOf: number,
+    wins: number[] } |
+  /** Either player: their board changed */
+  { type: 'board', board: NetBoard } |
+  /** Either player: garbage rows sent to the opponent */
+  { type: 'attack', rows: number } |
+  /** Either player: pause or resume the round for both */
+  { type: 'pause', paused: boolean } |
+  /** Either player: they topped out, losing the given round */
+  { type: 'topOut', round: number } |
+  /**
+   * Seat 0 to seat 1: the match was won, or a draw took the winning round
+   * back; these are the settled wins
+   */
+  { type: 'end', wins: number[] }
+
+/**
+ * Where a network versus match is at: connecting to the host, waiting for an
+ * opponent, ready for a round to start, playing one, or disconnected
+ */
+type NetStatus = 'connecting' | 'waiting' | 'ready' | 'playing' | 'closed'
+
+/**
+ * Used in Game and the network play panel to show how a network versus match
+ * is going
+ */
+interface NetState {
+  status: NetStatus
+  /** Seat of the player, 0 for whoever hosts; null until the host tells */
+  seat: number | null
+  /** Addresses others can join at, if this player hosts the match */
+  addresses: string[]
+  /** What happened last that the user should know about, if anything */
+  message: string | null
+  /** How the match is going */
+  match: VersusState
+}
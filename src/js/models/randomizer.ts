@@ -0,0 +1,34 @@
+/**
+ * Used in Engine to decide the type [0..6] of every Tet that comes into play
+ */
+interface Randomizer {
+  /** The name the randomizer was created with, e.g. 'bag' */
+  readonly name: RandomizerName
+  /** Returns the type of the next Tet; the first one is never an S or Z */
+  next(): number
+  /** Returns where the randomizer is at in its sequence */
+  getState(): RandomizerState
+  /** Puts the randomizer back to where getState() said it was at */
+  setState(state: RandomizerState): void
+}
+
+/**
+ * Used in Randomizer to save where it's at in its sequence, e.g. to resume a
+ * game
+ */
+interface RandomizerState {
+  /** Internal state of the randomizer's Prng */
+  prng: number
+  /**
+   * Tets the randomizer remembers: the ones left in the bag, the previous one
+   * or the history, depending on the randomizer
+   */
+  memory: number[]
+  /** If true, the first Tet is still to be dealt */
+  first: boolean
+}
+
+/**
+ * The randomizers that can be chosen for a game
+ */
+type RandomizerName = 'random' | 'bag' | 'nes' | 'tgm'
@@ -0,0 +1,56 @@
+/**
+ * Used in ReplayRecorder and ReplayPlayer to represent a recorded game
+ */
+interface Replay {
+  /** Format version of the replay; currently 2 */
+  version: number
+  /** Date.now() of when the game started; also identifies the replay */
+  recordedAt: number
+  /** Engine options the game was played with, seed included */
+  settings: EngineOpts
+  /**
+   * Every input fed to the engine, flattened into pairs of numbers: the time,
+   * in whole milliseconds, since the previous input (or since the game
+   * started), followed by the index of the input in REPLAY_INPUTS
+   */
+  inputs: number[]
+  /** Engine time, in milliseconds, at which the recording ended */
+  duration: number
+  score: number
+  lines: number
+  level: number
+}
+
+/**
+ * Used in Game to save a game left unfinished when the app was closed
+ */
+interface SuspendedGame {
+  /** Everything about the game, to resume it exactly where it was left */
+  snapshot: EngineSnapshot
+  /** The replay of the game so far, whose recording goes on once resumed */
+  replay: Replay
+}
+
+/**
+ * Used in the replay browser to list replays without sending their inputs
+ */
+interface ReplaySummary {
+  recordedAt: number
+  duration: number
+  score: number
+  lines: number
+  level: number
+  seed: number
+}
+
+/**
+ * Used in the replay controls to show how the playback is going
+ */
+interface ReplayState {
+  /** Identifies the replay being played, or null if none is */
+  recordedAt: number | null
+  paused: boolean
+  speed: number
+  time: number
+  duration: number
+}
@@ -0,0 +1,12 @@
+/**
+ * Used in Tet to represent where a Tet would end up if it were rotated
+ */
+interface RotationResult extends TetRep {
+  rotation: number
+  perim: number[][]
+  /**
+   * Index [0..4] of the Super Rotation System test that succeeded; 0 means no
+   * wall or floor kick was needed
+   */
+  kick: number
+}
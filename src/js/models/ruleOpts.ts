@@ -0,0 +1,28 @@
+/**
+ * Used in Engine and the settings panel to represent the rules a player picks
+ * for their games, besides the game mode and the clear gravity
+ */
+interface RuleOpts {
+  /** Number [1..6] of upcoming Tets shown */
+  previewCount: number
+  /** Whether the Tet can be rotated 180 degrees at once */
+  allow180: boolean
+  /** Level [0..29] the game starts at */
+  startLevel: number
+  /** Curve deciding how fast Tets fall at each level */
+  gravityCurve: GravityCurveName
+  /** Drop intervals, in milliseconds, of the 'custom' gravity curve */
+  customGravity: number[]
+  /** Randomizer deciding the type of every Tet that comes into play */
+  randomizer: RandomizerName
+  /** Scoring system deciding how many points clears and drops are worth */
+  scoring: ScoringName
+  /**
+   * Time [0..5000], in milliseconds, a Tet resting on something takes to lock
+   */
+  lockDelay: number
+  /** What gives a Tet resting on something more time before it locks */
+  lockReset: LockReset
+  /** Board dimensions games start from */
+  board: BoardPresetName
+}
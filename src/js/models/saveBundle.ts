@@ -0,0 +1,36 @@
+/**
+ * Used in Store to represent all of its data along with its schema version
+ */
+interface StoreSnapshot {
+  /** Schema version of the data, i.e. how many migrations it went through */
+  version: number
+  data: any
+}
+
+/**
+ * The JSON file all of the saved data is exported to and imported from. It
+ * holds a snapshot of each store:
+ *
+ * - config: the high score tables by game mode ('highScores'), the last name
+ *   entered for a high score ('playerName'), the key bindings ('keyBindings'),
+ *   the controller bindings by controller id ('padBindings'), the handling
+ *   ('handling'), the rules ('rules') and any other setting;
+ * - replays: the saved replays, most recent first ('replays'), and the game
+ *   left unfinished when the app was last closed, if any ('suspended').
+ */
+interface SaveBundle {
+  /** Always 'electris-save', to recognize the file */
+  format: string
+  /** Version of this bundle format */
+  bundleVersion: number
+  /** When the bundle was exported, as an ISO 8601 date */
+  exportedAt: string
+  config: StoreSnapshot
+  replays: StoreSnapshot
+}
+
+/**
+ * Used in SaveBundle imports to choose between combining the bundle with the
+ * data already saved ('merge') or throwing that data away ('replace')
+ */
+type ImportMode = 'merge' | 'replace'
@@ -0,0 +1,72 @@
+/**
+ * Used in Engine to decide how many points each line clear and drop is worth
+ */
+interface ScoringSystem {
+  /** The name the scoring system was created with, e.g. 'guideline' */
+  readonly name: ScoringName
+  /**
+   * Returns the awards for a Tet locking (or fragments settling) along with
+   * the rows it eliminated, if any
+   */
+  lineClear(clear: ClearEvent): Award[]
+  /** Returns the points for moving the living Tet down the given rows */
+  softDrop(rows: number): number
+  /** Returns the points for dropping the living Tet the given rows at once */
+  hardDrop(rows: number): number
+  /** Returns what the scoring system remembers of the previous clears */
+  getState(): ScoringState
+  /** Puts the scoring system back to what getState() said it remembered */
+  setState(state: ScoringState): void
+}
+
+/**
+ * Used in ScoringSystem to save what it remembers of the previous clears,
+ * e.g. to resume a game
+ */
+interface ScoringState {
+  /** Number of consecutive line clears minus 1; -1 when there's no combo */
+  combo: number
+  /** If true, the last line clear was a difficult one */
+  backToBack: boolean
+}
+
+/**
+ * The scoring systems that can be chosen for a game
+ */
+type ScoringName = 'classic' | 'guideline'
+
+/**
+ * Whether a T Tet was spun into place, per the 3-corner rule
+ */
+type TSpin = 'none' | 'mini' | 'full'
+
+/**
+ * Used in ScoringSystem to describe a Tet locking or fragments settling
+ */
+interface ClearEvent {
+  /** Number of rows eliminated, possibly 0 */
+  lines: number
+  /** Level the game was at when the rows got eliminated */
+  level: number
+  tSpin: TSpin
+  /** If true, nothing is left on the board after the rows got eliminated */
+  perfectClear: boolean
+  /** If true, the rows were filled by falling fragments, not a living Tet */
+  cascade: boolean
+  /**
+   * Place of the clear in a chain of clears caused by falling fragments, 1
+   * for the first one
+   */
+  chain: number
+}
+
+/**
+ * Used in Engine to represent points given out by a ScoringSystem
+ */
+interface Award {
+  /** Text shown to the player, e.g. 'T-Spin Double' */
+  label: string
+  points: number
+  /** Row of the board the award happened at; set by the Engine */
+  row?: number
+}
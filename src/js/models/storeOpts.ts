@@ -4,5 +4,30 @@
 interface StoreOpts {
   configName: string
   defaults: any
+  /**
+   * Upgrades of the saved data, in order: the one at index i takes data saved
+   * at schema version i to version i + 1. The current schema version is the
+   * number of migrations.
+   */
+  migrations?: StoreMigration[]
+  /**
+   * How long, in milliseconds, to wait for more changes before writing them
+   * to disk; defaults to 500
+   */
+  flushDelay?: number
   [propName: string]: any
 }
+
+/**
+ * Used in StoreOpts to upgrade saved data by one schema version
+ */
+type StoreMigration = (data: any) => any
+
+/**
+ * Used in Store to tell that a data file couldn't be read and was put aside
+ */
+interface StoreRecovery {
+  configName: string
+  /** Where the unreadable file was moved to */
+  backupPath: string
+}
@@ -0,0 +1,45 @@
+/**
+ * Used in TestScenario to name a Tet type by its letter
+ */
+type TetLetter = 'I' | 'J' | 'L' | 'O' | 'S' | 'T' | 'Z'
+
+/**
+ * Used in TestScenario to represent a landed Tet or fragment
+ */
+interface ScenarioTet {
+  /** Decides the color of the Tet; 'G' makes it garbage */
+  type: TetLetter | 'G'
+  /**
+   * Shape of the Tet or fragment, as in Tet.shape: rows from top to bottom,
+   * without trailing zeros
+   */
+  shape: number[][]
+  /**
+   * Row of the bottom of the shape, counted upwards from the floor of the
+   * board (0 being the bottom row)
+   */
+  row: number
+  /** Column of the left of the shape */
+  col: number
+}
+
+/**
+ * Used in Engine to set up a game in a given state, e.g. to try out a tricky
+ * case in Developer Mode
+ */
+interface TestScenario {
+  name: string
+  /** What the scenario is meant to exercise */
+  description: string
+  /** Landed Tets and fragments */
+  tets: ScenarioTet[]
+  /**
+   * Tets coming into play next, in order; the randomizer takes over once
+   * they're all dealt
+   */
+  next: TetLetter[]
+  /** Defaults to 0 */
+  score?: number
+  /** Defaults to 0 */
+  lines?: number
+}
@@ -0,0 +1,18 @@
+/**
+ * Used in Game and the versus controls to show how a versus match is going
+ */
+interface VersusState {
+  /** Number of rounds the match is the best of, e.g. 3 */
+  bestOf: number
+  /** Number of rounds won by each player */
+  wins: number[]
+  /** Number of the round being played, starting at 1 */
+  round: number
+  /**
+   * Player who won the last round: 0 or 1, -1 if both topped out at once, or
+   * null while the round is being played
+   */
+  roundWinner: number | null
+  /** Player who won the match, or null while it goes on */
+  matchWinner: number | null
+}
@@ -0,0 +1,45 @@
+/**
+ * These are the rules of each game mode. Marathon goes on until the board
+ * fills up, Sprint is about eliminating 40 rows as fast as possible, Ultra
+ * about scoring as much as possible in 2 minutes and Dig about eliminating 20
+ * rows of garbage as fast as possible, with a new one pushing up every 10
+ * Tets until they've all come up.
+ */
+export const GAME_MODES: { [M in GameMode]: ModeRules } = {
+  marathon: { label: 'Marathon', rankBy: 'score' },
+  sprint: { label: 'Sprint', goalLines: 40, rankBy: 'time' },
+  ultra: { label: 'Ultra', timeLimit: 2 * 60 * 1000, rankBy: 'score' },
+  dig: {
+    label: 'Dig',
+    garbageTotal: 20,
+    garbageRows: 8,
+    garbagePieces: 10,
+    rankBy: 'time'
+  }
+}
+
+/** These are the game modes, in the order they're offered to the user. */
+export const MODES = Object.keys(GAME_MODES) as GameMode[]
+
+/**
+ * This function checks if the given game mode exists, e.g. before trusting
+ * one read from the Store.
+ * @param mode This is the game mode to check.
+ * @returns If it's one of the game modes, return true; else, false.
+ */
+export function isGameMode(mode: any): mode is GameMode {
+  return typeof mode === 'string' && MODES.indexOf(mode as GameMode) !== -1
+}
+
+/**
+ * This function formats a play time the way the timers show it.
+ * @param ms This is the play time, in milliseconds.
+ * @returns The play time as m:ss.mmm, e.g. '1:05.250'.
+ */
+export function formatPlayTime(ms: number) {
+  const total = Math.max(Math.floor(ms), 0)
+  const s = Math.floor(total / 1000) % 60
+  const millis = total % 1000
+  return Math.floor(total / 60000) + ':' + (s < 10 ? '0' : '') + s + '.' +
+    (millis < 100 ? '0' : '') + (millis < 10 ? '0' : '') + millis
+}
@@ -0,0 +1,346 @@
+import { formatMessage, parseMessage, PROTOCOL_VERSION } from './netProtocol'
+
+const crypto = require('crypto')
+const http = require('http')
+const os = require('os')
+
+/**
+ * This is what the WebSocket handshake appends to the key of the client
+ * before hashing it (RFC 6455, section 1.3).
+ */
+const HANDSHAKE_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11'
+
+/**
+ * This is the size, in bytes, of the largest message we accept. Messages of
+ * the protocol are a few hundred bytes at most.
+ */
+const MAX_MESSAGE_SIZE = 64 * 1024
+
+/**
+ * Represents a player connected to the {@link NetHost}, reading and writing
+ * the frames of the WebSocket protocol on their socket. Only what the
+ * browser's WebSocket sends is supported: text messages, possibly
+ * fragmented, pings and closing.
+ */
+class Peer {
+  /** This is the seat the player got, or null until they said hello. */
+  seat: number | null
+  /** This is the TCP socket of the player. */
+  private socket: any
+  /** These are the bytes received which don't make up a whole frame yet. */
+  private received: Buffer
+  /** These are the payloads of a fragmented message received so far. */
+  private fragments: Buffer[]
+  /** This is called with every text message the player sends. */
+  private onMessage: (text: string) => void
+
+  /**
+   * @param socket This is the TCP socket, right after the handshake.
+   * @param onMessage This is called with every text message the player
+   *     sends.
+   * @param onClose This is called once the player is disconnected.
+   */
+  constructor(socket: any, onMessage: (text: string) => void,
+    onClose: () => void) {
+    // Force instantiation
+    if (!(this instanceof Peer)) {
+      return new Peer(socket, onMessage, onClose)
+    }
+
+    this.seat = null
+    this.socket = socket
+    this.received = Buffer.alloc(0)
+    this.fragments = []
+    this.onMessage = onMessage
+    socket.setNoDelay(true)
+    socket.on('data', (data: Buffer) => this.receive(data))
+    socket.on('close', onClose)
+    socket.on('error', () => socket.destroy())
+  }
+
+  /**
+   * This method sends a text message to the player.
+   * @param text This is the message.
+   */
+  send(text: string) {
+    this.write(0x1, Buffer.from(text, 'utf8'))
+  }
+
+  /**
+   * This method says goodbye to the player and disconnects them.
+   */
+  close() {
+    this.write(0x8, Buffer.alloc(0))
+    this.socket.end()
+  }
+
+  /**
+   * This method writes a single unmasked frame, as servers do.
+   * @param opcode This is the kind of frame, e.g. 0x1 for text.
+   * @param payload This is what the frame carries.
+   */
+  private write(opcode: number, payload: Buffer) {
+    if (this.socket.destroyed) return
+    let header: Buffer
+    if (payload.length < 126) {
+      header = Buffer.from([0x80 | opcode, payload.length])
+    } else if (payload.length < 0x10000) {
+      header = Buffer.from([0x80 | opcode, 126, 0, 0])
+      header.writeUInt16BE(payload.length, 2)
+    } else {
+      header = Buffer.from([0x80 | opcode, 127, 0, 0, 0, 0, 0, 0, 0, 0])
+      header.writeUInt32BE(payload.length, 6)
+    }
+    this.socket.write(Buffer.concat([header, payload]))
+  }
+
+  /**
+   * This method reads the frames out of the bytes received, keeping whatever
+   * is left of an incomplete frame for later.
+   * @param data These are the bytes just received.
+   */
+  private receive(data: Buffer) {
+    this.received = Buffer.concat([this.received, data])
+    while (this.received.length >= 2) {
+      const bytes = this.received
+      const fin = (bytes[0] & 0x80) !== 0
+      const opcode = bytes[0] & 0x0f
+      const masked = (bytes[1] & 0x80) !== 0
+      let length = bytes[1] & 0x7f
+      let offset = 2
+      if (length === 126) {
+        if (bytes.length < 4) return
+        length = bytes.readUInt16BE(2)
+        offset = 4
+      } else if (length === 127) {
+        if (bytes.length < 10) return
+        // Anything beyond 32 bits is way too big anyway
+        length = bytes.readUInt32BE(2) > 0 ? Infinity : bytes.readUInt32BE(6)
+        offset = 10
+      }
+      // Clients must mask every frame (RFC 6455, section 5.1), and control
+      // frames can't be fragmented nor carry more than 125 bytes (section
+      // 5.5)
+      const control = (opcode & 0x8) !== 0
+      if (length > MAX_MESSAGE_SIZE || !masked ||
+        (control && (!fin || length > 125))) {
+        this.socket.destroy()
+        return
+      }
+      const maskAt = offset
+      offset += 4
+      if (bytes.length < offset + length) return
+      const payload = Buffer.from(bytes.slice(offset, offset + length))
+      for (let i = 0; i < length; i++) payload[i] ^= bytes[maskAt + i % 4]
+      this.received = bytes.slice(offset + length)
+      this.handleFrame(fin, opcode, payload)
+    }
+  }
+
+  /**
+   * This method acts on a frame received.
+   * @param fin This is whether the frame is the last of its message.
+   * @param opcode This is the kind of frame.
+   * @param payload This is what the frame carries, unmasked.
+   */
+  private handleFrame(fin: boolean, opcode: number, payload: Buffer) {
+    switch (opcode) {
+      case 0x0: // continuation of a fragmented message
+      case 0x1: // text
+        this.fragments.push(payload)
+        if (this.fragments.reduce((size, part) => size + part.length, 0) >
+          MAX_MESSAGE_SIZE) {
+          this.socket.destroy()
+        } else if (fin) {
+          const text = Buffer.concat(this.fragments).toString('utf8')
+          this.fragments = []
+          this.onMessage(text)
+        }
+        break
+      case 0x8: // close
+        this.close()
+        break
+      case 0x9: // ping
+        this.write(0xa, payload)
+        break
+    }
+  }
+}
+
+/**
+ * Hosts network versus matches from the main process: a WebSocket server
+ * which 2 players connect to, the one hosting included, and which relays the
+ * messages of each player to the other. The players themselves run the game;
+ * see {@link NetMatch}.
+ */
+export class NetHost {
+  /** This is the port the host listens on, or null if it isn't hosting. */
+  port: number | null
+  /** This is the HTTP server the WebSocket connections upgrade from. */
+  private server: any
+  /** These are the players connected, whether they have a seat or not. */
+  private peers: Peer[]
+
+  constructor() {
+    // Force instantiation
+    if (!(this instanceof NetHost)) {
+      return new NetHost()
+    }
+
+    this.port = null
+    this.server = null
+    this.peers = []
+  }
+
+  /**
+   * This method lists the addresses other computers of the network can join
+   * a match at.
+   * @param port This is the port the host listens on.
+   * @returns The addresses, as host:port.
+   */
+  static getAddresses(port: number) {
+    const addresses: string[] = []
+    const interfaces = os.networkInterfaces()
+    for (const name in interfaces) {
+      interfaces[name].forEach((info: any) => {
+        if (info.family === 'IPv4' && !info.internal) {
+          addresses.push(info.address + ':' + port)
+        }
+      })
+    }
+    return addresses
+  }
+
+  /**
+   * This method starts hosting, after hanging up on whatever was hosted
+   * before.
+   * @param port This is the port to listen on, on every network interface.
+   * @param callback This is called with null once the host listens, or with
+   *     the error which kept it from doing so, e.g. the port being taken.
+   */
+  start(port: number, callback: (error: Error | null) => void) {
+    this.stop()
+    const server = http.createServer((_request: any, response: any) => {
+      response.writeHead(426, { 'Content-Type': 'text/plain' })
+      response.end('Electris matches are played over WebSocket.\n')
+    })
+    server.on('upgrade', (request: any, socket: any) =>
+      this.accept(request, socket))
+    const onListenError = (error: Error) => {
+      if (this.server === server) this.server = null
+      callback(error)
+    }
+    server.once('error', onListenError)
+    server.listen(port, () => {
+      server.removeListener('error', onListenError)
+      // The callback was already told the host listens; an error from now on
+      // ends the hosting
+      server.on('error', () => {
+        if (this.server === server) this.stop()
+      })
+      this.port = port
+      callback(null)
+    })
+    this.server = server
+  }
+
+  /**
+   * This method stops hosting, disconnecting the players.
+   */
+  stop() {
+    if (this.server === null) return
+    this.peers.forEach((peer) => peer.close())
+    this.peers = []
+    this.server.close()
+    this.server = null
+    this.port = null
+  }
+
+  /**
+   * This method completes the WebSocket handshake of a player connecting.
+   * @param request This is the HTTP request asking to upgrade.
+   * @param socket This is the TCP socket of the player.
+   */
+  private accept(request: any, socket: any) {
+    const key = request.headers['sec-websocket-key']
+    if (typeof key !== 'string' ||
+      String(request.headers.upgrade).toLowerCase() !== 'websocket') {
+      socket.destroy()
+      return
+    }
+    const accept = crypto.createHash('sha1').update(key + HANDSHAKE_GUID)
+      .digest('base64')
+    socket.write('HTTP/1.1 101 Switching Protocols\r\n' +
+      'Upgrade: websocket\r\n' +
+      'Connection: Upgrade\r\n' +
+      'Sec-WebSocket-Accept: ' + accept + '\r\n\r\n')
+    const peer: Peer = new Peer(socket,
+      (text) => this.handleMessage(peer, text),
+      () => this.handleClose(peer))
+    this.peers.push(peer)
+  }
+
+  /**
+   * This method seats a player saying hello, and relays every other message
+   * of a seated player to their opponent.
+   * @param peer This is the player who sent the message.
+   * @param text This is the message.
+   */
+  private handleMessage(peer: Peer, text: string) {
+    const message = parseMessage(text)
+    if (message === null) return
+    if (message.type !== 'hello') {
+      const opponent = this.getOpponent(peer)
+      if (opponent !== null) opponent.send(text)
+      return
+    }
+    if (peer.seat !== null) return
+    if (message.version !== PROTOCOL_VERSION) {
+      peer.send(formatMessage({
+        type: 'error',
+        message: 'The host plays another version of Electris.'
+      }))
+      peer.close()
+      return
+    }
+    const taken = this.peers.map((p) => p.seat)
+    const seat = taken.indexOf(0) === -1 ? 0 : taken.indexOf(1) === -1 ? 1
+      : null
+    if (seat === null) {
+      peer.send(formatMessage({ type: 'full' }))
+      peer.close()
+      return
+    }
+    peer.seat = seat
+    peer.send(formatMessage({ type: 'welcome', seat }))
+    const opponent = this.getOpponent(peer)
+    if (opponent !== null) {
+      opponent.send(formatMessage({ type: 'joined' }))
+      peer.send(formatMessage({ type: 'joined' }))
+    }
+  }
+
+  /**
+   * This method lets the opponent of a player who disconnected know.
+   * @param peer This is the player who disconnected.
+   */
+  private handleClose(peer: Peer) {
+    const i = this.peers.indexOf(peer)
+    if (i === -1) return
+    this.peers.splice(i, 1)
+    const opponent = this.getOpponent(peer)
+    if (opponent !== null) opponent.send(formatMessage({ type: 'left' }))
+  }
+
+  /**
+   * This method finds the player in the other seat.
+   * @param peer This is the player whose opponent to find.
+   * @returns The opponent, or null if the player has no seat or no opponent.
+   */
+  private getOpponent(peer: Peer) {
+    if (peer.seat === null) return null
+    const others = this.peers.filter(
+      (p) => p !== peer && p.seat !== null && p.seat !== peer.seat)
+    return others.length > 0 ? others[0] : null
+  }
+}
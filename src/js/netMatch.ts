@@ -0,0 +1,383 @@
+import { Engine } from './engine'
+import { serializeBoard } from './fixtures'
+import { formatMessage, parseMessage, PROTOCOL_VERSION } from './netProtocol'
+import { Prng } from './prng'
+import { BEST_OF, getAttack, getWinsNeeded } from './versus'
+
+/**
+ * Represents a network versus match as seen by one of its 2 players: their
+ * own engine, which they play on, and the latest board their opponent sent.
+ * Both players run the game on their own; what goes over the WebSocket are
+ * boards, garbage and the start and end of rounds (see {@link NetMessage}).
+ * Seat 0, which is whoever hosts, starts the rounds.
+ */
+export class NetMatch {
+  // Public Vars
+  /**
+   * This is how long, in milliseconds, to wait at least between sending 2
+   * boards to the opponent.
+   */
+  static readonly BOARD_INTERVAL: number = 50
+  /** This is the engine of the player, which they play the round on. */
+  engine: Engine
+  /** This is the latest board the opponent sent, or null if none was. */
+  opponent: NetBoard | null
+  /** This is where the match is at. */
+  status: NetStatus
+  /** This is the seat of the player, or null until the host tells. */
+  seat: number | null
+  /** These are the addresses others can join at, if the player hosts. */
+  addresses: string[]
+  /** This is what happened last that the user should know about, if any. */
+  message: string | null
+  /** This is the number of rounds the match is the best of. */
+  bestOf: number
+  /** These are the numbers of rounds won by each seat. */
+  wins: number[]
+  /** This is the number of the round being played, starting at 1. */
+  round: number
+  /**
+   * This is the seat which won the last round, -1 if it was a draw, or null
+   * while the round is being played.
+   */
+  roundWinner: number | null
+
+  // Private vars
+  /** These are the options the engine of every round is created with. */
+  private opts: EngineOpts
+  /** This is the connection to the host, once there's one. */
+  private socket: WebSocket | null
+  /** This is called whenever something the UI shows changed. */
+  private onChange: () => void
+  /** This is the last board sent to the opponent, as JSON. */
+  private sentBoard: string
+  /** This is the engine time at which a board was last sent. */
+  private sentBoardAt: number
+
+  /**
+   * @param opts These are the options of the player's engine; its seed comes
+   *     from the host for every round.
+   * @param bestOf This is the number of rounds the match is the best of,
+   *     if the player hosts it; otherwise, the host's goes.
+   * @param onChange This is called whenever something the UI shows changed.
+   */
+  constructor(opts: EngineOpts, bestOf: number, onChange: () => void) {
+    // Force instantiation
+    if (!(this instanceof NetMatch)) {
+      return new NetMatch(opts, bestOf, onChange)
+    }
+
+    this.opts = opts
+    this.bestOf = BEST_OF.indexOf(bestOf) !== -1 ? bestOf : 3
+    this.wins = [0, 0]
+    this.round = 0
+    this.roundWinner = null
+    this.opponent = null
+    this.status = 'connecting'
+    this.seat = null
+    this.addresses = []
+    this.message = null
+    this.socket = null
+    this.onChange = onChange
+    this.newEngine(Prng.randomSeed())
+  }
+
+  /**
+   * This method connects to the host and asks it for a seat.
+   * @param address This is the host:port of the host.
+   */
+  connect(address: string) {
+    const socket = new WebSocket('ws://' + address)
+    socket.onopen = () => {
+      this.send({ type: 'hello', version: PROTOCOL_VERSION })
+    }
+    socket.onmessage = (event) => {
+      const message = parseMessage(String(event.data))
+      if (message !== null) this.handleMessage(message)
+    }
+    socket.onclose = () => {
+      if (this.status === 'closed') return
+      // The host may have said why it let us go
+      if (this.seat !== null) {
+        this.fail('The connection to the host was lost.')
+      } else {
+        this.fail(this.message || 'Couldn\'t connect to ' + address + '.')
+      }
+    }
+    this.socket = socket
+  }
+
+  /**
+   * This method gives up on the match, e.g. because the host couldn't be
+   * started.
+   * @param message This is why, for the user.
+   */
+  fail(message: string) {
+    this.status = 'closed'
+    this.message = message
+    this.opponent = null
+    this.engine.endGame('toppedOut')
+    this.onChange()
+  }
+
+  /**
+   * This method tells who won the match, if anyone did yet.
+   * @returns The seat which won the match, or null while it goes on.
+   */
+  getMatchWinner() {
+    const needed = getWinsNeeded(this.bestOf)
+    const len = this.wins.length
+    for (let i = 0; i < len; i++) {
+      if (this.wins[i] >= needed) return i
+    }
+    return null
+  }
+
+  /**
+   * This method gives the state of the match, e.g. for the UI.
+   * @returns The state of the match.
+   */
+  getState(): NetState {
+    return {
+      status: this.status,
+      seat: this.seat,
+      addresses: this.addresses,
+      message: this.message,
+      match: {
+        bestOf: this.bestOf,
+        wins: this.wins.slice(),
+        round: this.round,
+        roundWinner: this.roundWinner,
+        matchWinner: this.getMatchWinner()
+      }
+    }
+  }
+
+  /**
+   * This method is what the player pausing does: it starts the next round
+   * if they host and none is being played, or pauses the round for both
+   * players, or resumes it.
+   */
+  pause() {
+    if (this.status === 'ready' && this.seat === 0) {
+      this.start()
+    } else if (this.status === 'playing' && this.roundWinner === null) {
+      const paused = !this.engine.paused
+      this.engine.step([paused ? 'pause' : 'resume'], 0)
+      this.send({ type: 'pause', paused })
+    }
+  }
+
+  /**
+   * This method advances the player's engine, applies their inputs, then
+   * sends the opponent the garbage of the rows they eliminated and their
+   * board, if it changed. Garbage sent first cancels out the garbage waiting
+   * to push up on the player's board.
+   * @param inputs These are the actions the player performed.
+   * @param dt This is the amount of time to simulate, in milliseconds.
+   */
+  step(inputs: EngineInput[], dt: number) {
+    const engine = this.engine
+    engine.step(inputs, dt)
+    if (this.status !== 'playing') return
+    const clears = engine.clears.splice(0)
+    let attack = 0
+    const len = clears.length
+    for (let i = 0; i < len; i++) attack += getAttack(clears[i])
+    const cancelled = Math.min(attack, engine.garbageQueued)
+    engine.garbageQueued -= cancelled
+    if (attack > cancelled) {
+      this.send({ type: 'attack', rows: attack - cancelled })
+    }
+    if (engine.time - this.sentBoardAt >= NetMatch.BOARD_INTERVAL) {
+      this.sendBoard()
+    }
+    if (engine.gameOver && engine.outcome === 'toppedOut' &&
+      this.roundWinner === null && this.seat !== null) {
+      // Make sure the opponent sees how we topped out
+      this.sendBoard()
+      this.send({ type: 'topOut', round: this.round })
+      this.endRound(1 - this.seat)
+    }
+  }
+
+  /**
+   * This method leaves the match, disconnecting from the host.
+   */
+  close() {
+    this.status = 'closed'
+    if (this.socket !== null) this.socket.close()
+  }
+
+  /**
+   * This method starts the next round, or a new match once this one was
+   * won, and tells the opponent to do the same.
+   */
+  private start() {
+    if (this.getMatchWinner() !== null) {
+      this.wins = [0, 0]
+      this.round = 0
+    }
+    const seed = Prng.randomSeed()
+    this.startRound(seed, this.round + 1)
+    this.send({
+      type: 'start',
+      seed,
+      round: this.round,
+      bestOf: this.bestOf,
+      wins: this.wins
+    })
+  }
+
+  /**
+   * This method starts a round on a fresh engine, right away.
+   * @param seed This is the seed both players' engines share.
+   * @param round This is the number of the round.
+   */
+  private startRound(seed: number, round: number) {
+    this.newEngine(seed)
+    this.engine.step(['resume'], 0)
+    this.round = round
+    this.roundWinner = null
+    this.opponent = null
+    this.status = 'playing'
+    this.message = null
+    this.sendBoard()
+    this.onChange()
+  }
+
+  /**
+   * This method creates the engine the player plays the next round on.
+   * @param seed This is the seed of the round.
+   */
+  private newEngine(seed: number) {
+    this.engine = new Engine(Object.assign({}, this.opts, { seed }))
+    this.sentBoard = ''
+    this.sentBoardAt = -Infinity
+  }
+
+  /**
+   * This method ends the round, giving it to a seat. Once the match is won,
+   * the host lets the opponent know its final score; it does so again if the
+   * round turns out to be a draw.
+   * @param winner This is the seat which won the round, or -1 for a draw.
+   */
+  private endRound(winner: number) {
+    this.roundWinner = winner
+    if (winner !== -1) this.wins[winner]++
+    this.engine.endGame(winner === this.seat ? 'finished' : 'toppedOut')
+    this.status = 'ready'
+    if (this.seat === 0 && this.getMatchWinner() !== null) {
+      this.send({ type: 'end', wins: this.wins })
+    }
+    this.onChange()
+  }
+
+  /**
+   * This method sends the player's board to the opponent, unless it didn't
+   * change since it was last sent.
+   */
+  private sendBoard() {
+    const engine = this.engine
+    const board: NetBoard = {
+      rows: serializeBoard(engine, true),
+      score: engine.score,
+      lines: engine.lines,
+      garbageQueued: engine.garbageQueued
+    }
+    const json = JSON.stringify(board)
+    if (json === this.sentBoard) return
+    this.sentBoard = json
+    this.sentBoardAt = engine.time
+    this.send({ type: 'board', board })
+  }
+
+  /**
+   * This method sends a message to the opponent, through the host.
+   * @param message This is the message.
+   */
+  private send(message: NetMessage) {
+    const socket = this.socket
+    if (socket !== null && socket.readyState === WebSocket.OPEN) {
+      socket.send(formatMessage(message))
+    }
+  }
+
+  /**
+   * This method acts on a message from the host or the opponent.
+   * @param message This is the message.
+   */
+  private handleMessage(message: NetMessage) {
+    switch (message.type) {
+      case 'welcome':
+        this.seat = message.seat
+        this.status = 'waiting'
+        this.message = message.seat === 0 ? null : 'Waiting for the host.'
+        break
+      case 'full':
+        this.message = 'Both seats of this match are taken.'
+        break
+      case 'error':
+        this.message = message.message
+        break
+      case 'joined':
+        this.status = 'ready'
+        this.message = this.seat === 0
+          ? 'Your opponent joined. Pause to start the round.'
+          : 'Joined. Waiting for the host to start the round.'
+        break
+      case 'left':
+        // Whoever joins next starts a new match
+        this.status = 'waiting'
+        this.wins = [0, 0]
+        this.round = 0
+        this.roundWinner = null
+        this.engine.endGame('finished')
+        this.opponent = null
+        this.message = 'Your opponent left.'
+        break
+      case 'start':
+        // Only the host starts rounds
+        if (this.seat !== 1) return
+        this.bestOf = BEST_OF.indexOf(message.bestOf) !== -1
+          ? message.bestOf : this.bestOf
+        this.wins = [Number(message.wins[0]) || 0, Number(message.wins[1]) || 0]
+        this.startRound(message.seed, message.round)
+        return
+      case 'board':
+        this.opponent = message.board
+        return
+      case 'attack':
+        if (this.status === 'playing' && this.roundWinner === null) {
+          this.engine.receiveGarbage(Math.floor(message.rows))
+        }
+        return
+      case 'pause':
+        if (this.status === 'playing' && this.roundWinner === null) {
+          this.engine.step([message.paused ? 'pause' : 'resume'], 0)
+        }
+        break
+      case 'topOut':
+        if (message.round !== this.round || this.seat === null) return
+        if (this.roundWinner === null) {
+          this.endRound(this.seat)
+        } else if (this.roundWinner === 1 - this.seat) {
+          // We both topped out before hearing of the other: that's a draw
+          const matchWon = this.getMatchWinner() !== null
+          this.wins[this.roundWinner]--
+          this.roundWinner = -1
+          // The opponent may have been told the match was won already, so
+          // they need the settled wins
+          if (this.seat === 0 && matchWon) {
+            this.send({ type: 'end', wins: this.wins })
+          }
+        }
+        break
+      case 'end':
+        if (this.seat !== 1) return
+        this.wins = [Number(message.wins[0]) || 0, Number(message.wins[1]) || 0]
+        break
+    }
+    this.onChange()
+  }
+}
@@ -0,0 +1,80 @@
+/**
+ * This is the version of the network versus protocol. Players speaking
+ * another version can't join a match.
+ */
+export const PROTOCOL_VERSION = 1
+
+/** This is the port matches are hosted on unless the user picks another. */
+export const DEFAULT_PORT = 7878
+
+/**
+ * These are the fields each message of the protocol carries, besides its
+ * type, along with what typeof gives for them.
+ */
+const MESSAGE_FIELDS: { [type: string]: { [field: string]: string } } = {
+  hello: { version: 'number' },
+  welcome: { seat: 'number' },
+  full: {},
+  error: { message: 'string' },
+  joined: {},
+  left: {},
+  start: { seed: 'number', round: 'number', bestOf: 'number', wins: 'object' },
+  board: { board: 'object' },
+  attack: { rows: 'number' },
+  pause: { paused: 'boolean' },
+  topOut: { round: 'number' },
+  end: { wins: 'object' }
+}
+
+/**
+ * This function checks that a board sent by the opponent can be drawn.
+ * @param board This is the board, as received.
+ * @returns If its rows are strings and its counts finite numbers, return
+ *     true; else, false.
+ */
+function isBoard(board: any) {
+  return Array.isArray(board.rows) &&
+    board.rows.every((row: any) => typeof row === 'string') &&
+    [board.score, board.lines, board.garbageQueued].every(
+      (count) => typeof count === 'number' && isFinite(count))
+}
+
+/**
+ * This function reads a message of the protocol, making sure it's one: the
+ * other end can't be trusted to send what it should.
+ * @param text This is the JSON text received.
+ * @returns The message, or null if it isn't a valid one.
+ */
+export function parseMessage(text: string): NetMessage | null {
+  let message: any
+  try {
+    message = JSON.parse(text)
+  } catch (error) {
+    return null
+  }
+  if (typeof message !== 'object' || message === null ||
+    !MESSAGE_FIELDS.hasOwnProperty(message.type)) {
+    return null
+  }
+  const fields = MESSAGE_FIELDS[message.type]
+  for (const field in fields) {
+    if (typeof message[field] !== fields[field] || message[field] === null) {
+      return null
+    }
+  }
+  if (message.type === 'board' && !isBoard(message.board)) return null
+  if ((message.type === 'start' || message.type === 'end') &&
+    !Array.isArray(message.wins)) {
+    return null
+  }
+  return message as NetMessage
+}
+
+/**
+ * This function writes a message of the protocol.
+ * @param message This is the message to write.
+ * @returns The JSON text to send.
+ */
+export function formatMessage(message: NetMessage) {
+  return JSON.stringify(message)
+}
@@ -0,0 +1,67 @@
+/**
+ * A small seedable pseudo-random number generator (Mulberry32). Two Prng
+ * objects created with the same seed always produce the same sequence, which
+ * is what lets two players get identical Tets.
+ */
+export class Prng {
+  /** This is the seed the generator was created with. */
+  readonly seed: number
+  /** This is the 32-bit internal state of the generator. */
+  private state: number
+
+  /**
+   * @param seed Any integer; only its lower 32 bits are used.
+   */
+  constructor(seed: number) {
+    this.seed = seed >>> 0
+    this.state = this.seed
+  }
+
+  /**
+   * This method picks a random seed to start a game with when the user didn't
+   * ask for a specific one.
+   * @returns An unsigned 32-bit integer.
+   */
+  static randomSeed() {
+    return Math.floor(Math.random() * 0x100000000) >>> 0
+  }
+
+  /**
+   * This method gives the internal state of the generator, e.g. to save a game
+   * in the middle of its sequence.
+   * @returns The 32-bit internal state.
+   */
+  getState() {
+    return this.state
+  }
+
+  /**
+   * This method puts the generator back to a state given by getState(), from
+   * which it goes on with the very same sequence.
+   * @param state This is the 32-bit internal state.
+   */
+  setState(state: number) {
+    this.state = state | 0
+  }
+
+  /**
+   * This method advances the generator.
+   * @returns A floating point number in the range [0, 1).
+   */
+  next() {
+    this.state = (this.state + 0x6d2b79f5) | 0
+    let t = this.state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000
+  }
+
+  /**
+   * This method advances the generator.
+   * @param n This is the number of possible outcomes.
+   * @returns An integer in the range [0..n - 1].
+   */
+  nextInt(n: number) {
+    return Math.floor(this.next() * n)
+  }
+}
@@ -0,0 +1,237 @@
+import { Prng } from './prng'
+
+// Tet types, in order: I, J, L, O, S, T, Z
+const TET_NUM = 7
+const S = 4
+const Z = 6
+
+/**
+ * Every Tet type is equally likely, with no memory of previous Tets. The
+ * first Tet is never an S or Z since those can't be placed without leaving a
+ * hole on an empty board.
+ */
+export class PureRandomizer implements Randomizer {
+  readonly name: RandomizerName = 'random'
+  private prng: Prng
+  private first: boolean
+
+  constructor(seed: number) {
+    this.prng = new Prng(seed)
+    this.first = true
+  }
+
+  next() {
+    let t = this.prng.nextInt(TET_NUM)
+    // Reroll rather than substitute so the other 5 Tets stay equally likely
+    while (this.first && (t === S || t === Z)) {
+      t = this.prng.nextInt(TET_NUM)
+    }
+    this.first = false
+    return t
+  }
+
+  getState() {
+    return { prng: this.prng.getState(), memory: [], first: this.first }
+  }
+
+  setState(state: RandomizerState) {
+    this.prng.setState(state.prng)
+    this.first = state.first
+  }
+}
+
+/**
+ * The Tetris Guideline "7-bag": all 7 Tets are shuffled into a bag and dealt
+ * out one by one, so each Tet shows up exactly once every 7 Tets. The first
+ * bag is never dealt starting with an S or Z.
+ */
+export class BagRandomizer implements Randomizer {
+  readonly name: RandomizerName = 'bag'
+  private prng: Prng
+  private bag: number[]
+  private first: boolean
+
+  constructor(seed: number) {
+    this.prng = new Prng(seed)
+    this.bag = []
+    this.first = true
+  }
+
+  next() {
+    if (this.bag.length === 0) {
+      this.shuffle()
+      // Reshuffle rather than swap so the other Tets stay equally likely
+      while (this.first && (this.bag[0] === S || this.bag[0] === Z)) {
+        this.shuffle()
+      }
+      this.first = false
+    }
+    return this.bag.shift() as number
+  }
+
+  getState() {
+    return {
+      prng: this.prng.getState(),
+      memory: this.bag.slice(),
+      first: this.first
+    }
+  }
+
+  setState(state: RandomizerState) {
+    this.prng.setState(state.prng)
+    this.bag = state.memory.slice()
+    this.first = state.first
+  }
+
+  /**
+   * This method fills the bag with all 7 Tets, in a random order.
+   */
+  private shuffle() {
+    this.bag = []
+    for (let t = 0; t < TET_NUM; t++) this.bag.push(t)
+    // Fisher-Yates shuffle
+    for (let i = TET_NUM - 1; i > 0; i--) {
+      const j = this.prng.nextInt(i + 1)
+      const tmp = this.bag[i]
+      this.bag[i] = this.bag[j]
+      this.bag[j] = tmp
+    }
+  }
+}
+
+/**
+ * The NES Tetris randomizer: roll among 8 outcomes and, if that gives the
+ * previous Tet (or the 8th "dummy" outcome), reroll once among the 7 Tets.
+ * Repeats are possible but rarer than with pure random. The first Tet is never
+ * an S or Z.
+ */
+export class NesRandomizer implements Randomizer {
+  readonly name: RandomizerName = 'nes'
+  private prng: Prng
+  private prev: number
+  private first: boolean
+
+  constructor(seed: number) {
+    this.prng = new Prng(seed)
+    // Start as if an S was just dealt, the way the NES does
+    this.prev = S
+    this.first = true
+  }
+
+  next() {
+    let t = this.roll()
+    // Roll again rather than substitute so the other 5 Tets stay equally
+    // likely
+    while (this.first && (t === S || t === Z)) t = this.roll()
+    this.first = false
+    this.prev = t
+    return t
+  }
+
+  getState() {
+    return {
+      prng: this.prng.getState(),
+      memory: [this.prev],
+      first: this.first
+    }
+  }
+
+  setState(state: RandomizerState) {
+    this.prng.setState(state.prng)
+    this.prev = state.memory[0]
+    this.first = state.first
+  }
+
+  /**
+   * This method rolls a Tet the NES way, rerolling once on a repeat.
+   * @returns The type of the Tet.
+   */
+  private roll() {
+    let t = this.prng.nextInt(TET_NUM + 1)
+    if (t === TET_NUM || t === this.prev) {
+      t = this.prng.nextInt(TET_NUM)
+    }
+    return t
+  }
+}
+
+/**
+ * The Tetris: The Grand Master randomizer: keep a history of the last 4 Tets
+ * and reroll up to 4 times while the rolled Tet is in that history. The
+ * history starts filled with Z's, and the first Tet is never an S, Z or O.
+ */
+export class TgmRandomizer implements Randomizer {
+  readonly name: RandomizerName = 'tgm'
+  private prng: Prng
+  private history: number[]
+  private first: boolean
+
+  constructor(seed: number) {
+    this.prng = new Prng(seed)
+    this.history = [Z, Z, Z, Z]
+    this.first = true
+  }
+
+  next() {
+    let t: number
+    if (this.first) {
+      // I, J, L or T
+      t = [0, 1, 2, 5][this.prng.nextInt(4)]
+      this.first = false
+    } else {
+      t = this.prng.nextInt(TET_NUM)
+      for (let roll = 1; roll < 4 && this.history.indexOf(t) > -1; roll++) {
+        t = this.prng.nextInt(TET_NUM)
+      }
+    }
+    this.history.shift()
+    this.history.push(t)
+    return t
+  }
+
+  getState() {
+    return {
+      prng: this.prng.getState(),
+      memory: this.history.slice(),
+      first: this.first
+    }
+  }
+
+  setState(state: RandomizerState) {
+    this.prng.setState(state.prng)
+    this.history = state.memory.slice()
+    this.first = state.first
+  }
+}
+
+/** These are the randomizers, in the order they're offered to the user. */
+export const RANDOMIZERS: RandomizerName[] = ['random', 'bag', 'nes', 'tgm']
+
+/** These are the names of the randomizers. */
+export const RANDOMIZER_LABELS: { [R in RandomizerName]: string } = {
+  random: 'Pure random',
+  bag: '7-bag',
+  nes: 'NES',
+  tgm: 'TGM history'
+}
+
+/**
+ * This function creates the randomizer with the given name.
+ * @param name This is the name of the randomizer, e.g. 'bag'.
+ * @param seed This is the seed of the randomizer's Prng.
+ * @returns The randomizer, which falls back on pure random if the name is
+ *     unknown.
+ */
+export function createRandomizer(name: RandomizerName, seed: number)
+  : Randomizer {
+  switch (name) {
+    case 'bag':
+      return new BagRandomizer(seed)
+    case 'nes':
+      return new NesRandomizer(seed)
+    case 'tgm':
+      return new TgmRandomizer(seed)
+    default:
+      return new PureRandomizer(seed)
+  }
+}
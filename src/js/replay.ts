@@ -0,0 +1,209 @@
+import { Engine } from './engine'
+
+/**
+ * These are the inputs a replay can hold. Their index in this list is what
+ * gets saved, so new inputs must only ever be appended.
+ */
+export const REPLAY_INPUTS: EngineInput[] = [
+  'moveLeft', 'moveRight', 'moveDown', 'moveUp', 'hardDrop', 'rotateCW',
+  'rotateCCW', 'rotate180', 'hold', 'pause', 'resume', 'releaseLeft',
+  'releaseRight', 'releaseDown'
+]
+
+/**
+ * This is the version of the replay format written by ReplayRecorder. Before
+ * version 2, moves were single taps which were never released.
+ */
+const REPLAY_VERSION = 2
+
+/**
+ * Records every input fed to an engine, from the moment it's reset until the
+ * game ends, as a compact {@link Replay}.
+ */
+export class ReplayRecorder {
+  /** This is the replay being recorded. */
+  private replay: Replay
+  /** This is the engine time of the last input recorded. */
+  private lastTime: number
+
+  /**
+   * @param settings These are the options the engine was created with.
+   * @param seed This is the seed the engine was last reset with.
+   */
+  constructor(settings: EngineOpts, seed: number) {
+    const replaySettings = Object.assign({}, settings, { seed: seed })
+    delete replaySettings.devModeOn
+    this.replay = {
+      version: REPLAY_VERSION,
+      recordedAt: Date.now(),
+      settings: replaySettings,
+      inputs: [],
+      duration: 0,
+      score: 0,
+      lines: 0,
+      level: 0
+    }
+    this.lastTime = 0
+  }
+
+  /**
+   * This method goes on recording a replay which was cut short, e.g. because
+   * the app was closed in the middle of a game.
+   * @param replay This is the replay to go on recording.
+   * @returns The recorder, picking up where the replay ended.
+   */
+  static resume(replay: Replay) {
+    const recorder = new ReplayRecorder(replay.settings,
+      replay.settings.seed as number)
+    recorder.replay = replay
+    const len = replay.inputs.length
+    for (let i = 0; i < len; i += 2) recorder.lastTime += replay.inputs[i]
+    return recorder
+  }
+
+  /**
+   * This method records an input.
+   * @param time This is the engine time at which the input was applied. Only
+   *     whole milliseconds can be recorded.
+   * @param input This is the input that was applied.
+   */
+  record(time: number, input: EngineInput) {
+    this.replay.inputs.push(time - this.lastTime, REPLAY_INPUTS.indexOf(input))
+    this.lastTime = time
+  }
+
+  /**
+   * This method checks if anything worth saving was recorded.
+   * @returns If at least one Tet was moved, return true; else, false.
+   */
+  hasMoves() {
+    const len = this.replay.inputs.length
+    for (let i = 1; i < len; i += 2) {
+      const input = REPLAY_INPUTS[this.replay.inputs[i]]
+      if (input !== 'pause' && input !== 'resume') return true
+    }
+    return false
+  }
+
+  /**
+   * This method ends the recording.
+   * @param engine This is the engine the inputs were fed to.
+   * @returns The finished replay.
+   */
+  finish(engine: Engine) {
+    this.replay.duration = engine.time
+    this.replay.score = engine.score
+    this.replay.lines = engine.lines
+    this.replay.level = engine.level
+    return this.replay
+  }
+}
+
+/**
+ * Plays a {@link Replay} back by feeding its inputs to a fresh engine at the
+ * times they were recorded at. Since the engine only depends on its seed and
+ * the inputs it's fed, this reproduces the game exactly.
+ */
+export class ReplayPlayer {
+  /** This is the slowest speed a replay can be played at. */
+  static readonly MIN_SPEED: number = 0.5
+  /** This is the fastest speed a replay can be played at. */
+  static readonly MAX_SPEED: number = 4
+  /** This is the replay being played. */
+  readonly replay: Replay
+  /** This is the engine the replay is played on; it gets replaced on seek. */
+  engine: Engine
+  /** If true, time doesn't move forward in the replay. */
+  paused: boolean
+  /** This is how many times faster than real time the replay is played. */
+  speed: number
+  /** This is the index of the next input to apply in replay.inputs. */
+  private cursor: number
+  /** This is the engine time at which the next input is applied. */
+  private nextInputAt: number
+
+  /**
+   * @param replay This is the replay to play.
+   */
+  constructor(replay: Replay) {
+    // Force instantiation
+    if (!(this instanceof ReplayPlayer)) {
+      return new ReplayPlayer(replay)
+    }
+
+    this.replay = replay
+    this.paused = false
+    this.speed = 1
+    this.restart()
+  }
+
+  /**
+   * This method moves the replay forward by the given real time, scaled by
+   * the speed of the replay.
+   * @param dt This is the real time that passed, in milliseconds.
+   */
+  advance(dt: number) {
+    if (this.paused) return
+    this.runTo(Math.min(this.engine.time + dt * this.speed,
+      this.replay.duration))
+  }
+
+  /**
+   * This method jumps to the given time of the replay. Jumping backwards
+   * plays the replay again from the start.
+   * @param time This is the engine time to jump to, in milliseconds.
+   */
+  seek(time: number) {
+    const target = Math.min(Math.max(time, 0), this.replay.duration)
+    if (target < this.engine.time) this.restart()
+    this.runTo(target)
+  }
+
+  /**
+   * This method changes how fast the replay is played.
+   * @param speed This is the new speed, within [MIN_SPEED..MAX_SPEED].
+   */
+  setSpeed(speed: number) {
+    this.speed = Math.min(Math.max(speed, ReplayPlayer.MIN_SPEED),
+      ReplayPlayer.MAX_SPEED)
+  }
+
+  /**
+   * This method checks if the whole replay was played.
+   * @returns If the replay reached its end, return true; else, false.
+   */
+  isFinished() {
+    return this.engine.time >= this.replay.duration
+  }
+
+  /**
+   * This method starts the replay over on a brand new engine.
+   */
+  private restart() {
+    this.engine = new Engine(this.replay.settings)
+    this.cursor = 0
+    this.nextInputAt = this.replay.inputs.length > 0 ? this.replay.inputs[0] : 0
+  }
+
+  /**
+   * This method steps the engine up to the given time, applying every input
+   * recorded along the way.
+   * @param target This is the engine time to step to.
+   */
+  private runTo(target: number) {
+    const inputs = this.replay.inputs
+    while (this.cursor < inputs.length && this.nextInputAt <= target) {
+      this.engine.step([], this.nextInputAt - this.engine.time)
+      const input = REPLAY_INPUTS[inputs[this.cursor + 1]]
+      this.engine.step([input], 0)
+      if (this.replay.version < 2 && input in Engine.RELEASE_INPUTS) {
+        this.engine.step([Engine.RELEASE_INPUTS[input]], 0)
+      }
+      this.cursor += 2
+      if (this.cursor < inputs.length) {
+        this.nextInputAt += inputs[this.cursor]
+      }
+    }
+    this.engine.step([], target - this.engine.time)
+  }
+}
@@ -0,0 +1,267 @@
+import { addHighScore } from './highScores'
+import { isGameMode } from './modes'
+import { REPLAY_INPUTS } from './replay'
+
+const electron = require('electron')
+const fs = require('fs')
+
+/** This is what the format of every save bundle is. */
+const BUNDLE_FORMAT = 'electris-save'
+
+/** This is the version of the save bundle format written by createBundle(). */
+const BUNDLE_VERSION = 1
+
+/** These are the files a save bundle can be exported to or imported from. */
+const BUNDLE_FILTERS = [{ name: 'Electris save', extensions: ['json'] }]
+
+/**
+ * This function bundles the snapshots of the stores into a save bundle.
+ * @param config This is the snapshot of the config store.
+ * @param replays This is the snapshot of the replay store.
+ * @returns The save bundle.
+ */
+export function createBundle(config: StoreSnapshot,
+  replays: StoreSnapshot): SaveBundle {
+  return {
+    format: BUNDLE_FORMAT,
+    bundleVersion: BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    config: config,
+    replays: replays
+  }
+}
+
+/**
+ * This function checks if a value is a plain object.
+ * @param value This is the value to check.
+ * @returns If the value is an object but not an array, return true; else,
+ *     false.
+ */
+function isObject(value: any) {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * This function checks if a value is a list of numbers.
+ * @param value This is the value to check.
+ * @returns If the value is an array of numbers only, return true; else, false.
+ */
+function isNumbers(value: any) {
+  return Array.isArray(value) &&
+    value.every((item: any) => typeof item === 'number')
+}
+
+/**
+ * This function checks that an imported high score entry can be ranked and
+ * listed.
+ * @param hs This is the entry, as read from the file.
+ * @param mode This is the game mode of the table the entry is in.
+ * @returns If the entry is readable, return true; else, false.
+ */
+function isHighScore(hs: any, mode: GameMode) {
+  return isObject(hs) && typeof hs.name === 'string' && hs.mode === mode &&
+    ['score', 'lines', 'level', 'duration', 'seed', 'date'].every(
+      (key) => typeof hs[key] === 'number' && isFinite(hs[key]))
+}
+
+/**
+ * This function checks that an imported replay can be listed and played back.
+ * @param replay This is the replay, as read from the file.
+ * @returns If the replay is readable, return true; else, false.
+ */
+function isReplay(replay: any) {
+  if (!isObject(replay) || !isObject(replay.settings) ||
+    typeof replay.settings.seed !== 'number' || !isNumbers(replay.inputs) ||
+    replay.inputs.length % 2 !== 0) {
+    return false
+  }
+  // The inputs are pairs of a time and the index of an input
+  const inputs: number[] = replay.inputs
+  const len = inputs.length
+  for (let i = 0; i < len; i += 2) {
+    const input = inputs[i + 1]
+    if (inputs[i] < 0 || input < 0 || input >= REPLAY_INPUTS.length ||
+      Math.floor(input) !== input) {
+      return false
+    }
+  }
+  return ['recordedAt', 'duration', 'score', 'lines', 'level'].every(
+    (key) => typeof replay[key] === 'number')
+}
+
+/**
+ * This function checks that an imported Tet snapshot can be rebuilt.
+ * @param tet This is the snapshot of the Tet, as read from the file.
+ * @returns If the snapshot is readable, return true; else, false.
+ */
+function isTetSnapshot(tet: any) {
+  return isObject(tet) && typeof tet.type === 'number' &&
+    typeof tet.rotation === 'number' && isObject(tet.topLeft) &&
+    typeof tet.topLeft.row === 'number' &&
+    typeof tet.topLeft.col === 'number' && Array.isArray(tet.shape) &&
+    tet.shape.length > 0 && tet.shape.every(isNumbers)
+}
+
+/**
+ * This function checks that an imported game left unfinished can be resumed.
+ * @param suspended This is the suspended game, as read from the file.
+ * @returns If the suspended game is readable, return true; else, false.
+ */
+function isSuspendedGame(suspended: any) {
+  if (suspended === null) return true
+  if (!isObject(suspended) || !isReplay(suspended.replay)) return false
+  const snapshot = suspended.snapshot
+  return isObject(snapshot) && isObject(snapshot.settings) &&
+    typeof snapshot.seed === 'number' && isObject(snapshot.randomizer) &&
+    isNumbers(snapshot.randomizer.memory) && isObject(snapshot.scoring) &&
+    Array.isArray(snapshot.tets) && snapshot.tets.every(isTetSnapshot) &&
+    typeof snapshot.currTet === 'number' &&
+    snapshot.currTet < snapshot.tets.length &&
+    Array.isArray(snapshot.nextTets) &&
+    snapshot.nextTets.every(isTetSnapshot) &&
+    (snapshot.holdTet === null || isTetSnapshot(snapshot.holdTet)) &&
+    Array.isArray(snapshot.cascades) && snapshot.cascades.every(
+      (cascade: any) => isObject(cascade) &&
+        typeof cascade.nextAt === 'number' &&
+        (isTetSnapshot(cascade.eliminated) ||
+          snapshot.tets[cascade.tet] !== undefined)) &&
+    isNumbers(snapshot.shiftDirs) &&
+    ['score', 'lines', 'level', 'time', 'playTime'].every(
+      (key) => typeof snapshot[key] === 'number')
+}
+
+/**
+ * This function checks that what was read from a file is a save bundle this
+ * version of the game can import.
+ * @param bundle This is what was read from the file.
+ * @returns The problems found; none if the bundle can be imported.
+ */
+export function validateBundle(bundle: any): string[] {
+  if (typeof bundle !== 'object' || bundle === null ||
+    bundle.format !== BUNDLE_FORMAT) {
+    return ['This isn\'t an Electris save file.']
+  }
+  if (typeof bundle.bundleVersion !== 'number' ||
+    bundle.bundleVersion > BUNDLE_VERSION) {
+    return ['This save file is from a newer version of the game.']
+  }
+  const problems: string[] = []
+  const isSnapshot = (snapshot: any) => isObject(snapshot) &&
+    typeof snapshot.version === 'number' && snapshot.version >= 0 &&
+    isObject(snapshot.data)
+  if (!isSnapshot(bundle.config)) {
+    problems.push('The settings and high scores are missing.')
+  } else if ('highScores' in bundle.config.data &&
+    !isObject(bundle.config.data.highScores) &&
+    !Array.isArray(bundle.config.data.highScores)) {
+    problems.push('The high scores are unreadable.')
+  } else if (isObject(bundle.config.data.highScores)) {
+    const tables = bundle.config.data.highScores
+    Object.keys(tables).forEach((mode) => {
+      if (!isGameMode(mode)) {
+        problems.push('The high scores hold an unknown game mode, ' + mode +
+          '.')
+      } else if (!Array.isArray(tables[mode]) ||
+        !tables[mode].every((hs: any) => isHighScore(hs, mode))) {
+        problems.push('The ' + mode + ' high scores are unreadable.')
+      }
+    })
+  }
+  if (!isSnapshot(bundle.replays)) {
+    problems.push('The replays are missing.')
+    return problems
+  }
+  const replays = bundle.replays.data
+  if ('replays' in replays &&
+    (!Array.isArray(replays.replays) || !replays.replays.every(isReplay))) {
+    problems.push('The replays are unreadable.')
+  }
+  if ('suspended' in replays &&
+    !isSuspendedGame(replays.suspended)) {
+    problems.push('The unfinished game is unreadable.')
+  }
+  return problems
+}
+
+/**
+ * This function combines imported config data with the data already saved:
+ * high scores make it into the tables if they're good enough, while settings
+ * only fill in the ones which were never set here.
+ * @param current This is the config data already saved.
+ * @param imported This is the imported config data, upgraded to the current
+ *     schema version.
+ * @returns The combined config data.
+ */
+export function mergeConfig(current: any, imported: any) {
+  const merged = Object.assign({}, imported, current)
+  const tables: HighScoreTables =
+    JSON.parse(JSON.stringify(current.highScores || {}))
+  const importedTables: HighScoreTables = imported.highScores || {}
+  const modes = Object.keys(importedTables) as GameMode[]
+  modes.forEach((mode) => {
+    const known = (tables[mode] || []).map((hs) => hs.date + ':' + hs.score)
+    const importedTable = importedTables[mode] || []
+    importedTable.forEach((hs) => {
+      // The same game can't make it in twice
+      if (known.indexOf(hs.date + ':' + hs.score) === -1) {
+        addHighScore(tables, Object.assign({}, hs, { mode: mode }))
+      }
+    })
+  })
+  merged.highScores = tables
+  return merged
+}
+
+/**
+ * This function combines imported replays with the replays already saved.
+ * @param current This is the replay data already saved.
+ * @param imported This is the imported replay data, upgraded to the current
+ *     schema version.
+ * @param max This is how many replays are kept; older ones are dropped first.
+ * @returns The combined replay data.
+ */
+export function mergeReplays(current: any, imported: any, max: number) {
+  const replays: Replay[] = (current.replays || []).slice()
+  const known = replays.map((replay) => replay.recordedAt)
+  const importedReplays: Replay[] = imported.replays || []
+  importedReplays.forEach((replay) => {
+    if (known.indexOf(replay.recordedAt) === -1) replays.push(replay)
+  })
+  replays.sort((a, b) => b.recordedAt - a.recordedAt)
+  return Object.assign({}, imported, current, { replays: replays.slice(0, max) })
+}
+
+/**
+ * This function asks the user where to export a save bundle to, then writes
+ * it there.
+ * @param bundle This is the save bundle to write.
+ * @returns The path it was written to, or null if the user cancelled.
+ * @throws If the file couldn't be written.
+ */
+export function exportBundle(bundle: SaveBundle): string | null {
+  const filePath = electron.remote.dialog.showSaveDialog({
+    title: 'Export Saved Data',
+    defaultPath: 'electris-save.json',
+    filters: BUNDLE_FILTERS
+  })
+  if (!filePath) return null
+  fs.writeFileSync(filePath, JSON.stringify(bundle, null, 2))
+  return filePath
+}
+
+/**
+ * This function asks the user which file to import a save bundle from, then
+ * reads it.
+ * @returns What was read from the file, to be validated, or null if the user
+ *     cancelled.
+ * @throws If the file couldn't be read or isn't JSON.
+ */
+export function importBundle(): any {
+  const filePaths = electron.remote.dialog.showOpenDialog({
+    title: 'Import Saved Data',
+    filters: BUNDLE_FILTERS,
+    properties: ['openFile']
+  })
+  if (!filePaths || filePaths.length === 0) return null
+  return JSON.parse(fs.readFileSync(filePaths[0], 'utf8'))
+}
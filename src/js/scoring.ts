@@ -0,0 +1,163 @@
+/** These are the names of line clears, by the number of rows eliminated. */
+const CLEAR_NAMES = ['', 'Single', 'Double', 'Triple', 'Tetris']
+
+/**
+ * This function names a line clear.
+ * @param lines This is the number of rows eliminated at once.
+ * @returns The name of the line clear, e.g. 'Double'.
+ */
+function getClearName(lines: number) {
+  return lines < CLEAR_NAMES.length ? CLEAR_NAMES[lines] : lines + ' Lines'
+}
+
+/**
+ * The original Electris scoring. The points scale with how many rows get
+ * eliminated at once by the following formula:
+ *
+ * `score += (lines ** (1 + (lines - 1) * 0.1)) * 10000`
+ *
+ * Drops aren't worth anything.
+ */
+export class ClassicScoring implements ScoringSystem {
+  readonly name: ScoringName = 'classic'
+
+  lineClear(clear: ClearEvent) {
+    const n = clear.lines
+    if (n === 0) return []
+    // Scale the point rewarded for filling rows to benefit those that break
+    // more at one time.
+    return [{
+      label: getClearName(n),
+      points: (n ** (1 + (n - 1) * 0.1)) * 10000
+    }]
+  }
+
+  softDrop() {
+    return 0
+  }
+
+  hardDrop() {
+    return 0
+  }
+
+  getState() {
+    return { combo: -1, backToBack: false }
+  }
+
+  setState() {
+    // Classic scoring doesn't remember anything
+  }
+}
+
+/**
+ * The Tetris Guideline scoring: line clears and T-spins are worth a number of
+ * points multiplied by the level, with bonuses for combos (line clears with
+ * consecutive Tets), back-to-back "difficult" clears (Tetrises and T-spins)
+ * and perfect clears (clearing the whole board).
+ */
+export class GuidelineScoring implements ScoringSystem {
+  readonly name: ScoringName = 'guideline'
+  /** Number of consecutive line clears minus 1; -1 when there's no combo. */
+  private combo: number
+  /** If true, the last line clear was a difficult one. */
+  private backToBack: boolean
+
+  constructor() {
+    this.combo = -1
+    this.backToBack = false
+  }
+
+  lineClear(clear: ClearEvent) {
+    const awards: Award[] = []
+    const level = Math.max(clear.level, 1)
+    const n = clear.lines
+
+    if (n === 0) {
+      // Settling fragments don't break a combo; a Tet locking without
+      // eliminating a row does
+      if (!clear.cascade) this.combo = -1
+      if (clear.tSpin === 'full') {
+        awards.push({ label: 'T-Spin', points: 400 * level })
+      } else if (clear.tSpin === 'mini') {
+        awards.push({ label: 'Mini T-Spin', points: 100 * level })
+      }
+      return awards
+    }
+
+    let points: number
+    let label = getClearName(n)
+    if (clear.tSpin === 'full') {
+      points = [400, 800, 1200, 1600][Math.min(n, 3)]
+      label = 'T-Spin ' + label
+    } else if (clear.tSpin === 'mini') {
+      points = [100, 200, 400][Math.min(n, 2)]
+      label = 'Mini T-Spin ' + label
+    } else {
+      points = [0, 100, 300, 500, 800][Math.min(n, 4)]
+    }
+    const difficult = n >= 4 || clear.tSpin !== 'none'
+    if (difficult && this.backToBack) {
+      points *= 1.5
+      label = 'Back-to-Back ' + label
+    }
+    this.backToBack = difficult
+    awards.push({ label: label, points: points * level })
+
+    this.combo++
+    if (this.combo > 0) {
+      awards.push({
+        label: this.combo + ' Combo',
+        points: 50 * this.combo * level
+      })
+    }
+
+    if (clear.perfectClear) {
+      awards.push({
+        label: 'Perfect Clear',
+        points: [0, 800, 1200, 1800, 2000][Math.min(n, 4)] * level
+      })
+    }
+    return awards
+  }
+
+  softDrop(rows: number) {
+    return rows
+  }
+
+  hardDrop(rows: number) {
+    return 2 * rows
+  }
+
+  getState() {
+    return { combo: this.combo, backToBack: this.backToBack }
+  }
+
+  setState(state: ScoringState) {
+    this.combo = state.combo
+    this.backToBack = state.backToBack
+  }
+}
+
+/** These are the scoring systems, in the order they're offered to the user. */
+export const SCORINGS: ScoringName[] = ['classic', 'guideline']
+
+/** These are the names of the scoring systems. */
+export const SCORING_LABELS: { [S in ScoringName]: string } = {
+  classic: 'Electris classic',
+  guideline: 'Guideline'
+}
+
+/**
+ * This function creates the scoring system with the given name.
+ * @param name This is the name of the scoring system, e.g. 'guideline'.
+ * @returns The scoring system, which falls back on Electris classic if the
+ *     name is unknown.
+ */
+export function createScoring(name: ScoringName): ScoringSystem {
+  switch (name) {
+    case 'guideline':
+      return new GuidelineScoring()
+    default:
+      return new ClassicScoring()
+  }
+}
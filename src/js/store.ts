@@ -6,12 +6,38 @@ const zlib = require('zlib')
 /**
  * Provides a way to store data to the user's app data folder. Based off of:
  *   https://gist.github.com/ccnokes/95cb454860dbf8577e88d734c3f31e08
+ *
+ * Data is saved along with its schema version, and upgraded through the
+ * migrations it's given when it's loaded. Changes are written to disk a little
+ * while after they're made, all at once, into a temporary file which then
+ * replaces the data file; a crash mid-write can't leave a truncated file
+ * behind. A data file which can't be read is moved aside rather than
+ * overwritten, so it can still be recovered by hand.
  */
 export class Store {
+  /** This is how long to wait for more changes before writing them. */
+  static readonly FLUSH_DELAY: number = 500
+  /**
+   * If the data file couldn't be read when the store was created, this tells
+   * where it was moved to; otherwise it's null.
+   */
+  readonly recovery: StoreRecovery | null
+  private configName: string
   private configPath: string
   private data: any
+  private defaults: any
+  private migrations: StoreMigration[]
+  private version: number
+  private flushDelay: number
+  /** This is the timeout of the pending write, or null if there's none. */
+  private flushTimer: any
 
   constructor(opts: StoreOpts) {
+    // Force instantiation
+    if (!(this instanceof Store)) {
+      return new Store(opts)
+    }
+
     // Get the user's relative app data directory path (the renderer process has
     // to get `app` module via `remote`, whereas the main process can get it
     // directly)
@@ -20,10 +46,43 @@ export class Store {
     const configFileName = 'Electris.' + opts.configName + '.dat'
     // Set the config path based on the user's app data directory and
     // `configName` property
+    this.configName = opts.configName
     this.configPath = path.join(userDataPath, configFileName)
+    const migrations = opts.migrations || []
+    this.defaults = opts.defaults
+    this.migrations = migrations
+    this.version = migrations.length
+    this.flushDelay = opts.flushDelay !== undefined ? opts.flushDelay
+      : Store.FLUSH_DELAY
+    this.flushTimer = null
+    this.recovery = null
 
     // Load any pre-existing data
-    this.data = this.parseDataFile(this.configPath, opts.defaults)
+    let saved: StoreSnapshot | null = null
+    try {
+      saved = this.parseDataFile(this.configPath)
+    } catch (error) {
+      console.error('Couldn\'t read ' + this.configPath + ':', error)
+      this.recovery = this.quarantine()
+    }
+    if (saved !== null) {
+      this.data = Object.assign({}, opts.defaults,
+        this.migrate(saved, migrations))
+      // Save the upgraded data
+      if (saved.version < this.version) this.scheduleFlush()
+      // Data from a newer version of the game is left as is
+      this.version = Math.max(this.version, saved.version)
+    } else {
+      this.data = opts.defaults
+    }
+
+    // Don't lose the last changes when the window (or the app, from the main
+    // process) closes
+    if (electron.app) {
+      process.on('exit', () => this.flush())
+    } else {
+      window.addEventListener('beforeunload', () => this.flush())
+    }
 
     // console.log('Store initialized: ', this.configPath, this.data) // debug
   }
@@ -34,39 +93,97 @@ export class Store {
     return this.data[key]
   }
 
-  // Save and compress JSON values associated with given key to disk
+  // Change the value associated with given key; it gets saved to disk shortly
   set(key: string, val: any) {
     // console.log(`Store[set]; key[${key}]`, val) // debug
     this.data[key] = val
+    this.scheduleFlush()
+  }
 
-    const bufferedJSON = new Buffer(JSON.stringify(this.data))
-    // console.log('bufferedJSON', bufferedJSON) // debug
+  // Return a copy of all of the data, along with its schema version
+  snapshot(): StoreSnapshot {
+    return JSON.parse(JSON.stringify({ version: this.version, data: this.data }))
+  }
 
-    zlib.deflate(bufferedJSON, (err: string, buf: string) => {
-      // console.log('deflate async', err, buf) // debug
-      if (err) console.error('zlib deflate error:', err)
+  // Return the data of a snapshot upgraded to the current schema version.
+  // Throws if the snapshot is from a newer version of the game.
+  upgrade(snapshot: StoreSnapshot) {
+    if (snapshot.version > this.version) {
+      throw new Error('The ' + this.configName + ' data is from a newer ' +
+        'version of the game')
+    }
+    return this.migrate(snapshot, this.migrations)
+  }
 
-      try {
-        fs.writeFileSync(this.configPath, buf)
-      } catch (error) {
-        console.error('Couldn\'t save data:', error)
-      }
-    })
+  // Replace all of the data; it gets saved to disk shortly
+  replace(data: any) {
+    this.data = Object.assign({}, this.defaults, data)
+    this.scheduleFlush()
   }
 
-  // Decompress and unstringify saved JSON data
-  private parseDataFile(filePath: string, defaults: any) {
-    // console.log('parsing data file') // debug
+  // Save and compress the JSON data to disk right away, if anything changed
+  flush() {
+    if (this.flushTimer === null) return
+    clearTimeout(this.flushTimer)
+    this.flushTimer = null
+
+    const bufferedJSON = Buffer.from(JSON.stringify({
+      version: this.version,
+      data: this.data
+    }))
+    const tempPath = this.configPath + '.tmp'
     try {
-      const inflatedBuffer = zlib.inflateSync(fs.readFileSync(filePath))
-      const decodedValue = inflatedBuffer.toString()
+      fs.writeFileSync(tempPath, zlib.deflateSync(bufferedJSON))
+      // Renaming replaces the data file at once, so it's never half written
+      fs.renameSync(tempPath, this.configPath)
+    } catch (error) {
+      console.error('Couldn\'t save data:', error)
+    }
+  }
+
+  // Write the data to disk once no more changes came in for a little while
+  private scheduleFlush() {
+    if (this.flushTimer !== null) clearTimeout(this.flushTimer)
+    this.flushTimer = setTimeout(() => this.flush(), this.flushDelay)
+  }
+
+  // Decompress and unstringify saved JSON data. Returns null if there's no
+  // data file yet, and throws if it can't be read.
+  private parseDataFile(filePath: string) {
+    // console.log('parsing data file') // debug
+    if (!fs.existsSync(filePath)) return null
+    const inflatedBuffer = zlib.inflateSync(fs.readFileSync(filePath))
+    const decodedValue = JSON.parse(inflatedBuffer.toString())
+    if (typeof decodedValue !== 'object' || decodedValue === null) {
+      throw new Error('The data isn\'t an object')
+    }
+    // Data saved before schema versions were introduced is version 0
+    if (typeof decodedValue.version !== 'number' ||
+      typeof decodedValue.data !== 'object') {
+      return { version: 0, data: decodedValue }
+    }
+    return decodedValue as StoreSnapshot
+  }
 
-      // console.log('inflate sync', inflatedBuffer, decodedValue) // debug
-      return JSON.parse(decodedValue)
+  // Upgrade saved data to the current schema version
+  private migrate(saved: StoreSnapshot, migrations: StoreMigration[]) {
+    let data = saved.data
+    for (let version = saved.version; version < migrations.length; version++) {
+      data = migrations[version](data)
+    }
+    return data
+  }
+
+  // Move an unreadable data file aside, next to where it was
+  private quarantine(): StoreRecovery | null {
+    const backupPath = this.configPath.replace(/\.dat$/,
+      '.corrupt-' + Date.now() + '.dat')
+    try {
+      fs.renameSync(this.configPath, backupPath)
     } catch (error) {
-      // Load defaults if file doesn't already exist (or otherwise fails)
-      // console.log('defaults', error) // debug
-      return defaults
+      console.error('Couldn\'t back up ' + this.configPath + ':', error)
+      return null
     }
+    return { configName: this.configName, backupPath: backupPath }
   }
-}
\ No newline at end of file
+}
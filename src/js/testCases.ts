@@ -0,0 +1,122 @@
+/**
+ * These are the scenarios number keys 0 to 9 load in Developer Mode, in
+ * order. They're laid out on the 10 columns wide electris board, and each
+ * exercises a case of the rules that's hard to set up by playing.
+ */
+export const TEST_CASES: TestScenario[] = [
+  {
+    name: 'Single',
+    description: 'A horizontal I fills the gap in the bottom row.',
+    tets: [
+      { type: 'I', shape: [[1, 1, 1, 1]], row: 0, col: 0 },
+      { type: 'O', shape: [[1, 1]], row: 0, col: 8 }
+    ],
+    next: ['I', 'T']
+  },
+  {
+    name: 'Tetris',
+    description: 'A vertical I in the left well clears 4 rows at once.',
+    tets: [1, 2, 3, 4, 5, 6, 7, 8, 9].map((col): ScenarioTet => ({
+      type: 'I', shape: [[1], [1], [1], [1]], row: 0, col: col
+    })),
+    next: ['I', 'T']
+  },
+  {
+    name: 'T-spin double',
+    description: 'A T rotated into the slot under the overhang is a full ' +
+      'T-spin clearing 2 rows.',
+    tets: [
+      { type: 'I', shape: [[1, 1, 1, 1]], row: 0, col: 0 },
+      { type: 'L', shape: [[1, 1, 1]], row: 0, col: 5 },
+      { type: 'O', shape: [[1, 1], [1, 1]], row: 0, col: 8 },
+      { type: 'T', shape: [[1, 1, 1]], row: 1, col: 0 },
+      { type: 'S', shape: [[1, 1]], row: 1, col: 6 },
+      { type: 'I', shape: [[1, 1, 1, 1]], row: 2, col: 0 }
+    ],
+    next: ['T', 'I']
+  },
+  {
+    name: 'Cascade',
+    description: 'Clearing the second row drops the fragment on the left ' +
+      'into the hole below it, which clears the bottom row too.',
+    tets: [
+      { type: 'I', shape: [[1, 1, 1, 1]], row: 0, col: 1 },
+      { type: 'I', shape: [[1, 1, 1, 1]], row: 0, col: 5 },
+      { type: 'T', shape: [[1]], row: 0, col: 9 },
+      { type: 'I', shape: [[1, 1, 1, 1]], row: 1, col: 1 },
+      { type: 'I', shape: [[1, 1, 1, 1]], row: 1, col: 5 },
+      { type: 'J', shape: [[1], [1]], row: 1, col: 0 }
+    ],
+    next: ['I', 'O']
+  },
+  {
+    name: 'Hanging fragment',
+    description: 'Clearing the second row leaves the top of the Z hanging ' +
+      'over a hole, held up by a single block.',
+    tets: [
+      { type: 'O', shape: [[1]], row: 0, col: 0 },
+      { type: 'O', shape: [[1]], row: 0, col: 2 },
+      { type: 'I', shape: [[1, 1, 1, 1]], row: 0, col: 4 },
+      { type: 'O', shape: [[1, 1]], row: 0, col: 8 },
+      { type: 'L', shape: [[1]], row: 1, col: 0 },
+      { type: 'Z', shape: [[1, 1], [0, 1, 1]], row: 1, col: 0 },
+      { type: 'I', shape: [[1, 1, 1, 1]], row: 1, col: 3 },
+      { type: 'S', shape: [[1, 1]], row: 1, col: 7 }
+    ],
+    next: ['I', 'T']
+  },
+  {
+    name: 'Split Tets',
+    description: 'An O clears the 2 middle rows of a wall of vertical Is, ' +
+      'splitting each of them in 2 fragments.',
+    tets: [0, 1, 2, 3, 4, 5, 6, 7].map((col): ScenarioTet => ({
+      type: 'I', shape: [[1], [1], [1], [1]], row: 0, col: col
+    })).concat([
+      { type: 'L', shape: [[1]], row: 0, col: 8 }
+    ]),
+    next: ['O', 'T']
+  },
+  {
+    name: 'Fragment shapes',
+    description: 'Every fragment shape a Tet can be split into, to check ' +
+      'their outlines.',
+    tets: [
+      { type: 'I', shape: [[1]], row: 0, col: 0 },
+      { type: 'J', shape: [[1, 1]], row: 0, col: 1 },
+      { type: 'L', shape: [[1], [1]], row: 0, col: 3 },
+      { type: 'O', shape: [[1, 1, 1]], row: 0, col: 4 },
+      { type: 'S', shape: [[1], [1], [1]], row: 0, col: 7 },
+      { type: 'T', shape: [[1, 1], [0, 1]], row: 0, col: 8 },
+      { type: 'Z', shape: [[0, 1], [1, 1]], row: 1, col: 0 },
+      { type: 'J', shape: [[1], [1, 1]], row: 1, col: 4 },
+      { type: 'L', shape: [[1, 1], [1]], row: 2, col: 5 }
+    ],
+    next: ['I', 'T']
+  },
+  {
+    name: 'Perfect clear',
+    description: 'A horizontal I at the right clears the whole board.',
+    tets: [
+      { type: 'I', shape: [[1, 1, 1, 1]], row: 0, col: 0 },
+      { type: 'O', shape: [[1, 1]], row: 0, col: 4 }
+    ],
+    next: ['I', 'O']
+  },
+  {
+    name: 'Top out',
+    description: 'A tower in the middle of the board leaves room for 2 more ' +
+      'Os before the next one can\'t come into play.',
+    tets: [0, 4, 8].map((row) => [3, 4, 5, 6].map((col): ScenarioTet => ({
+      type: 'I', shape: [[1], [1], [1], [1]], row: row, col: col
+    }))).reduce((all, tets) => all.concat(tets), []),
+    next: ['O', 'O', 'O']
+  },
+  {
+    name: 'Huge score',
+    description: 'A score near the largest one the top panel can fit.',
+    tets: [],
+    next: ['I'],
+    score: 1939999955999999,
+    lines: 99
+  }
+]
@@ -1,4 +1,4 @@
-import { Game } from './game'
+import { Engine } from './engine'
 /**
  * A Tet class intended to be instantiated by "new Tet()".
  * However, upon completing a row in our Tetris game, we will want to remove the
@@ -14,17 +14,13 @@ export class Tet {
    * Initially only used to determined its shape upon our class being
    * constructed. If in range [0..6] (number of Tets), set its properties
    * appropriately. If -1, we will create a Tet with empty properties because
-   * we're going to set its topLeft, shape and perimeter manually.
+   * we're going to set its topLeft, shape and perimeter manually. Garbage
+   * keeps the type -1 for good.
    */
   type: number
-  /**
-   * This is the number of rows we are going to move our tet when we decide to
-   * rotate it. Constraints are from [0..this.pivotMax].
-   */
-  pivot: number
   /**
    * This is the (row, column) position the Tet is in with respect to the game
-   * board (16 rows by 10 columns); (0, 0) being the most top left position.
+   * board (vanish zone included); (0, 0) being the most top left position.
    *
    * topLeft.row - Row position of Tet on board.
    *
@@ -45,137 +41,148 @@ export class Tet {
    * in each "row" of _perim, and multiplying each x and y value by _s.
    */
   perim: number[][]
-  /** Game object which the Tet is in */
-  private game: Game
   /**
-   * Rotation is constrained by the range [0..3]. Incrementing the rotation
-   * basically rotates the shape clockwise. This rotation decides our this.shape
-   * and this.perim.
+   * If true, the last time the living Tet successfully moved, it was rotated.
+   * This is needed to tell T-spins apart from T Tets simply dropped in place.
+   */
+  lastMoveWasRotation: boolean
+  /**
+   * This is the index [0..4] of the SRS test that the last successful
+   * rotation used; 0 means no wall or floor kick was needed.
+   */
+  lastKick: number
+  /** Engine object which the Tet is in */
+  private engine: Engine
+  /**
+   * Rotation is constrained by the range [0..3] and follows the Super Rotation
+   * System (SRS) states: 0 is SRS's spawn state, 1 is one turn clockwise from
+   * it, and so on. Incrementing the rotation basically rotates the shape
+   * clockwise. This rotation decides our this.shape and this.perim.
    */
   private rotation: number
-  /** This is the maximum amount of times a block can be pivoted. */
-  private pivotMax: number
 
   /**
-   * @param game Game object which the Tet will be in
+   * @param engine Engine object which the Tet will be in
    * @param [type] Shape of Tet desired, determined randomly if undefined.
    */
-  constructor(game: Game, type?: number) {
+  constructor(engine: Engine, type?: number) {
     // Force instantiation
     if (!(this instanceof Tet)) {
-      return new Tet(game, type)
+      return new Tet(engine, type)
     }
 
-    // FIXME: check if game exists
-    this.game = game
+    // FIXME: check if engine exists
+    this.engine = engine
 
-    this.type = (type && type >= -1 && type < 7)
+    this.type = (type !== undefined && type >= -1 && type < 7)
       ? type
       : Math.floor(Math.random() * 7)
 
     // TODO: if type is -1, then it is a single square or fragmented?
-    if (this.type > -1) {
-      this.rotation = 0
-      this.pivot = 0
-      this.topLeft = { row: 0, col: 4 }
-      this.setShape(this.getShapeMatrix(0))
-    }
+    if (this.type > -1) this.resetPosition()
+  }
+
+  /**
+   * This method rebuilds a Tet saved by getSnapshot().
+   * @param engine This is the Engine object which the Tet will be in.
+   * @param snapshot This is the snapshot of the Tet.
+   * @returns The Tet, in the rotation and position it was saved in.
+   */
+  static fromSnapshot(engine: Engine, snapshot: TetSnapshot) {
+    // Built the same way updateTet() builds fragments
+    const tet = new Tet(engine, -1)
+    tet.type = snapshot.type
+    tet.rotation = snapshot.rotation
+    tet.topLeft = { row: snapshot.topLeft.row, col: snapshot.topLeft.col }
+    tet.setShape(snapshot.shape.map((line) => line.slice()))
+    tet.lastMoveWasRotation = snapshot.lastMoveWasRotation
+    tet.lastKick = snapshot.lastKick
+    return tet
+  }
+
+  /**
+   * This method puts a living Tet back in its spawn rotation at the top of the
+   * game board, e.g. when it comes out of the hold slot.
+   *
+   * J, L and T spawn flat side up, which is SRS state 2, while every other Tet
+   * spawns in SRS state 0.
+   */
+  resetPosition() {
+    this.rotation = [0, 2, 2, 0, 0, 2, 0][this.type]
+    this.topLeft = this.engine.getSpawnTopLeft()
+    this.setShape(this.getShapeMatrix(this.rotation).shape)
+    this.lastMoveWasRotation = false
+    this.lastKick = 0
   }
 
   /**
    * This method changes the rotation, if the shape can rotate properly on the
    * game board, and changes the shape and perimeter if it successfully rotates.
-   * Otherwise, do nothing. We also move the Tet this.pivot blocks to the right,
-   * then reset the pivot to zero.
+   * Otherwise, do nothing. Wall and floor kicks are tried in the order given by
+   * the Super Rotation System.
    *
    * By default, always rotates clockwise.
    *
-   * @param shape This is the shape of the Tet we care about getting the
-   *     perimeter from.
-   * @returns Currently, we don't care about the actual return value.
+   * @param [direction] 1 to rotate clockwise, -1 to rotate counter-clockwise
+   *     and 2 to rotate 180 degrees.
+   * @returns If the Tet rotated, return true; else, false.
    */
-  rotate() {
-    const landed = this.game.getLanded()
-    let potRot = this.rotation
-    let potShape: number[][]
-    potRot = (potRot < 3 ? potRot + 1 : 0)
-    potShape = this.getShapeMatrix(potRot)
-    // check for potential collisions
-    const rLen = potShape.length
-    for (let row = 0; row < rLen; row++) {
-      const cLen = potShape[row].length
-      for (let col = 0; col < cLen; col++) {
-        if (potShape[row][col] !== 0) {
-          if (col + this.topLeft.col < 0) {
-            // console.log('left beyond playing field')
-            return false
-          }
-          if (col + this.topLeft.col >= Game.BOARD_COL_NUM) {
-            // console.log('right beyond playing field')
-            return false
-          }
-          if (row + this.topLeft.row >= Game.BOARD_ROW_NUM) {
-            // console.log('below playing field')
-            return false
-          }
-          if (landed[row + this.topLeft.row][col + this.topLeft.col] !== 0) {
-            // console.log('rotate: space is taken')
-            return false
-          }
-        }
-      }
-    }
-    this.topLeft.col += this.pivot
-    this.pivot = 0
-    this.rotation = potRot
-    this.setShape(potShape)
+  rotate(direction = 1) {
+    const potRot = this.getRotated(direction)
+    if (potRot === null) return false
+    this.rotation = potRot.rotation
+    this.topLeft = potRot.topLeft
+    this.setShape(potRot.shape)
+    this.lastMoveWasRotation = true
+    this.lastKick = potRot.kick
     return true
   }
 
   /**
-   * This method checks to see if the pivot shape shadow can display properly.
-   * @returns This returns the perimeter matrix given by the getPerim()
-   *     method.
+   * This method figures out where the Tet would end up if it were rotated,
+   * without rotating it. This is what the rotation shadow displays.
+   *
+   * The shape is turned around its true rotation center, then each of the 5
+   * SRS tests is tried until one doesn't collide. Each test moves the Tet by
+   * the difference between the offsets of the current and the potential
+   * rotation.
+   * @param direction 1 to rotate clockwise, -1 to rotate counter-clockwise and
+   *     2 to rotate 180 degrees.
+   * @returns The rotation, position, shape and perimeter of the rotated Tet,
+   *     or null if every test collides.
    */
-  doesNotTetPivotCollide() {
-    let potRot = this.rotation
-    const potTopLeft = {
-      row: this.topLeft.row,
-      col: this.topLeft.col + this.pivot
+  getRotated(direction: number): RotationResult | null {
+    const landed = this.engine.getLanded()
+    const potRot = (this.rotation + direction + 4) % 4
+    const curr = this.getShapeMatrix(this.rotation)
+    const pot = this.getShapeMatrix(potRot)
+    // The shape's topLeft is relative to the rotation center
+    const center = {
+      row: this.topLeft.row - curr.topLeft.row,
+      col: this.topLeft.col - curr.topLeft.col
     }
-    let potShape: number[][]
-    const landed = this.game.getLanded(this)
-    potRot = potRot < 3 ? potRot + 1 : 0
-    potShape = this.getShapeMatrix(potRot)
-    const rLen = potShape.length
-    for (let row = 0; row < rLen; row++) {
-      const cLen = potShape[row].length
-      for (let col = 0; col < cLen; col++) {
-        if (potShape[row][col] !== 0) {
-          if (row + potTopLeft.row >= Game.BOARD_ROW_NUM) {
-            // console.log('below playing field')
-            return false
-          }
-          if (landed[row + potTopLeft.row][col + potTopLeft.col] !== 0) {
-            // console.log('bot: space taken')
-            return false
-          }
-          if (col + potTopLeft.col < 0) {
-            // console.log('left beyond playing field')
-            return false
-          }
-          if (col + potTopLeft.col >= Game.BOARD_COL_NUM) {
-            // console.log('right beyond playing field')
-            return false
-          }
-          if (landed[row + potTopLeft.row][col + potTopLeft.col] !== 0) {
-            // console.log('side: space taken')
-            return false
-          }
+    const currOffsets = this.getKickOffsets(this.rotation)
+    const potOffsets = this.getKickOffsets(potRot)
+    const len = currOffsets.length
+    for (let kick = 0; kick < len; kick++) {
+      // Offsets are (x, y) with y pointing up, like in the SRS tables
+      const potTopLeft = {
+        row: center.row + pot.topLeft.row -
+          (currOffsets[kick][1] - potOffsets[kick][1]),
+        col: center.col + pot.topLeft.col +
+          (currOffsets[kick][0] - potOffsets[kick][0])
+      }
+      if (!this.doesShapeCollide(pot.shape, potTopLeft, landed)) {
+        return {
+          rotation: potRot,
+          topLeft: potTopLeft,
+          shape: pot.shape,
+          perim: this.getPerim(pot.shape),
+          kick: kick
         }
       }
     }
-    return this.getPerim(potShape)
+    return null
   }
 
   /**
@@ -187,13 +194,13 @@ export class Tet {
    * @returns If Tet colides, return true; else, false.
    */
   doesTetCollideBot(potTopLeft: { row: number, col: number }) {
-    const landed = this.game.getLanded(this)
+    const landed = this.engine.getLanded(this)
     const rLen = this.shape.length
     for (let row = 0; row < rLen; row++) {
       const cLen = this.shape[row].length
       for (let col = 0; col < cLen; col++) {
         if (this.shape[row][col] !== 0) {
-          if (row + potTopLeft.row >= Game.BOARD_ROW_NUM) {
+          if (row + potTopLeft.row >= this.engine.totalRows) {
             // console.log('below playing field')
             return true
           }
@@ -209,39 +216,47 @@ export class Tet {
 
   /**
    * This method moves the Tet left by 1 column if it does not collide with the
-   * side of the game board or another Tet. This method also resets the pivot to
-   * zero.
+   * side of the game board or another Tet.
+   * @returns If the Tet moved, return true; else, false.
    */
   moveLeft() {
-    this.pivot = 0
     const potTopLeft = {
       row: this.topLeft.row,
       col: this.topLeft.col - 1
     }
     if (!this.doesTetCollideSide(potTopLeft)) {
       this.topLeft = potTopLeft
+      this.lastMoveWasRotation = false
+      return true
     }
+    return false
   }
 
   /**
    * This method moves the Tet right by 1 column if it does not collide with the
    * side of the game board or another Tet.
+   * @returns If the Tet moved, return true; else, false.
    */
   moveRight() {
     const potTopLeft = {
       row: this.topLeft.row,
       col: this.topLeft.col + 1
     }
-    if (!this.doesTetCollideSide(potTopLeft, 1)) {
+    if (!this.doesTetCollideSide(potTopLeft)) {
       this.topLeft = potTopLeft
+      this.lastMoveWasRotation = false
+      return true
     }
+    return false
   }
 
   /**
-   * This method moves the Tet down by 1 column if it does not collide with the
-   * side of the game board or another Tet. If it does collide, the Tet lands,
-   * we create another Tet, and we perform the collided method to handle row
-   * elimination and Tet fragmentation.
+   * This method moves the Tet down by 1 row if it does not collide with the
+   * bottom of the game board or another Tet. Landing is up to the engine's
+   * lock phase, which gives the player some time to slide or spin the Tet
+   * once it rests on something.
+   * @returns If the Tet moved down, return true; if it's resting on something,
+   *     false.
    */
   moveDown() {
     const potTopLeft = {
@@ -250,12 +265,22 @@ export class Tet {
     }
     if (!this.doesTetCollideBot(potTopLeft)) {
       this.topLeft = potTopLeft
-    } else {
-      this.game.newTet = true
-      this.game.currTet = null
-      this.game.updateLanded = true
-      this.collided()
+      this.lastMoveWasRotation = false
+      return true
     }
+    return false
+  }
+
+  /**
+   * This method checks if the Tet is resting on the bottom of the game board
+   * or another Tet.
+   * @returns If the Tet can't move down, return true; else, false.
+   */
+  isGrounded() {
+    return this.doesTetCollideBot({
+      row: this.topLeft.row + 1,
+      col: this.topLeft.col
+    })
   }
 
   /**
@@ -280,77 +305,210 @@ export class Tet {
     this.updateTet()
   }
 
+  /**
+   * This method checks if the Tet was spun into place using the 3-corner rule:
+   * it has to be a T whose last move was a rotation, with at least 3 of the 4
+   * corners around its center taken by Tets or the edges of the game board.
+   *
+   * It's a full T-spin if both corners on the side the T points to are taken
+   * (or if the rotation needed the last SRS kick), otherwise it's a mini one.
+   * @returns 'full', 'mini' or 'none'.
+   */
+  getTSpin(): TSpin {
+    if (this.type !== 5 || !this.lastMoveWasRotation) return 'none'
+    const landed = this.engine.getLanded(this)
+    const center = this.getCenter()
+    // Corners, clockwise from the top left one, as (col, row) offsets
+    const corners = [[-1, -1], [1, -1], [1, 1], [-1, 1]]
+    const taken = corners.map((corner) => {
+      const row = center.row + corner[1]
+      const col = center.col + corner[0]
+      if (col < 0 || col >= this.engine.cols ||
+        row >= this.engine.totalRows) {
+        return true
+      }
+      return row >= 0 && landed[row][col] !== 0
+    })
+    if (taken.filter((t) => t).length < 3) return 'none'
+    // The T points up in rotation 0, right in rotation 1, and so on, so its
+    // front corners are the rotation-th and the one after it
+    if ((taken[this.rotation] && taken[(this.rotation + 1) % 4]) ||
+      this.lastKick === 4) {
+      return 'full'
+    }
+    return 'mini'
+  }
+
+  /**
+   * This method gives the position of the Tet's true rotation center on the
+   * game board.
+   * @returns The (row, column) of the center block.
+   */
+  getCenter() {
+    const offset = this.getShapeMatrix(this.rotation).topLeft
+    return {
+      row: this.topLeft.row - offset.row,
+      col: this.topLeft.col - offset.col
+    }
+  }
+
+  /**
+   * This method handles row elimination and Tet fragmentation. The engine's
+   * scoring system decides how many points the eliminated rows (and T-spins)
+   * are worth.
+   *
+   * We then perform the falling animations on the Tets affected by "gravity."
+   * @param [cascade] If true, the rows were filled by fragments which just
+   *     finished falling rather than by this Tet landing.
+   */
+  collided(cascade = false) {
+    // Spins have to be checked before the shape gets altered
+    const tSpin = cascade ? 'none' : this.getTSpin()
+    const landed = this.engine.getLanded()
+    let isFilled: boolean
+    const fullRows = []
+    // Find the rows we're going to eliminate
+    const totalRows = this.engine.totalRows
+    const cols = this.engine.cols
+    for (let row = this.topLeft.row; row < totalRows; row++) {
+      isFilled = true
+      for (let col = 0; col < cols; col++) {
+        if (landed[row][col] === 0) {
+          isFilled = false
+        }
+      }
+      if (isFilled) fullRows.push(row)
+    }
+    this.engine.updateLanded = true
+    const fRLen = fullRows.length
+    const row = this.topLeft.row
+    if (fRLen === 0) {
+      this.engine.scoreClear(0, tSpin, cascade, row)
+      return
+    }
+    // Alter the shapes
+    this.engine.alterShapes(fullRows)
+    this.engine.updateLanded = true
+    // Adjust score
+    this.engine.scoreClear(fRLen, tSpin, cascade, row)
+    // Let what's above fall (once every fragment has settled, the engine calls
+    // collided() again)
+    this.engine.dropAfterClear(this, fullRows)
+  }
+
+  /**
+   * This method actually sets the shape and perimeter of the Tet that's
+   * executing this method.
+   * @param shape This is the shape of the Tet we care about getting the
+   *     perimeter from.
+   */
+  setShape(shape: number[][]) {
+    this.shape = shape
+    this.perim = this.getPerim(shape)
+  }
+
+  /**
+   * This method saves the Tet as plain JSON, e.g. to resume a game later.
+   * @returns The snapshot of the Tet.
+   */
+  getSnapshot(): TetSnapshot {
+    return {
+      type: this.type,
+      // Fragments were never rotated
+      rotation: this.rotation || 0,
+      topLeft: { row: this.topLeft.row, col: this.topLeft.col },
+      shape: this.shape.map((line) => line.slice()),
+      lastMoveWasRotation: this.lastMoveWasRotation === true,
+      lastKick: this.lastKick || 0
+    }
+  }
+
   /**
    * This method takes in a Tet type and rotation then outputs its shape matrix.
    * This method is only needed on a live Tet. I.e. if a Tet is already placed
    * on the landed array, this method will not be used.
    * @param rotation Rotation of shape, determined by user input.
-   * @returns Number matrix of shape. If type is unexpected, return empty array.
+   * @returns Number matrix of shape along with the position of its top left
+   *     corner relative to the Tet's rotation center. If type is unexpected,
+   *     return an empty shape.
    */
-  private getShapeMatrix(rotation: number) {
+  private getShapeMatrix(rotation: number): TetRep {
     // Shapes are from: http://en.wikipedia.org/wiki/Tetris#Colors_of_Tetriminos
-    // The numbers in these arrays denote their eventual color.
-    // NOTE: Trailing zeros were removed and replaced by spaces in the following
-    // matrices as a reasonable optimization for gaming (preventing unnecessary
-    // loop iterations).
+    // Each shape is given as the (col, row) coordinates of its 4 blocks in SRS
+    // state 0, relative to its true rotation center (rows grow downwards).
     /* tslint:disable:no-multi-spaces */
-    const matrixMatrix = [
-      // I
-      [
-        [[1, 1, 1, 1]], [[1], [1], [1], [1]]
-      ],
-      // J
-      [
-        [[1, 1, 1], [0, 0, 1]], [[0, 1], [0, 1], [1, 1]],
-        [[1], [1, 1, 1]], [[1, 1], [1], [1]]
-      ],
-      // L
-      [
-        [[1, 1, 1], [1]], [[1, 1], [0, 1], [0, 1]],
-        [[0, 0, 1], [1, 1, 1]], [[1], [1], [1, 1]]
-      ],
-      // O
-      [
-        [[1, 1], [1, 1]]
-      ],
-      // S
-      [
-        [[0, 1, 1], [1, 1]], [[1], [1, 1], [0, 1]]
-      ],
-      // T
-      [
-        [[1, 1, 1], [0, 1]], [[0, 1], [1, 1], [0, 1]],
-        [[0, 1], [1, 1, 1]], [[1], [1, 1], [1]]
-      ],
-      // Z
-      [
-        [[1, 1], [0, 1, 1]], [[0, 1], [1, 1], [1]]
-      ]
+    const cellMatrix = [
+      [[-1, 0], [0, 0], [1, 0], [2, 0]],    // I
+      [[-1, -1], [-1, 0], [0, 0], [1, 0]],  // J
+      [[1, -1], [-1, 0], [0, 0], [1, 0]],   // L
+      [[0, -1], [1, -1], [0, 0], [1, 0]],   // O
+      [[0, -1], [1, -1], [-1, 0], [0, 0]],  // S
+      [[0, -1], [-1, 0], [0, 0], [1, 0]],   // T
+      [[-1, -1], [0, -1], [0, 0], [1, 0]]   // Z
     ]
     /* tslint:enable:no-multi-spaces */
-    const m = matrixMatrix[this.type]
-    switch (this.type) {
-      case 0: // I needs 3 pivots
-        this.pivotMax = 3
-        break
-      case 3: // O needs no pivots
-        this.pivotMax = 0
-        break
-      default: // every other Tet needs 1
-        this.pivotMax = 1
+    if (this.type < 0 || this.type >= cellMatrix.length) {
+      return { shape: [], topLeft: { row: 0, col: 0 } }
     }
-    switch (m.length) {
-      case 1:
-        return m[0]
-      case 2:
-        return m[rotation % 2]
-      case 4:
-        return m[rotation]
+    const cells = cellMatrix[this.type]
+    // Rotate each block clockwise around the center: (x, y) becomes (-y, x)
+    const rotated = cells.map((cell) => {
+      let col = cell[0]
+      let row = cell[1]
+      for (let i = 0; i < rotation; i++) {
+        const tmp = col
+        col = -row
+        row = tmp
+      }
+      return { row: row, col: col }
+    })
+    const minRow = Math.min(...rotated.map((cell) => cell.row))
+    const minCol = Math.min(...rotated.map((cell) => cell.col))
+    // NOTE: Trailing zeros are left out of each row as a reasonable
+    // optimization for gaming (preventing unnecessary loop iterations).
+    const shape: number[][] = []
+    rotated.forEach((cell) => {
+      const row = cell.row - minRow
+      const col = cell.col - minCol
+      while (shape.length <= row) shape.push([])
+      while (shape[row].length <= col) shape[row].push(0)
+      shape[row][col] = 1
+    })
+    return { shape: shape, topLeft: { row: minRow, col: minCol } }
+  }
+
+  /**
+   * This method gives the Super Rotation System offsets of the Tet for the
+   * given rotation. A rotation from state A to state B tries, in order, each
+   * translation offsets(A)[i] - offsets(B)[i].
+   * @param rotation Rotation [0..3] of the Tet.
+   * @returns The 5 (x, y) offsets, y pointing up. J, L, S, T and Z share the
+   *     same table; I and O have their own.
+   */
+  private getKickOffsets(rotation: number) {
+    /* tslint:disable:no-multi-spaces */
+    const jlstzOffsets = [
+      [[0, 0], [0, 0],  [0, 0],   [0, 0],  [0, 0]],
+      [[0, 0], [1, 0],  [1, -1],  [0, 2],  [1, 2]],
+      [[0, 0], [0, 0],  [0, 0],   [0, 0],  [0, 0]],
+      [[0, 0], [-1, 0], [-1, -1], [0, 2],  [-1, 2]]
+    ]
+    const iOffsets = [
+      [[0, 0],   [-1, 0], [2, 0],  [-1, 0], [2, 0]],
+      [[-1, 0],  [0, 0],  [0, 0],  [0, 1],  [0, -2]],
+      [[-1, 1],  [1, 1],  [-2, 1], [1, 0],  [-2, 0]],
+      [[0, 1],   [0, 1],  [0, 1],  [0, -1], [0, 2]]
+    ]
+    // O never kicks; its offsets only keep it from wobbling as it rotates
+    const oOffsets = [[[0, 0]], [[0, -1]], [[-1, -1]], [[-1, 0]]]
+    /* tslint:enable:no-multi-spaces */
+    switch (this.type) {
+      case 0:
+        return iOffsets[rotation]
+      case 3:
+        return oOffsets[rotation]
       default:
-        // console.log('unexpected array length in function ' +
-        //     arguments.callee.toString().substr(
-        //         9, arguments.callee.toString().indexOf('(') - 9))
-        return []
+        return jlstzOffsets[rotation]
     }
   }
 
@@ -367,6 +525,8 @@ export class Tet {
    * @param shape This is the shape of the Tet we care about getting the
    *     perimeter from.
    * @returns Perimeter of shape. If shape is unknown, return empty array.
+   *     Besides the shapes of Tets and their fragments, a single row of blocks
+   *     of any width is known.
    */
   private getPerim(shape: number[][]) {
     // NOTE: Trailing zeros were removed and replaced by spaces in the following
@@ -443,35 +603,25 @@ export class Tet {
         return periMatrix[pRow][1]
       }
     }
+    // Garbage comes in rows of blocks as wide as the board allows
+    if (shape.length === 1 && shape[0].length > 0 &&
+      shape[0].every((block) => block !== 0)) {
+      const width = shape[0].length
+      return [[0, 0], [0, 1], [width, 1], [width, 0]]
+    }
     return []
   }
 
-  /**
-   * This method actually sets the shape and perimeter of the Tet that's
-   * executing this method.
-   * @param shape This is the shape of the Tet we care about getting the
-   *     perimeter from.
-   */
-  private setShape(shape: number[][]) {
-    this.shape = shape
-    this.perim = this.getPerim(shape)
-  }
-
   /**
    * This method checks to see if a Tet will collide with the side of the game
-   * board or another Tet. If it collides on the right side of the Tet, we'll
-   * adjust the pivot as necessary.
+   * board or another Tet.
    * @param potTopLeft This object contains a potential row and column
    *     which we use to check to see if the Tet will collide if it moves to the
    *     coordinate specified by this param.
-   * @param [direction] If value is 1, we are testing the right side
-   *     and we're going to adjust the pivot.
    * @returns If Tet colides, return true; else, false.
    */
-  private doesTetCollideSide(
-    potTopLeft: { row: number, col: number },
-    direction?: number) {
-    const landed = this.game.getLanded()
+  private doesTetCollideSide(potTopLeft: { row: number, col: number }) {
+    const landed = this.engine.getLanded()
     const rLen = this.shape.length
     for (let row = 0; row < rLen; row++) {
       const cLen = this.shape[row].length
@@ -481,19 +631,12 @@ export class Tet {
             // console.log('left beyond playing field');
             return true
           }
-          if (col + potTopLeft.col >= Game.BOARD_COL_NUM) {
+          if (col + potTopLeft.col >= this.engine.cols) {
             // console.log('right beyond playing field');
-            if (this.pivot < this.pivotMax && this.rotation % 2 === 0) {
-              this.pivot++
-            }
             return true
           }
           if (landed[row + potTopLeft.row][col + potTopLeft.col] !== 0) {
             // console.log('side: space taken');
-            if (direction === 1 &&
-              (this.pivot < this.pivotMax && this.rotation % 2 === 0)) {
-              this.pivot++
-            }
             return true
           }
         }
@@ -503,72 +646,44 @@ export class Tet {
   }
 
   /**
-   * This method handles row elimination and Tet fragmentation. We also adjust
-   * the score depending on how many rows get eliminated. The score scales with
-   * how many rows get eliminated at once by the following formula:
-   *
-   * `score += (fRLen ** (1 + (fRLen - 1) * 0.1)) * 10000`
-   *
-   * We then perform the falling animations on the Tets affected by "gravity."
+   * This method checks to see if a shape would collide with the edges of the
+   * game board or another Tet at the given position.
+   * @param shape This is the potential shape of the Tet.
+   * @param potTopLeft This is the potential position of the shape.
+   * @param landed This is the landed array to check against.
+   * @returns If the shape colides, return true; else, false.
    */
-  private collided() {
-    const landed = this.game.getLanded()
-    let isFilled: boolean
-    const fullRows = []
-    // Find the rows we're going to eliminate
-    for (let row = this.topLeft.row; row < Game.BOARD_ROW_NUM; row++) {
-      isFilled = true
-      for (let col = 0; col < Game.BOARD_COL_NUM; col++) {
-        if (landed[row][col] === 0) {
-          isFilled = false
-        }
-      }
-      if (isFilled) fullRows.push(row)
-    }
-    this.game.updateLanded = true
-    const fRLen = fullRows.length
-    if (fRLen === 0) return
-    // Adjust score (Scale the point rewarded for filling rows to benefit those
-    // that break more at one time.)
-    this.game.score += (fRLen ** (1 + (fRLen - 1) * 0.1)) * 10000
-    // Alter the shapes
-    this.game.alterShapes(fullRows)
-    this.game.updateLanded = true
-    // Perform falling animations
-    const that = this
-    // let movingTets = [0] // TODO: why is this 0?
-    let movingTets = []
-    let tetsMoved: boolean
-    const moveLoop = window.setInterval(() => {
-      movingTets = []
-      tetsMoved = true
-      while (tetsMoved) {
-        tetsMoved = false
-        const aT = that.game.allTets
-        const tLen = aT.length
-        for (let tet = 0; tet < tLen; tet++) {
-          if (movingTets.indexOf(aT[tet], 0) > -1 ||
-            (aT[tet] === that.game.currTet && that.game.newTet !== true)) {
-            continue
+  private doesShapeCollide(shape: number[][],
+    potTopLeft: { row: number, col: number }, landed: number[][]) {
+    const rLen = shape.length
+    for (let row = 0; row < rLen; row++) {
+      const cLen = shape[row].length
+      for (let col = 0; col < cLen; col++) {
+        if (shape[row][col] !== 0) {
+          if (col + potTopLeft.col < 0) {
+            // console.log('left beyond playing field')
+            return true
           }
-          const potTL = {
-            row: aT[tet].topLeft.row + 1,
-            col: aT[tet].topLeft.col
+          if (col + potTopLeft.col >= this.engine.cols) {
+            // console.log('right beyond playing field')
+            return true
           }
-          if (!aT[tet].doesTetCollideBot(potTL)) {
-            aT[tet].topLeft = potTL
-            movingTets.push(aT[tet])
-            tetsMoved = true
+          if (row + potTopLeft.row < 0) {
+            // console.log('above playing field')
+            return true
+          }
+          if (row + potTopLeft.row >= this.engine.totalRows) {
+            // console.log('below playing field')
+            return true
+          }
+          if (landed[row + potTopLeft.row][col + potTopLeft.col] !== 0) {
+            // console.log('rotate: space is taken')
+            return true
           }
         }
-        that.game.updateLanded = true
-      }
-      that.game.draw()
-      if (movingTets.length === 0) {
-        clearInterval(moveLoop)
-        that.collided()
       }
-    }, 200)
+    }
+    return false
   }
 
   /**
@@ -663,7 +778,7 @@ export class Tet {
     if (q.length === 0) {
       // Remove this Tet from allTets if shape is a zero'd matrix (Tet
       // completely gone)
-      this.game.tetsToRemove.push(this.game.allTets.indexOf(this))
+      this.engine.tetsToRemove.push(this.engine.allTets.indexOf(this))
     }
 
     // Iterate through our queue
@@ -676,14 +791,14 @@ export class Tet {
         this.topLeft = tmp.topLeft
         this.setShape(tmp.shape)
         // For all other objects in the queue, create a new Tet class and set its
-        // shape, then push this new Tet onto the allTets Game class property
+        // shape, then push this new Tet onto the allTets Engine class property
       } else {
-        const newTet = new Tet(this.game, -1)
+        const newTet = new Tet(this.engine, -1)
         newTet.type = this.type
         newTet.topLeft = tmp.topLeft
         newTet.setShape(tmp.shape)
-        this.game.allTets.push(newTet)
+        this.engine.allTets.push(newTet)
       }
     }
   }
-}
\ No newline at end of file
+}
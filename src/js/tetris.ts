@@ -36,5 +36,5 @@ document.addEventListener('click', (event) => {
 })
 
 // Initialize game
-const theGame = new Game('canvas', 'high-scores-list')
+const theGame = new Game('canvas')
 if (!theGame) console.error('Game didn\'t load!', theGame)
@@ -0,0 +1,212 @@
+import { Engine } from './engine'
+import { Prng } from './prng'
+
+/** These are the numbers of rounds a versus match can be the best of. */
+export const BEST_OF = [1, 3, 5, 7]
+
+/**
+ * These are the garbage rows sent for eliminating 0 to 4 rows at once: a
+ * Tetris sends 4, but eliminating a single row sends nothing.
+ */
+const ATTACK_ROWS = [0, 0, 1, 2, 4]
+
+/**
+ * This function gives the number of garbage rows a clear sends to the
+ * opponent. T-Spins send twice the rows eliminated, a perfect clear sends 4
+ * more rows and every clear after the first of a chain sends 1 more row per
+ * place in the chain.
+ * @param clear This is the clear, as given by the engine.
+ * @returns The number of garbage rows to send.
+ */
+export function getAttack(clear: ClearEvent) {
+  let rows = clear.tSpin === 'full' ? 2 * clear.lines
+    : ATTACK_ROWS[Math.min(clear.lines, 4)]
+  if (clear.perfectClear) rows += 4
+  if (clear.chain > 1) rows += clear.chain - 1
+  return rows
+}
+
+/**
+ * This function gives the number of rounds to win to win a match.
+ * @param bestOf This is the number of rounds the match is the best of.
+ * @returns More than half of bestOf.
+ */
+export function getWinsNeeded(bestOf: number) {
+  return Math.floor(bestOf / 2) + 1
+}
+
+/**
+ * Represents a best-of-N versus match between 2 players, each playing on an
+ * engine of their own. Both engines of a round share their seed, so the
+ * players get the very same Tets, and the rows a player eliminates are sent
+ * to the other as garbage. A round is won by the player who doesn't top out.
+ */
+export class Versus {
+  // Public Vars
+  /** This is how many players a match is played by. */
+  static readonly PLAYERS: number = 2
+  /** These are the engines of the round being played, by player. */
+  engines: Engine[]
+  /** This is the number of rounds the match is the best of. */
+  readonly bestOf: number
+  /** These are the numbers of rounds won by each player. */
+  wins: number[]
+  /** This is the number of the round being played, starting at 1. */
+  round: number
+  /**
+   * This is the player who won the last round, -1 if it was a draw, or null
+   * while the round is being played.
+   */
+  roundWinner: number | null
+
+  // Private vars
+  /** These are the options the engines of every round are created with. */
+  private opts: EngineOpts
+
+  /**
+   * @param opts These are the options of the players' engines; their seed is
+   *     picked anew for every round.
+   * @param bestOf This is the number of rounds the match is the best of.
+   */
+  constructor(opts: EngineOpts, bestOf: number) {
+    // Force instantiation
+    if (!(this instanceof Versus)) {
+      return new Versus(opts, bestOf)
+    }
+
+    this.opts = opts
+    this.bestOf = BEST_OF.indexOf(bestOf) !== -1 ? bestOf : 3
+    this.wins = []
+    for (let i = 0; i < Versus.PLAYERS; i++) this.wins.push(0)
+    this.round = 0
+    this.startRound()
+  }
+
+  /**
+   * This is the number of rounds to win to win the match.
+   * @returns More than half of bestOf.
+   */
+  get winsNeeded() {
+    return getWinsNeeded(this.bestOf)
+  }
+
+  /**
+   * This method tells who won the match, if anyone did yet.
+   * @returns The player who won the match, or null while it goes on.
+   */
+  getMatchWinner() {
+    const len = this.wins.length
+    for (let i = 0; i < len; i++) {
+      if (this.wins[i] >= this.winsNeeded) return i
+    }
+    return null
+  }
+
+  /**
+   * This method starts the next round on fresh engines sharing a new seed.
+   * Like any new game, the round starts paused.
+   */
+  startRound() {
+    const seed = Prng.randomSeed()
+    this.engines = []
+    for (let i = 0; i < Versus.PLAYERS; i++) {
+      this.engines.push(new Engine(Object.assign({}, this.opts, { seed })))
+    }
+    this.round++
+    this.roundWinner = null
+  }
+
+  /**
+   * This method goes on to whatever comes after the round that ended: the
+   * next round, or a new match once this one was won.
+   */
+  next() {
+    if (this.roundWinner === null) return
+    if (this.getMatchWinner() !== null) {
+      this.wins = this.wins.map(() => 0)
+      this.round = 0
+    }
+    this.startRound()
+  }
+
+  /**
+   * This method pauses the round for both players, or resumes it.
+   * @param paused This is whether to pause the round.
+   */
+  setPaused(paused: boolean) {
+    if (this.roundWinner !== null) return
+    const input = paused ? 'pause' : 'resume'
+    this.engines.forEach((engine) => engine.step([input], 0))
+  }
+
+  /**
+   * This method tells if the round is paused.
+   * @returns If the round is paused, return true; else, false.
+   */
+  isPaused() {
+    return this.engines[0].paused
+  }
+
+  /**
+   * This method advances both engines by the same amount of time, applies
+   * each player's inputs to their engine, then sends the garbage of the rows
+   * they eliminated. Garbage sent to a player first cancels out the garbage
+   * still waiting to push up on the sender's board.
+   * @param inputs These are the actions each player performed.
+   * @param dt This is the amount of time to simulate, in milliseconds.
+   * @returns If the round just ended, return true; else, false.
+   */
+  step(inputs: EngineInput[][], dt: number) {
+    const len = this.engines.length
+    for (let i = 0; i < len; i++) this.engines[i].step(inputs[i] || [], dt)
+    for (let i = 0; i < len; i++) {
+      const engine = this.engines[i]
+      const clears = engine.clears.splice(0)
+      let attack = 0
+      const cLen = clears.length
+      for (let j = 0; j < cLen; j++) attack += getAttack(clears[j])
+      const cancelled = Math.min(attack, engine.garbageQueued)
+      engine.garbageQueued -= cancelled
+      this.engines[(i + 1) % len].receiveGarbage(attack - cancelled)
+    }
+    return this.checkRoundOver()
+  }
+
+  /**
+   * This method gives the state of the match, e.g. for the UI.
+   * @returns The state of the match.
+   */
+  getState(): VersusState {
+    return {
+      bestOf: this.bestOf,
+      wins: this.wins.slice(),
+      round: this.round,
+      roundWinner: this.roundWinner,
+      matchWinner: this.getMatchWinner()
+    }
+  }
+
+  /**
+   * This method ends the round once a player topped out, giving it to the
+   * other one. The winner's game ends right there too.
+   * @returns If the round just ended, return true; else, false.
+   */
+  private checkRoundOver() {
+    if (this.roundWinner !== null) return false
+    const standing: number[] = []
+    const len = this.engines.length
+    for (let i = 0; i < len; i++) {
+      if (!this.engines[i].gameOver) standing.push(i)
+    }
+    if (standing.length === len) return false
+    if (standing.length === 1) {
+      this.roundWinner = standing[0]
+      this.wins[standing[0]]++
+      this.engines[standing[0]].endGame('finished')
+    } else {
+      this.roundWinner = -1
+      standing.forEach((i) => this.engines[i].endGame('finished'))
+    }
+    return true
+  }
+}
@@ -1,14 +1,19 @@
-import { app, BrowserWindow } from 'electron'
+import { app, BrowserWindow, ipcMain } from 'electron'
+import { NetHost } from './js/netHost'
 
 // Keep a global reference of the window object, otherwise the window will be
 // closed automatically when the JavaScript object is garbage collected.
 let mainWindow: BrowserWindow | null = null
 
+// Network versus matches are hosted from here, so the players of other
+// instances can connect to it.
+const netHost = new NetHost()
+
 function createWindow() {
   // Create the browser window.
   mainWindow = new BrowserWindow({
     frame:  false,
-    width:  760,
+    width:  840,
     height: 620
   })
 
@@ -25,9 +30,23 @@ function createWindow() {
     // Dereference the window object in case we store windows in an array to
     // support multi windows later (then delete the corresponding element).
     mainWindow = null
+    netHost.stop()
   })
 }
 
+// Host a network versus match when the window asks for it, and tell it the
+// addresses to share or why the match couldn't be hosted.
+ipcMain.on('hostNet', (event: Electron.Event, port: number) => {
+  netHost.start(port, (error) => {
+    event.sender.send('netHosted', {
+      error: error !== null ? error.message : null,
+      addresses: error !== null ? [] : NetHost.getAddresses(port)
+    })
+  })
+})
+
+ipcMain.on('stopHostingNet', () => netHost.stop())
+
 // Called when Electron has finished initialization and is ready to create
 // browser windows. Some APIs can only be used after this event occurs.
 app.on('ready', createWindow)
@@ -1,6 +1,17 @@
 import * as React from 'react'
 import * as ReactDOM from 'react-dom'
 import * as Script from 'react-load-script'
+import { BotWatch } from './components/botWatch'
+import { Controls } from './components/controls'
+import { GamepadStatus } from './components/gamepadStatus'
+import { HighScores } from './components/highScores'
+import { ModeSelect } from './components/modeSelect'
+import { NetPlay } from './components/netPlay'
+import { ReplayBrowser } from './components/replayBrowser'
+import { ResumePrompt } from './components/resumePrompt'
+import { Settings } from './components/settings'
+import { StoreNotice } from './components/storeNotice'
+import { VersusSetup } from './components/versusSetup'
 // import styles from '../src/css/main.css'
 // import styles from './css/main.css'
 
@@ -64,64 +75,23 @@ class App extends React.Component {
           <h1><img id="tetris-banner" src="../src/img/TETRIS.png" alt="Tetris logo" /></h1>
           <section className="panel" id="public-controls" aria-labelledby="public-controls-title">
             <h2 id="public-controls-title">Controls</h2>
-            <ul>
-              <li>
-                <h3>Control</h3>
-                <h3>Key</h3>
-              </li>
-              <li>
-                <div>
-                  <span>Rotate</span>
-                </div>
-                <span><strong>Up</strong> Arrow Key</span>
-              </li>
-              <li>
-                <div>
-                  <span>Move Left</span>
-                </div>
-                <span><strong>Left</strong> Arrow Key</span>
-              </li>
-              <li>
-                <div>
-                  <span>Move Right</span>
-                </div>
-                <span><strong>Right</strong> Arrow </span></li>
-              <li>
-                <div>
-                  <span>Move Down</span>
-                </div>
-                <span><strong>Down</strong> Arrow </span>
-              </li>
-              <li>
-                <div>
-                  <span>Instantly Move Down</span>
-                </div>
-                <span><strong>Space</strong> Bar</span>
-              </li>
-              <br />
-              <li>
-                <div>
-                  <span>Pause Game</span>
-                </div>
-                <span><strong>S</strong> or <strong>P</strong> Key</span>
-              </li>
-              <li>
-                <div>
-                  <span>Restart Game</span>
-                </div>
-                <span><strong>R</strong> Key</span>
-              </li>
-            </ul>
+            <Controls />
           </section>
           <canvas id="canvas" tabIndex={-1} />
-          <section className="panel" id="high-scores" aria-labelledby="high-scores-title">
-            <h2 id="high-scores-title">High Scores</h2>
-            <ol id="high-scores-list" />
-          </section>
+          <HighScores />
         </main>
         <div id="footer">
           <span>&copy; 2018 <a href="http://www.jaredgotte.com/">Jared Gotte</a>; licensed under <a href="https://opensource.org/licenses/ISC">ISC</a></span>
+          <ReplayBrowser />
+          <ModeSelect />
+          <VersusSetup />
+          <NetPlay />
+          <BotWatch />
+          <Settings />
+          <GamepadStatus />
         </div>
+        <ResumePrompt />
+        <StoreNotice />
 
         {/* <script src="tetris.js"></script>
         Inline JS code now inserted at the bottom of tetris.js */}
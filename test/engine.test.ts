@@ -0,0 +1,92 @@
+import * as assert from 'assert'
+import { Engine } from '../src/js/engine'
+import { loadBoard, runScript, serializeBoard } from '../src/js/fixtures'
+
+/**
+ * This function saves an engine and rebuilds it from the JSON it was saved
+ * as, the way a suspended game is.
+ * @param engine This is the engine to save.
+ * @returns The rebuilt engine.
+ */
+function roundTrip(engine: Engine) {
+  return Engine.fromSnapshot(JSON.parse(JSON.stringify(engine.getSnapshot())))
+}
+
+/**
+ * This function sums up what a player can see of a game.
+ * @param engine This is the engine the game is played on.
+ * @returns The board, living Tet included, queue, hold slot and counters.
+ */
+function stateOf(engine: Engine) {
+  return {
+    board: serializeBoard(engine, true),
+    next: engine.nextTets.map((tet) => tet.type),
+    hold: engine.holdTet !== null ? engine.holdTet.type : null,
+    score: engine.score,
+    lines: engine.lines,
+    chain: engine.chain,
+    level: engine.level,
+    time: engine.time,
+    playTime: engine.playTime,
+    paused: engine.paused
+  }
+}
+
+describe('Engine snapshots', () => {
+  it('resume a game in the middle of a cascade', () => {
+    const engine = new Engine({ seed: 1, clearGravity: 'sticky' })
+    loadBoard(engine, [
+      '.OOoo.....',
+      '.OOoo.....',
+      'GGGGGGGGG.',
+      'g..ggggggg'
+    ], ['T', 'I'])
+    // Hold the T, then drop the I; its fragments are still falling
+    runScript(engine, 'resume hold cw > > > > > drop 100ms')
+    assert.ok(engine.isCascading())
+    const resumed = roundTrip(engine)
+    assert.deepStrictEqual(stateOf(resumed), stateOf(engine))
+    runScript(engine, 'settle')
+    runScript(resumed, 'settle')
+    assert.deepStrictEqual(stateOf(resumed), stateOf(engine))
+    assert.strictEqual(resumed.chain, 2)
+  })
+
+  it('resume the living Tet in its rotation and lock delay', () => {
+    const engine = new Engine({ seed: 7, lockDelay: 1000 })
+    loadBoard(engine, ['GGGG.GGGGG'], ['T', 'L'])
+    runScript(engine, 'resume cw cw v v v v v v v v v v v v v v 300ms pause')
+    const resumed = roundTrip(engine)
+    assert.strictEqual(resumed.getLockProgress(), engine.getLockProgress())
+    const script = 'resume ccw 800ms > drop'
+    runScript(engine, script)
+    runScript(resumed, script)
+    assert.deepStrictEqual(stateOf(resumed), stateOf(engine))
+  })
+
+  const randomizers: RandomizerName[] = ['random', 'bag', 'nes', 'tgm']
+  randomizers.forEach((randomizer) => {
+    it('deal the same Tets and points after resuming: ' + randomizer, () => {
+      const engine = new Engine({ seed: 42, randomizer, scoring: 'guideline',
+        mode: 'dig' })
+      runScript(engine, 'resume drop < < drop > > drop 1500ms v')
+      const resumed = roundTrip(engine)
+      const script = 'drop < drop cw > > drop hold drop 2000ms'
+      runScript(engine, script)
+      runScript(resumed, script)
+      assert.deepStrictEqual(stateOf(resumed), stateOf(engine))
+      assert.strictEqual(resumed.garbageLeft, engine.garbageLeft)
+    })
+  })
+})
+
+describe('Engine.normalizeRules', () => {
+  it('keeps the randomizer picked, or falls back on pure random', () => {
+    assert.strictEqual(Engine.normalizeRules({ randomizer: 'bag' }).randomizer,
+      'bag')
+    assert.strictEqual(Engine.normalizeRules({}).randomizer, 'random')
+    const unknown: any = { randomizer: 'shuffle' }
+    assert.strictEqual(Engine.normalizeRules(unknown).randomizer, 'random')
+    assert.strictEqual(new Engine({ randomizer: 'tgm' }).randomizer.name, 'tgm')
+  })
+})
@@ -0,0 +1,152 @@
+import * as assert from 'assert'
+import { Engine } from '../src/js/engine'
+import { assertBoard, assertState, loadBoard, parseBoard, runScript,
+  serializeBoard } from '../src/js/fixtures'
+
+describe('parseBoard', () => {
+  it('reads each Tet with its shape and position from the floor', () => {
+    const tets = parseBoard([
+      '.T........',
+      'TTT.IIII.O'
+    ])
+    assert.deepStrictEqual(tets, [
+      { type: 'T', shape: [[0, 1], [1, 1, 1]], row: 0, col: 0 },
+      { type: 'I', shape: [[1, 1, 1, 1]], row: 0, col: 4 },
+      { type: 'O', shape: [[1]], row: 0, col: 9 }
+    ])
+  })
+
+  it('tells touching Tets of the same type apart by their case', () => {
+    const tets = parseBoard([
+      'OOoo......',
+      'OOoo......'
+    ])
+    assert.strictEqual(tets.length, 2)
+    assert.deepStrictEqual(tets.map((tet) => tet.col), [0, 2])
+  })
+
+  it('reads garbage rows as wide as they come', () => {
+    const tets = parseBoard(['GGGG.GGGGG'])
+    assert.deepStrictEqual(tets, [
+      { type: 'G', shape: [[1, 1, 1, 1]], row: 0, col: 0 },
+      { type: 'G', shape: [[1, 1, 1, 1, 1]], row: 0, col: 5 }
+    ])
+  })
+
+  it('reads stacked garbage rows each on their own', () => {
+    const tets = parseBoard([
+      'GGGG.GGGGG',
+      'GGGG.GGGGG'
+    ])
+    assert.strictEqual(tets.length, 4)
+    tets.forEach((tet) => assert.strictEqual(tet.shape.length, 1))
+    assert.deepStrictEqual(tets.map((tet) => tet.row), [1, 1, 0, 0])
+  })
+
+  it('throws on unknown cells and on too many blocks for a Tet', () => {
+    assert.throws(() => parseBoard(['X.........']), /Unknown cell 'X'/)
+    assert.throws(() => parseBoard(['JJJ.......', '.JJ.......']),
+      /too many for a single Tet/)
+  })
+})
+
+describe('serializeBoard', () => {
+  const boards: { [name: string]: string[] } = {
+    'Tets of every type': [
+      'J...T...S.',
+      'JJJTTT..SS',
+      'LZZ.OO...S',
+      'L.ZZOOIIII',
+      'LL........'
+    ],
+    'touching Tets of the same type': [
+      'OOoo......',
+      'OOoo..TTT.',
+      'TTT....T..',
+      '.T........'
+    ],
+    'fragments and garbage': [
+      'J.........',
+      'JJ..T....I',
+      'GGGG.GGGGG',
+      'GGGGGGGG.G'
+    ],
+    'stacked garbage': [
+      'GGGG.GGGGG',
+      'GGGG.GGGGG',
+      'GGGG.GGGGG'
+    ]
+  }
+
+  Object.keys(boards).forEach((name) => {
+    it('writes back the board it was loaded with: ' + name, () => {
+      const engine = new Engine({ seed: 1 })
+      loadBoard(engine, boards[name])
+      assert.deepStrictEqual(serializeBoard(engine), boards[name])
+    })
+  })
+
+  it('writes the living Tet only if asked to', () => {
+    const engine = new Engine({ seed: 1 })
+    loadBoard(engine, ['GGGG.GGGGG'], ['O'])
+    assert.deepStrictEqual(serializeBoard(engine), ['GGGG.GGGGG'])
+    assert.strictEqual(serializeBoard(engine, true)[0], '....OO....')
+  })
+})
+
+describe('loadBoard', () => {
+  it('throws if the fixture doesn\'t fit on the board', () => {
+    const engine = new Engine({ seed: 1 })
+    assert.throws(() => loadBoard(engine, ['GGGGGGGGGGG']), /doesn't fit/)
+    assert.throws(() => loadBoard(engine, new Array(17).fill('..........')),
+      /doesn't fit/)
+  })
+
+  it('loads stacked garbage rows with the same hole', () => {
+    const engine = new Engine({ seed: 1 })
+    loadBoard(engine, [
+      'GGGG.GGGGG',
+      'GGGG.GGGGG'
+    ])
+    assert.strictEqual(engine.getGarbageLines(), 2)
+  })
+
+  it('deals the given Tets first', () => {
+    const engine = new Engine({ seed: 1 })
+    loadBoard(engine, [], ['S', 'Z', 'T'])
+    const types = [engine.currTet].concat(engine.nextTets)
+      .map((tet) => tet === null ? -1 : tet.type)
+    assert.deepStrictEqual(types.slice(0, 3), [4, 6, 5])
+  })
+})
+
+describe('runScript', () => {
+  it('taps, waits and drops', () => {
+    const engine = new Engine({ seed: 1 })
+    loadBoard(engine, [], ['O'])
+    runScript(engine, 'resume 100ms < < < < < drop')
+    assertBoard(engine, [
+      'OO........',
+      'OO........'
+    ])
+    assertState(engine, { lines: 0, gameOver: false })
+  })
+
+  it('throws on unknown steps', () => {
+    const engine = new Engine({ seed: 1 })
+    assert.throws(() => runScript(engine, 'resume <<'), /Unknown step '<<'/)
+  })
+})
+
+describe('assertBoard and assertState', () => {
+  it('show what differs', () => {
+    const engine = new Engine({ seed: 1 })
+    loadBoard(engine, ['GGGG.GGGGG'])
+    assertBoard(engine, ['..........', 'gggg.ggggg'])
+    assert.throws(() => assertBoard(engine, ['GGGGG.GGGG']),
+      /GGGGG\.GGGG ≠ GGGG\.GGGGG/)
+    assertState(engine, { lines: 0, paused: true })
+    assert.throws(() => assertState(engine, { lines: 1 }),
+      /Expected lines to be 1, but it is 0/)
+  })
+})
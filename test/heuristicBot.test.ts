@@ -0,0 +1,71 @@
+import * as assert from 'assert'
+import { getBotView } from '../src/js/bot'
+import { Engine } from '../src/js/engine'
+import { loadBoard, runScript } from '../src/js/fixtures'
+import { resolveClears } from '../src/js/heuristicBot'
+
+/**
+ * This function lays the living Tet of an engine where a hard drop would
+ * land it, on the board the bot sees, as an owner of its own.
+ * @param engine This is the engine.
+ * @returns The board, as owners of each cell.
+ */
+function dropOnOwners(engine: Engine) {
+  const view = getBotView(engine)
+  const tet = engine.currTet
+  if (view === null || tet === null) throw new Error('No living Tet')
+  const board = view.owners
+  const fits = (row: number) => tet.shape.every((line, r) => line.every(
+    (block, c) => block === 0 || (row + r < board.length &&
+      board[row + r][tet.topLeft.col + c] === 0)))
+  let row = tet.topLeft.row
+  while (fits(row + 1)) row++
+  const owner = 1 + Math.max(...board.map((line) => Math.max(...line)))
+  tet.shape.forEach((line, r) => line.forEach((block, c) => {
+    if (block !== 0) board[row + r][tet.topLeft.col + c] = owner
+  }))
+  return board
+}
+
+describe('HeuristicBot clear gravity', () => {
+  const fixtures = [
+    {
+      // The I eliminates row 2; what rested on it falls, maybe into row 3
+      board: [
+        '.OOoo.....',
+        '.OOoo.....',
+        'GGGGGGGGG.',
+        'g..ggggggg'
+      ],
+      script: 'resume cw > > > > >'
+    },
+    {
+      // Once the I eliminates row 3, the J falls into the hole of row 4,
+      // unless gravity is naive
+      board: [
+        'JJ........',
+        'J.........',
+        'J.........',
+        'GGGGGGGGG.',
+        '.GGGGGGGGG'
+      ],
+      script: 'resume cw > > > > >'
+    }
+  ]
+  const gravities: ClearGravity[] = ['naive', 'sticky', 'cascade']
+
+  fixtures.forEach((fixture, i) => gravities.forEach((gravity) => {
+    it('eliminates the rows the engine does: board ' + (i + 1) + ', ' +
+      gravity, () => {
+      const engine = new Engine({ seed: 1, clearGravity: gravity })
+      loadBoard(engine, fixture.board, ['I'])
+      runScript(engine, fixture.script)
+      const board = dropOnOwners(engine)
+      const lines = resolveClears(board, gravity)
+      runScript(engine, 'drop settle')
+      assert.strictEqual(lines, engine.lines)
+      assert.deepStrictEqual(board.map((line) => line.map(
+        (cell) => cell !== 0 ? 1 : 0)), engine.getLanded())
+    })
+  }))
+})
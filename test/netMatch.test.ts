@@ -0,0 +1,140 @@
+import * as assert from 'assert'
+import { NetMatch } from '../src/js/netMatch'
+import { formatMessage } from '../src/js/netProtocol'
+
+/**
+ * Stands in for the browser's WebSocket: it keeps what gets sent, for the
+ * test to hand over to the other player whenever it sees fit.
+ */
+class FakeSocket {
+  static readonly OPEN: number = 1
+  /** These are the sockets created, in order. */
+  static created: FakeSocket[] = []
+  readyState: number = FakeSocket.OPEN
+  /** These are the messages sent and not handed over yet, as JSON. */
+  sent: string[] = []
+
+  constructor() {
+    FakeSocket.created.push(this)
+  }
+
+  // NetMatch.connect sets these
+  onopen = () => undefined
+  onmessage = (_event: { data: string }) => undefined
+  onclose = () => undefined
+
+  send(data: string) {
+    this.sent.push(data)
+  }
+
+  close() {
+    this.readyState = 3
+  }
+}
+
+/**
+ * This function seats a player in a match, as the host would.
+ * @param seat This is the seat of the player.
+ * @param bestOf This is the number of rounds the match is the best of.
+ * @returns The player's match and the socket it talks through.
+ */
+function join(seat: number, bestOf: number) {
+  const match = new NetMatch({}, bestOf, () => undefined)
+  match.connect('localhost:1')
+  const socket = FakeSocket.created[FakeSocket.created.length - 1]
+  socket.onopen()
+  socket.sent = []
+  const messages: NetMessage[] = [{ type: 'welcome', seat }, { type: 'joined' }]
+  messages.forEach((message) => socket.onmessage({
+    data: formatMessage(message)
+  }))
+  return { match, socket }
+}
+
+/**
+ * This function hands the messages a player sent over to the other one,
+ * through the host.
+ * @param from This is the socket of the sender.
+ * @param to This is the socket of the receiver.
+ */
+function relay(from: FakeSocket, to: FakeSocket) {
+  from.sent.splice(0).forEach((data) => to.onmessage({ data }))
+}
+
+/**
+ * This function tops a player out of the round being played.
+ * @param match This is the player's match.
+ */
+function topOut(match: NetMatch) {
+  match.engine.endGame('toppedOut')
+  match.step([], 0)
+}
+
+describe('NetMatch', () => {
+  const globals: any = global
+
+  before(() => { globals.WebSocket = FakeSocket })
+  after(() => { delete globals.WebSocket })
+
+  /**
+   * This function starts the first round of a match between 2 players.
+   * @param bestOf This is the number of rounds the match is the best of.
+   * @returns The host's and the guest's matches and sockets.
+   */
+  function startMatch(bestOf: number) {
+    const host = join(0, bestOf)
+    const guest = join(1, bestOf)
+    host.match.pause()
+    relay(host.socket, guest.socket)
+    relay(guest.socket, host.socket)
+    assert.strictEqual(guest.match.status, 'playing')
+    return { host, guest }
+  }
+
+  it('gives the round to the player who didn\'t top out', () => {
+    const { host, guest } = startMatch(3)
+    topOut(guest.match)
+    relay(guest.socket, host.socket)
+    for (const player of [host, guest]) {
+      assert.strictEqual(player.match.roundWinner, 0)
+      assert.deepStrictEqual(player.match.wins, [1, 0])
+      assert.strictEqual(player.match.getMatchWinner(), null)
+    }
+    assert.strictEqual(host.match.engine.outcome, 'finished')
+  })
+
+  it('counts a round both players top out of as a draw', () => {
+    const { host, guest } = startMatch(3)
+    // Both top out before hearing of the other
+    topOut(host.match)
+    topOut(guest.match)
+    relay(host.socket, guest.socket)
+    relay(guest.socket, host.socket)
+    for (const player of [host, guest]) {
+      assert.strictEqual(player.match.roundWinner, -1)
+      assert.deepStrictEqual(player.match.wins, [0, 0])
+    }
+  })
+
+  it('takes the match back from a player whose winning round was a draw',
+    () => {
+      const { host, guest } = startMatch(1)
+      topOut(host.match)
+      topOut(guest.match)
+      // The host told the guest it won the match before hearing of its top
+      // out, then takes it back
+      assert.strictEqual(host.match.getMatchWinner(), 1)
+      relay(host.socket, guest.socket)
+      relay(guest.socket, host.socket)
+      relay(host.socket, guest.socket)
+      for (const player of [host, guest]) {
+        assert.strictEqual(player.match.roundWinner, -1)
+        assert.deepStrictEqual(player.match.wins, [0, 0])
+        assert.strictEqual(player.match.getState().match.matchWinner, null)
+      }
+      // So the host starts the next round instead of a new match
+      host.match.pause()
+      relay(host.socket, guest.socket)
+      assert.strictEqual(guest.match.round, 2)
+    })
+})
@@ -0,0 +1,41 @@
+import * as assert from 'assert'
+import { formatMessage, parseMessage } from '../src/js/netProtocol'
+
+describe('parseMessage', () => {
+  const board = { rows: ['..........', 'GGGG.GGGGG'], score: 100, lines: 1,
+    garbageQueued: 2 }
+
+  it('reads the messages it writes', () => {
+    const messages: NetMessage[] = [
+      { type: 'hello', version: 1 },
+      { type: 'board', board },
+      { type: 'end', wins: [2, 1] }
+    ]
+    messages.forEach((message) => assert.deepStrictEqual(
+      parseMessage(formatMessage(message)), message))
+  })
+
+  it('rejects what isn\'t a message', () => {
+    assert.strictEqual(parseMessage('{'), null)
+    assert.strictEqual(parseMessage('null'), null)
+    assert.strictEqual(parseMessage('{"type":"unknown"}'), null)
+    assert.strictEqual(parseMessage('{"type":"attack","rows":"4"}'), null)
+    assert.strictEqual(parseMessage('{"type":"end","wins":{}}'), null)
+  })
+
+  it('rejects boards which can\'t be drawn', () => {
+    const boards = [
+      Object.assign({}, board, { rows: [null] }),
+      Object.assign({}, board, { rows: [[null]] }),
+      Object.assign({}, board, { rows: 'GGGG.GGGGG' }),
+      Object.assign({}, board, { score: '100' }),
+      Object.assign({}, board, { lines: null }),
+      { rows: board.rows, score: 100, lines: 1 }
+    ]
+    boards.forEach((malformed) => assert.strictEqual(
+      parseMessage(JSON.stringify({ type: 'board', board: malformed })), null))
+    // JSON has no Infinity, but a number too big for a double turns into it
+    assert.strictEqual(parseMessage('{"type":"board","board":{"rows":[],' +
+      '"score":1e999,"lines":0,"garbageQueued":0}}'), null)
+  })
+})
@@ -0,0 +1,34 @@
+import * as assert from 'assert'
+import { createRandomizer } from '../src/js/randomizers'
+
+describe('Randomizers', () => {
+  const names: RandomizerName[] = ['random', 'bag', 'nes', 'tgm']
+
+  names.forEach((name) => {
+    it('never deal an S or Z first: ' + name, () => {
+      const firsts = [0, 0, 0, 0, 0, 0, 0]
+      for (let seed = 0; seed < 700; seed++) {
+        firsts[createRandomizer(name, seed).next()]++
+      }
+      assert.strictEqual(firsts[4] + firsts[6], 0)
+      // Rerolling keeps each of the other Tets possible
+      const dealt = firsts.filter((count) => count > 0).length
+      assert.strictEqual(dealt, name === 'tgm' ? 4 : 5)
+    })
+
+    it('deal the same Tets from the same seed: ' + name, () => {
+      const a = createRandomizer(name, 123)
+      const b = createRandomizer(name, 123)
+      for (let i = 0; i < 50; i++) assert.strictEqual(a.next(), b.next())
+    })
+  })
+
+  it('deal every Tet once per 7 with the 7-bag', () => {
+    const bag = createRandomizer('bag', 5)
+    for (let i = 0; i < 5; i++) {
+      const types: number[] = []
+      for (let t = 0; t < 7; t++) types.push(bag.next())
+      assert.deepStrictEqual(types.sort(), [0, 1, 2, 3, 4, 5, 6])
+    }
+  })
+})
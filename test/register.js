@@ -0,0 +1,6 @@
+// Node needs the CommonJS modules webpack doesn't; the tests get type-checked
+// along with the rest of the project by tsc
+require('ts-node').register({
+  transpileOnly: true,
+  compilerOptions: { module: 'commonjs' }
+})
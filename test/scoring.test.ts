@@ -0,0 +1,151 @@
+import * as assert from 'assert'
+import { Engine } from '../src/js/engine'
+import { loadBoard, runScript, serializeBoard } from '../src/js/fixtures'
+import { GuidelineScoring } from '../src/js/scoring'
+import { TEST_CASES } from '../src/js/testCases'
+
+/**
+ * This function makes up a clear like the ones the engine gives.
+ * @param clear These are the fields differing from a single row eliminated
+ *     by a living Tet at level 1.
+ * @returns The clear.
+ */
+function clearOf(clear: Partial<ClearEvent>): ClearEvent {
+  return Object.assign({ lines: 1, level: 1, tSpin: 'none' as TSpin,
+    perfectClear: false, cascade: false, chain: 1 }, clear)
+}
+
+/**
+ * This function sums up the awards given out, leaving where they're shown
+ * aside.
+ * @param awards These are the awards.
+ * @returns The label and points of each award.
+ */
+function labelsOf(awards: Award[]) {
+  return awards.map((award) => award.label + ': ' + award.points)
+}
+
+describe('GuidelineScoring', () => {
+  it('awards T-Spins more than minis and plain clears', () => {
+    const clears = [
+      clearOf({ lines: 2 }),
+      clearOf({ lines: 2, tSpin: 'full' }),
+      clearOf({ lines: 1, tSpin: 'mini' }),
+      clearOf({ lines: 0, tSpin: 'full' }),
+      clearOf({ lines: 3, level: 2 })
+    ]
+    assert.deepStrictEqual(clears.map((clear) =>
+      labelsOf(new GuidelineScoring().lineClear(clear))), [
+        ['Double: 300'],
+        ['T-Spin Double: 1200'],
+        ['Mini T-Spin Single: 200'],
+        ['T-Spin: 400'],
+        ['Triple: 1000']
+      ])
+  })
+
+  it('multiplies back-to-back Tetrises and T-Spins by 1.5', () => {
+    const scoring = new GuidelineScoring()
+    // Tets locking in between break combos, but not back-to-backs
+    const locked = clearOf({ lines: 0 })
+    const awards = [
+      clearOf({ lines: 4 }), locked,
+      clearOf({ lines: 1, tSpin: 'full' }), locked,
+      clearOf({ lines: 4 }), locked,
+      clearOf({ lines: 2 }), locked,
+      clearOf({ lines: 4 })
+    ].map((clear) => labelsOf(scoring.lineClear(clear)))
+    assert.deepStrictEqual(awards.filter((award) => award.length > 0), [
+      ['Tetris: 800'],
+      ['Back-to-Back T-Spin Single: 1200'],
+      ['Back-to-Back Tetris: 1200'],
+      ['Double: 300'],
+      ['Tetris: 800']
+    ])
+  })
+
+  it('counts combos until a Tet locks without eliminating rows', () => {
+    const scoring = new GuidelineScoring()
+    const awards = [
+      clearOf({}),
+      clearOf({ lines: 2 }),
+      // Fragments settling without eliminating rows don't break the combo
+      clearOf({ lines: 0, cascade: true }),
+      clearOf({ lines: 1, level: 2 }),
+      clearOf({ lines: 0 }),
+      clearOf({})
+    ].map((clear) => labelsOf(scoring.lineClear(clear)))
+    assert.deepStrictEqual(awards, [
+      ['Single: 100'],
+      ['Double: 300', '1 Combo: 50'],
+      [],
+      ['Single: 200', '2 Combo: 200'],
+      [],
+      ['Single: 100']
+    ])
+  })
+
+  it('adds a bonus for perfect clears', () => {
+    assert.deepStrictEqual(labelsOf(new GuidelineScoring().lineClear(
+      clearOf({ lines: 4, perfectClear: true }))), [
+        'Tetris: 800',
+        'Perfect Clear: 2000'
+      ])
+    assert.deepStrictEqual(labelsOf(new GuidelineScoring().lineClear(
+      clearOf({ lines: 1, perfectClear: true, level: 3 }))), [
+        'Single: 300',
+        'Perfect Clear: 2400'
+      ])
+  })
+})
+
+describe('Guideline scoring in play', () => {
+  const softDrop = ' v v v v v v v v v v v v v v v v v v v'
+
+  it('awards the T-Spin double of the test case', () => {
+    const scenario = TEST_CASES.find((test) => test.name === 'T-spin double')
+    if (scenario === undefined) throw new Error('No T-spin double test case')
+    const engine = new Engine({ seed: 1, scoring: 'guideline' })
+    engine.loadScenario(scenario)
+    runScript(engine, 'resume ccw <' + softDrop + ' cw drop settle')
+    assert.deepStrictEqual(labelsOf(engine.awards), ['T-Spin Double: 1200'])
+    assert.deepStrictEqual(serializeBoard(engine), ['IIII......'])
+    // Soft dropping is worth a point per row on top of it
+    assert.strictEqual(engine.score, 1200 + 12)
+  })
+
+  it('awards a mini T-Spin single', () => {
+    const engine = new Engine({ seed: 1, scoring: 'guideline' })
+    loadBoard(engine, [
+      '...G......',
+      'GGG...GGGG',
+      'GGGG.GGGGG'
+    ], ['T'])
+    runScript(engine, 'resume ccw <' + softDrop + ' ccw drop')
+    assert.deepStrictEqual(labelsOf(engine.awards),
+      ['Mini T-Spin Single: 200'])
+  })
+
+  it('multiplies a back-to-back Tetris and counts the combo', () => {
+    const engine = new Engine({ seed: 1, scoring: 'guideline' })
+    loadBoard(engine, [
+      'GGGGGGGG..',
+      'GGGGGGGGG.',
+      'GGGGGGGGG.',
+      'GGGGGGGGG.',
+      'GGGGGGGGG.',
+      'GGGGGGGGG.',
+      'GGGGGGGGG.',
+      'GGGGGGGGG.',
+      'GGGGGGGGG.'
+    ], ['I', 'I'])
+    runScript(engine, 'resume cw > > > > > drop settle')
+    runScript(engine, 'cw > > > > > drop settle')
+    assert.deepStrictEqual(labelsOf(engine.awards), [
+      'Tetris: 800',
+      'Back-to-Back Tetris: 1200',
+      '1 Combo: 50'
+    ])
+    assert.deepStrictEqual(serializeBoard(engine), ['GGGGGGGG..'])
+  })
+})
@@ -0,0 +1,289 @@
+import * as assert from 'assert'
+import { Engine } from '../src/js/engine'
+import { assertBoard, assertState, loadBoard, runScript,
+  serializeBoard } from '../src/js/fixtures'
+import { Tet } from '../src/js/tet'
+
+/**
+ * This function finds the landed Tet which has a block at the given cell.
+ * @param engine This is the engine the Tet is in.
+ * @param row This is the row of the cell, vanish zone included.
+ * @param col This is the column of the cell.
+ * @returns The Tet.
+ */
+function tetAt(engine: Engine, row: number, col: number) {
+  const tet = engine.allTets.find((t) => t !== engine.currTet &&
+    (t.shape[row - t.topLeft.row] || [])[col - t.topLeft.col] === 1)
+  if (tet === undefined) throw new Error('No Tet at ' + row + ', ' + col)
+  return tet
+}
+
+/**
+ * This function gives the area a perimeter encloses (shoelace formula).
+ * @param perim This is the perimeter, as (x, y) points in order.
+ * @returns The area, in blocks.
+ */
+function areaOf(perim: number[][]) {
+  let twice = 0
+  perim.forEach((point, i) => {
+    const next = perim[(i + 1) % perim.length]
+    twice += point[0] * next[1] - next[0] * point[1]
+  })
+  return Math.abs(twice) / 2
+}
+
+describe('Tet.alterShape', () => {
+  it('splits a Tet into fragments along the eliminated rows', () => {
+    const engine = new Engine({ seed: 1 })
+    loadBoard(engine, [
+      '.J........',
+      '.J........',
+      'JJ........'
+    ])
+    const bottom = engine.totalRows - 1
+    const tet = tetAt(engine, bottom, 0)
+    tet.alterShape([bottom - 1])
+    // The Tet keeps the part above; cleanShape trims the empty column
+    assert.deepStrictEqual(tet.shape, [[1]])
+    assert.deepStrictEqual(tet.topLeft, { row: bottom - 2, col: 1 })
+    const fragment = engine.allTets[engine.allTets.length - 1]
+    assert.notStrictEqual(fragment, tet)
+    assert.strictEqual(fragment.type, 1)
+    assert.deepStrictEqual(fragment.shape, [[1, 1]])
+    assert.deepStrictEqual(fragment.topLeft, { row: bottom, col: 0 })
+    assert.notStrictEqual(tet.perim.length, 0)
+    assert.notStrictEqual(fragment.perim.length, 0)
+  })
+
+  it('trims the rows and columns emptied by the eliminated rows', () => {
+    const engine = new Engine({ seed: 1 })
+    loadBoard(engine, [
+      'ZZ........',
+      '.ZZ.......'
+    ])
+    const bottom = engine.totalRows - 1
+    const tet = tetAt(engine, bottom, 1)
+    tet.alterShape([bottom - 1])
+    assert.deepStrictEqual(tet.shape, [[1, 1]])
+    assert.deepStrictEqual(tet.topLeft, { row: bottom, col: 1 })
+    assert.strictEqual(engine.allTets.length, 2)
+  })
+
+  it('marks a Tet whose every row was eliminated for removal', () => {
+    const engine = new Engine({ seed: 1 })
+    loadBoard(engine, ['IIII......'])
+    const bottom = engine.totalRows - 1
+    const tet = tetAt(engine, bottom, 0)
+    tet.alterShape([bottom])
+    assert.deepStrictEqual(engine.tetsToRemove,
+      [engine.allTets.indexOf(tet)])
+  })
+})
+
+describe('Tet perimeters', () => {
+  // Every rotation of every Tet, then every fragment a Tet can be split into
+  const shapes: string[][] = [
+    ['IIII'], ['I', 'I', 'I', 'I'],
+    ['JJJ', '..J'], ['.J', '.J', 'JJ'], ['J..', 'JJJ'], ['JJ', 'J.', 'J.'],
+    ['LLL', 'L..'], ['LL', '.L', '.L'], ['..L', 'LLL'], ['L.', 'L.', 'LL'],
+    ['OO', 'OO'],
+    ['.SS', 'SS.'], ['S.', 'SS', '.S'],
+    ['TTT', '.T.'], ['.T', 'TT', '.T'], ['.T.', 'TTT'], ['T.', 'TT', 'T.'],
+    ['ZZ.', '.ZZ'], ['.Z', 'ZZ', 'Z.'],
+    ['J'], ['JJ'], ['J', 'J'], ['JJJ'], ['J', 'J', 'J'],
+    ['JJ', '.J'], ['.J', 'JJ'], ['J.', 'JJ'], ['JJ', 'J.']
+  ]
+
+  shapes.forEach((shape) => {
+    it('encloses the blocks of ' + shape.join('/'), () => {
+      const engine = new Engine({ seed: 1 })
+      loadBoard(engine, shape.map((line) => line + '........'.slice(0,
+        10 - line.length)))
+      const tet = tetAt(engine, engine.totalRows - 1,
+        shape[shape.length - 1].search(/[A-Z]/))
+      const blocks = shape.join('').replace(/\./g, '').length
+      assert.strictEqual(areaOf(tet.perim), blocks)
+      tet.perim.forEach((point, i) => {
+        // The sides only ever go straight across or straight up and down
+        const next = tet.perim[(i + 1) % tet.perim.length]
+        assert.ok(point[0] === next[0] || point[1] === next[1])
+      })
+    })
+  })
+
+  it('encloses garbage rows as wide as the board', () => {
+    const tet = new Tet(new Engine({ seed: 1 }), -1)
+    tet.setShape([[1, 1, 1, 1, 1, 1, 1, 1, 1]])
+    assert.strictEqual(areaOf(tet.perim), 9)
+  })
+
+  it('has none for shapes no Tet can take', () => {
+    const tet = new Tet(new Engine({ seed: 1 }), -1)
+    tet.setShape([[1, 1], [1, 1], [1]])
+    assert.deepStrictEqual(tet.perim, [])
+  })
+})
+
+describe('Tet.collided', () => {
+  // The I eliminates row 1; what was resting on it falls depending on the
+  // clear gravity, which may fill row 0 as well
+  const board = [
+    '.OOoo.....',
+    '.OOoo.....',
+    'GGGGGGGGG.',
+    'g..ggggggg'
+  ]
+  const script = 'resume cw > > > > > drop settle'
+
+  it('shifts the rows above down with naive gravity', () => {
+    const engine = new Engine({ seed: 1, clearGravity: 'naive' })
+    loadBoard(engine, board, ['I'])
+    runScript(engine, script)
+    assertBoard(engine, [
+      '.........I',
+      '.OOOO....I',
+      '.OOOO....I',
+      'G..GGGGGGG'
+    ])
+    assertState(engine, { lines: 1 })
+    assert.strictEqual(engine.chain, 1)
+  })
+
+  it('lets each fragment fall on its own with sticky gravity', () => {
+    const engine = new Engine({ seed: 1, clearGravity: 'sticky' })
+    loadBoard(engine, board, ['I'])
+    runScript(engine, script)
+    assertBoard(engine, [
+      '.........I',
+      '...OO....I',
+      '.OOOO....I'
+    ])
+    assertState(engine, { lines: 2 })
+    assert.strictEqual(engine.chain, 2)
+  })
+
+  it('lets touching blocks fall together with cascade gravity', () => {
+    const engine = new Engine({ seed: 1, clearGravity: 'cascade' })
+    loadBoard(engine, board, ['I'])
+    runScript(engine, script)
+    assertBoard(engine, [
+      '.........I',
+      '.OOOO....I',
+      '.OOOO....I',
+      'G..GGGGGGG'
+    ])
+    assertState(engine, { lines: 1 })
+    assert.strictEqual(engine.chain, 1)
+  })
+
+  it('scores each clear of a chain more than the last', () => {
+    const sticky = new Engine({ seed: 1, clearGravity: 'sticky' })
+    loadBoard(sticky, board, ['I'])
+    runScript(sticky, script)
+    const naive = new Engine({ seed: 1, clearGravity: 'naive' })
+    loadBoard(naive, board, ['I'])
+    runScript(naive, script)
+    // The second clear of the chain is worth twice a single one
+    assert.strictEqual(sticky.score, naive.score * 3)
+  })
+})
+
+describe('Tet.rotate', () => {
+  // Each rotation is blocked by a wall, so the Tet ends up where the first
+  // SRS test that fits puts it: its index is the kick
+  const kicks = [
+    { next: 'T', script: 'ccw < < < < < cw', kick: 1, top: 'TTT.......' },
+    { next: 'T', script: 'cw > > > > > ccw', kick: 1, top: '.......TTT' },
+    { next: 'I', script: 'cw > > > > > > cw', kick: 1, top: '......IIII' },
+    { next: 'I', script: 'cw > > > > > > ccw', kick: 2, top: '......IIII' },
+    { next: 'O', script: 'cw', kick: 0, top: '....OO....' }
+  ]
+  kicks.forEach((test) => {
+    it('kicks off the wall: ' + test.next + ' ' + test.script, () => {
+      const engine = new Engine({ seed: 1 })
+      loadBoard(engine, [], [test.next as TetLetter])
+      runScript(engine, 'resume ' + test.script)
+      const tet = engine.currTet as Tet
+      assert.strictEqual(tet.lastKick, test.kick)
+      assert.strictEqual(serializeBoard(engine, true)[0], test.top)
+    })
+  })
+
+  it('drops 2 rows into a slot under an overhang with the last kick', () => {
+    const engine = new Engine({ seed: 1 })
+    loadBoard(engine, [
+      'GGG.......',
+      '..........',
+      'G.........',
+      'G..GGGGGGG',
+      'GG.GGGGGGG'
+    ], ['T'])
+    runScript(engine, 'resume v v v v v v v v v v v v v v v v v v v < < < < cw')
+    const tet = engine.currTet as Tet
+    assert.strictEqual(tet.lastKick, 4)
+    assertBoard(engine, [
+      'GGG.......',
+      '..........',
+      'G.T.......',
+      'GTTGGGGGGG',
+      'GGTGGGGGGG'
+    ], true)
+    // Only 2 of the corners around its center are taken
+    assert.strictEqual(tet.getTSpin(), 'none')
+    runScript(engine, 'drop')
+    assertState(engine, { lines: 2 })
+  })
+})
+
+describe('Tet.getTSpin', () => {
+  const softDrop = ' v v v v v v v v v v v v v v v v v v v'
+
+  it('is a full T-Spin when both corners the T points to are taken', () => {
+    const engine = new Engine({ seed: 1 })
+    loadBoard(engine, [
+      'IIII......',
+      'TTT...SSOO',
+      'IIII.LLLOO'
+    ], ['T'])
+    runScript(engine, 'resume ccw <' + softDrop + ' cw')
+    assertBoard(engine, [
+      'IIII......',
+      'TTTtttSSOO',
+      'IIIItLLLOO'
+    ], true)
+    assert.strictEqual((engine.currTet as Tet).getTSpin(), 'full')
+  })
+
+  it('is a mini one when a corner the T points to is free', () => {
+    const engine = new Engine({ seed: 1 })
+    loadBoard(engine, [
+      '...G......',
+      'GGG...GGGG',
+      'GGGG.GGGGG'
+    ], ['T'])
+    runScript(engine, 'resume ccw <' + softDrop + ' ccw')
+    assertBoard(engine, [
+      '...GT.....',
+      'GGGTTTGGGG',
+      'GGGG.GGGGG'
+    ], true)
+    assert.strictEqual((engine.currTet as Tet).getTSpin(), 'mini')
+  })
+
+  it('is none unless the T was rotated last', () => {
+    const engine = new Engine({ seed: 1 })
+    loadBoard(engine, [
+      'G.........',
+      'G.........',
+      'G.GGGGGGGG'
+    ], ['T'])
+    // 3 corners are taken, but the T was turned before it got there
+    runScript(engine, 'resume ccw < < < <' + softDrop)
+    assertBoard(engine, [
+      'GT........',
+      'GTT.......',
+      'GTGGGGGGGG'
+    ], true)
+    assert.strictEqual((engine.currTet as Tet).getTSpin(), 'none')
+  })
+})
@@ -0,0 +1,96 @@
+import * as assert from 'assert'
+import { loadBoard, runScript } from '../src/js/fixtures'
+import { getAttack, Versus } from '../src/js/versus'
+
+/**
+ * This function makes up a clear like the ones the engine gives.
+ * @param clear These are the fields differing from a single row eliminated
+ *     by a living Tet.
+ * @returns The clear.
+ */
+function clearOf(clear: Partial<ClearEvent>): ClearEvent {
+  return Object.assign({ lines: 1, level: 1, tSpin: 'none' as TSpin,
+    perfectClear: false, cascade: false, chain: 1 }, clear)
+}
+
+/**
+ * This function tops out both players of a round at once, by burying them
+ * under garbage which pushes up as soon as their Tet lands.
+ * @param versus This is the match.
+ * @returns If the round just ended, return true; else, false.
+ */
+function buryBoth(versus: Versus) {
+  versus.engines.forEach((engine) => engine.receiveGarbage(40))
+  return versus.step([['hardDrop'], ['hardDrop']], 0)
+}
+
+describe('getAttack', () => {
+  it('sends garbage rows by the rows eliminated at once', () => {
+    assert.deepStrictEqual([1, 2, 3, 4].map((lines) =>
+      getAttack(clearOf({ lines }))), [0, 1, 2, 4])
+  })
+
+  it('sends twice the rows eliminated by a T-Spin, but not by a mini', () => {
+    assert.strictEqual(getAttack(clearOf({ lines: 2, tSpin: 'full' })), 4)
+    assert.strictEqual(getAttack(clearOf({ lines: 1, tSpin: 'full' })), 2)
+    assert.strictEqual(getAttack(clearOf({ lines: 1, tSpin: 'mini' })), 0)
+  })
+
+  it('sends more rows for perfect clears and chains', () => {
+    assert.strictEqual(getAttack(clearOf({ lines: 4, perfectClear: true })), 8)
+    assert.strictEqual(getAttack(clearOf({ lines: 1, chain: 3,
+      cascade: true })), 2)
+    assert.strictEqual(getAttack(clearOf({ lines: 2, chain: 2,
+      cascade: true, perfectClear: true })), 6)
+  })
+})
+
+describe('Versus', () => {
+  it('cancels the garbage queued for the sender before sending any', () => {
+    const versus = new Versus({}, 3)
+    const [first, second] = versus.engines
+    loadBoard(first, [
+      'GGGGGGGGG.',
+      'GGGGGGGGG.',
+      'GGGGGGGGG.',
+      'GGGGGGGGG.'
+    ], ['I'])
+    loadBoard(second, [], ['O'])
+    runScript(first, 'resume cw > > > > > 1ms')
+    runScript(second, 'resume 1ms')
+    first.receiveGarbage(3)
+    // A Tetris and a perfect clear: 8 rows, 3 of which cancel out
+    versus.step([['hardDrop']], 0)
+    assert.strictEqual(first.lines, 4)
+    assert.strictEqual(first.garbageQueued, 0)
+    assert.strictEqual(second.garbageQueued, 5)
+    assert.strictEqual(first.clears.length, 0)
+  })
+
+  it('gives the round to the player who didn\'t top out', () => {
+    const versus = new Versus({}, 1)
+    versus.setPaused(false)
+    versus.step([], 1)
+    versus.engines[0].receiveGarbage(40)
+    assert.strictEqual(versus.step([['hardDrop']], 0), true)
+    assert.strictEqual(versus.roundWinner, 1)
+    assert.deepStrictEqual(versus.wins, [0, 1])
+    assert.strictEqual(versus.getMatchWinner(), 1)
+    assert.strictEqual(versus.engines[1].outcome, 'finished')
+  })
+
+  it('counts a round both players top out of as a draw', () => {
+    const versus = new Versus({}, 1)
+    versus.setPaused(false)
+    versus.step([], 1)
+    assert.strictEqual(buryBoth(versus), true)
+    assert.strictEqual(versus.roundWinner, -1)
+    assert.deepStrictEqual(versus.wins, [0, 0])
+    assert.strictEqual(versus.getMatchWinner(), null)
+    // The match goes on with the next round
+    versus.next()
+    assert.strictEqual(versus.round, 2)
+    assert.strictEqual(versus.roundWinner, null)
+    assert.deepStrictEqual(versus.wins, [0, 0])
+  })
+})